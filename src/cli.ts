@@ -0,0 +1,478 @@
+import path from "path";
+import { parseArgs } from "util";
+import { Binary, BSON, Filter, MongoClient } from "mongodb";
+import { DekManager } from "./dekManager";
+import { EncryptionSchemaService } from "./encryptionSchemaService";
+import { ConfigurationError } from "./errors/errors";
+import { ICliConfig, ICliIO, IDoctorCheck } from "./types/cli";
+import { IKeyVaultDocument } from "./types/schema";
+import { getCliKmsProviders, ICliOverrides, requireCliSetting, resolveCliConfig } from "./utils/cliConfig.utils";
+import { findCryptSharedLib, inspectCryptSharedLib } from "./utils/cryptShared.utils";
+import { fileExists, generateLocalKey } from "./utils/file.utils";
+import { getKmsProviderName, resolveKmsProviders } from "./utils/kms.utils";
+import { formatSchemaPlan } from "./utils/schemaPlan.utils";
+import { collectSchemaLockKeyIds, writeSchemaLock } from "./utils/schemaLock.utils";
+
+const DEFAULT_LOCAL_KEY_FILE = "local-master-key.txt";
+const DOCTOR_TIMEOUT_MS = 5000;
+const OFFLINE_MONGO_URI = "mongodb://localhost:27017";
+const OFFLINE_KEY_VAULT = { database: "encryption", collection: "__keyVault" };
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+const USAGE = `Usage: mirage <command> [options]
+
+Commands:
+  keygen [file]                       Create a local master key file (default ${DEFAULT_LOCAL_KEY_FILE})
+  schema validate [file]              Check a schema file without touching the key vault
+  schema plan [file]                  Preview the DEKs a schema file would create
+  schema generate [file]              Create missing DEKs and print the generated schema
+  schema lock [file] [--lock-file <file>]
+                                      Create missing DEKs and write the schema lock file
+                                      (default <schema file name>.lock.json)
+  keys list [--alt-name <prefix>]     List the DEKs in the key vault
+  keys rotate --to <provider> [--alt-name <prefix>] [--from <provider>]
+                                      Rewrap DEKs under the master key of another KMS provider
+  keys delete <keyId|keyAltName> --yes
+                                      Delete a DEK
+  doctor                              Check the configuration, crypt_shared, KMS and MongoDB
+
+Options (flag / environment variable / config file setting):
+  --config <file>            MIRAGE_CONFIG            (default mirage.config.json, .yaml or .yml)
+  --uri <uri>                MIRAGE_MONGO_URI         mongoUri
+  --key-vault <db.coll>      MIRAGE_KEY_VAULT         keyVault
+  --local-key-file <file>    MIRAGE_LOCAL_KEY_FILE    localKeyFile
+                             MIRAGE_LOCAL_KEY_PASSPHRASE (protected key files)
+                                                      kmsProviders (config file only)
+  --crypt-shared <path>      MIRAGE_CRYPT_SHARED_LIB  cryptSharedLibPath
+  --schema <file>            MIRAGE_SCHEMA            schema
+  --mode <csfle|queryable>   MIRAGE_MODE              mode
+  --json                     Print JSON for scripting
+  -h, --help                 Show this help`;
+
+/**
+ * Error in the command line itself, reported with exit code 2
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
+
+interface ICommandContext {
+    args: string[];
+    flags: Record<string, string | boolean | undefined>;
+    io: ICliIO;
+    json: boolean;
+    config: () => ICliConfig;
+}
+
+/**
+ * Runs the mirage command-line tool
+ * 
+ * @param argv - Arguments after the executable and script, e.g. ["keys", "list", "--json"]
+ * @param io - Output streams, environment and working directory
+ * @returns Exit code: 0 on success, 1 on failure, 2 on a usage error
+ */
+export async function runCli(argv: string[], io: ICliIO = processIO()): Promise<number> {
+    let json = argv.includes("--json");
+
+    try {
+        const { values, positionals } = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                "config": { type: "string" },
+                "uri": { type: "string" },
+                "key-vault": { type: "string" },
+                "local-key-file": { type: "string" },
+                "crypt-shared": { type: "string" },
+                "schema": { type: "string" },
+                "mode": { type: "string" },
+                "json": { type: "boolean" },
+                "help": { type: "boolean", short: "h" },
+                "alt-name": { type: "string" },
+                "to": { type: "string" },
+                "from": { type: "string" },
+                "yes": { type: "boolean" },
+                "lock-file": { type: "string" },
+            },
+        });
+        json = values.json ?? false;
+
+        const [command, ...args] = positionals;
+        if (values.help || command === undefined || command === "help") {
+            io.stdout(USAGE);
+            return command === undefined && !values.help ? 2 : 0;
+        }
+
+        const overrides: ICliOverrides = {
+            config: values["config"],
+            uri: values["uri"],
+            keyVault: values["key-vault"],
+            localKeyFile: values["local-key-file"],
+            cryptShared: values["crypt-shared"],
+            schema: values["schema"],
+            mode: values["mode"],
+        };
+        let config: ICliConfig | undefined;
+        const context: ICommandContext = {
+            args,
+            flags: values,
+            io,
+            json,
+            config: () => config ??= resolveCliConfig(overrides, io),
+        };
+
+        switch (command) {
+            case "keygen":
+                return keygen(context);
+            case "schema":
+                return await schemaCommand(context);
+            case "keys":
+                return await keysCommand(context);
+            case "doctor":
+                return await doctor(context);
+            default:
+                throw new UsageError(`Unknown command '${command}'`);
+        }
+    } catch (error: any) {
+        const message = error.message || String(error);
+        if (json) {
+            io.stdout(toJson({ error: message }));
+        } else {
+            io.stderr(`error: ${message}`);
+        }
+        if (error instanceof UsageError || error?.code?.startsWith?.("ERR_PARSE_ARGS")) {
+            if (!json) {
+                io.stderr("Run 'mirage --help' for usage.");
+            }
+            return 2;
+        }
+        return 1;
+    }
+}
+
+/**
+ * `mirage keygen [file]`: creates a local master key file, protected with MIRAGE_LOCAL_KEY_PASSPHRASE
+ * when it is set. An existing file is left untouched. The key itself is never printed.
+ * 
+ * @param context - Command context
+ * @returns Exit code
+ */
+function keygen(context: ICommandContext): number {
+    const file = path.resolve(context.io.cwd, context.args[0] ?? DEFAULT_LOCAL_KEY_FILE);
+    const created = !fileExists(file);
+    generateLocalKey(file, { passphrase: context.io.env.MIRAGE_LOCAL_KEY_PASSPHRASE || undefined });
+
+    print(context, { file, created }, created
+        ? `Created local master key ${file}. Keep it secret and back it up: DEKs wrapped with it cannot be recovered without it.`
+        : `Local master key ${file} already exists; left unchanged.`);
+    return 0;
+}
+
+/**
+ * `mirage schema validate|plan|generate|lock [file]`
+ * 
+ * @param context - Command context
+ * @returns Exit code
+ */
+async function schemaCommand(context: ICommandContext): Promise<number> {
+    const [subcommand, file] = context.args;
+    const config = context.config();
+    const schemaFile = file === undefined ? config.schema : path.resolve(context.io.cwd, file);
+    if (schemaFile === undefined) {
+        throw new UsageError(`mirage schema ${subcommand ?? "<subcommand>"} needs a schema file argument, --schema or MIRAGE_SCHEMA`);
+    }
+    const mode = config.mode ?? "csfle";
+
+    switch (subcommand) {
+        case "validate": {
+            await createSchemaService(config, true).validate(schemaFile, { mode });
+            print(context, { file: schemaFile, mode, valid: true }, `${schemaFile}: valid for ${mode}`);
+            return 0;
+        }
+        case "plan": {
+            const plan = await createSchemaService(config).plan(schemaFile, { mode });
+            print(context, plan, formatSchemaPlan(plan));
+            return 0;
+        }
+        case "generate": {
+            const schemaService = createSchemaService(config);
+            const generated = mode === "queryable"
+                ? await schemaService.generateEncryptedFieldsMap(schemaFile)
+                : await schemaService.generateCSFLESchema(schemaFile);
+            context.io.stdout(toJson(generated));
+            return 0;
+        }
+        case "lock": {
+            const lockFileFlag = context.flags["lock-file"] as string | undefined;
+            const lockFile = lockFileFlag === undefined ? defaultSchemaLockFile(schemaFile) : path.resolve(context.io.cwd, lockFileFlag);
+            const lock = await createSchemaService(config).generateSchemaLock(schemaFile, { mode });
+            writeSchemaLock(lockFile, lock);
+            const keyIds = collectSchemaLockKeyIds(lock).length;
+            print(
+                context,
+                { file: schemaFile, lockFile, mode, sourceHash: lock.sourceHash, keyIds },
+                `Wrote ${lockFile} for ${mode} with ${keyIds} DEK(s)`
+            );
+            return 0;
+        }
+        default:
+            throw new UsageError(`Unknown schema subcommand '${subcommand ?? ""}'. Expected validate, plan, generate or lock`);
+    }
+}
+
+/**
+ * `mirage keys list|rotate|delete`
+ * 
+ * @param context - Command context
+ * @returns Exit code
+ */
+async function keysCommand(context: ICommandContext): Promise<number> {
+    const [subcommand, target] = context.args;
+    const altNamePrefix = context.flags["alt-name"] as string | undefined;
+
+    switch (subcommand) {
+        case "list": {
+            const filter: Filter<IKeyVaultDocument> = altNamePrefix === undefined ? {} : { keyAltNames: altNamePrefixFilter(altNamePrefix) };
+            const keys = (await createDekManager(context.config()).listKeys(filter)).map(describeKey);
+            print(context, keys, keys.length === 0
+                ? "No DEKs found."
+                : keys.map((key) => `${key.keyId}  ${key.provider}  ${key.keyAltNames.join(", ") || "-"}`).join("\n"));
+            return 0;
+        }
+        case "rotate": {
+            const to = context.flags.to as string | undefined;
+            if (to === undefined) {
+                throw new UsageError("mirage keys rotate needs --to <provider>");
+            }
+            const config = context.config();
+            const providers = getCliKmsProviders(config);
+            const newProvider = providers.find((provider) => getKmsProviderName(provider) === to);
+            if (!newProvider) {
+                throw new ConfigurationError(`Unknown KMS provider '${to}'. Configured providers are: ${providers.map(getKmsProviderName).join(", ")}`);
+            }
+
+            const filter: Filter<IKeyVaultDocument> = {};
+            if (altNamePrefix !== undefined) {
+                filter.keyAltNames = altNamePrefixFilter(altNamePrefix);
+            }
+            if (context.flags.from !== undefined) {
+                filter["masterKey.provider"] = context.flags.from as string;
+            }
+
+            const result = await createDekManager(config).rotateMasterKey(filter, newProvider);
+            print(context, result, [
+                ...result.keys.map((key) =>
+                    `${formatKeyId(key.keyId)}  ${key.previousProvider} -> ${key.provider}  ${key.rewrapped ? "rewrapped" : "unchanged"}`),
+                `${result.modifiedCount} of ${result.matchedCount} DEKs rewrapped.`,
+            ].join("\n"));
+            return 0;
+        }
+        case "delete": {
+            if (target === undefined) {
+                throw new UsageError("mirage keys delete needs a DEK id or keyAltName");
+            }
+            if (!context.flags.yes) {
+                throw new UsageError(`Refusing to delete DEK ${target} without --yes. Data encrypted with it can no longer be decrypted.`);
+            }
+
+            // A keyAltName may look like a UUID, so fall back to it when no DEK has that id
+            const dekManager = createDekManager(context.config());
+            const keyId = (UUID_PATTERN.test(target) ? (await dekManager.getKeyById(target))?._id : undefined) ??
+                (await dekManager.getKeyByAltName(target))?._id;
+            const deleted = keyId === undefined ? null : await dekManager.deleteKey(keyId);
+            if (!deleted) {
+                throw new ConfigurationError(`No DEK found for ${target}`);
+            }
+            print(context, describeKey(deleted), `Deleted DEK ${formatKeyId(deleted._id)}`);
+            return 0;
+        }
+        default:
+            throw new UsageError(`Unknown keys subcommand '${subcommand ?? ""}'. Expected list, rotate or delete`);
+    }
+}
+
+/**
+ * `mirage doctor`: checks the settings, the crypt_shared library, KMS credentials, the MongoDB
+ * connection, the key vault and the schema file, and reports every check
+ * 
+ * @param context - Command context
+ * @returns Exit code: 1 if any check failed
+ */
+async function doctor(context: ICommandContext): Promise<number> {
+    const checks: IDoctorCheck[] = [];
+    const check = async (name: string, run: () => Promise<string> | string): Promise<void> => {
+        try {
+            checks.push({ name, ok: true, message: await run() });
+        } catch (error: any) {
+            checks.push({ name, ok: false, message: error.message || String(error) });
+        }
+    };
+
+    let config: ICliConfig = {};
+    await check("config", () => {
+        config = context.config();
+        return "settings loaded";
+    });
+
+    await check("cryptShared", () => {
+        const libPath = config.cryptSharedLibPath ?? findCryptSharedLib(context.io.cwd);
+        if (libPath === undefined) {
+            throw new ConfigurationError("No crypt_shared library found. Set it with --crypt-shared or MIRAGE_CRYPT_SHARED_LIB, or put it in ./config or ./lib");
+        }
+        const lib = inspectCryptSharedLib(libPath, config.mode ?? "csfle");
+        return `crypt_shared ${lib.version} (${lib.arch}) found at ${lib.path}`;
+    });
+
+    await check("kms", async () => {
+        const providers = getCliKmsProviders(config);
+        await resolveKmsProviders(providers);
+        return `credentials available for ${providers.map(getKmsProviderName).join(", ")}`;
+    });
+
+    await check("mongodb", async () => {
+        const client = new MongoClient(requireCliSetting(config, "mongoUri", "--uri or MIRAGE_MONGO_URI"), { serverSelectionTimeoutMS: DOCTOR_TIMEOUT_MS });
+        try {
+            await client.connect();
+            const { version } = await client.db("admin").command({ buildInfo: 1 });
+            const keyVault = requireCliSetting(config, "keyVault", "--key-vault or MIRAGE_KEY_VAULT");
+            const count = await client.db(keyVault.database).collection(keyVault.collection).countDocuments();
+            return `connected to MongoDB ${version}; key vault ${keyVault.database}.${keyVault.collection} holds ${count} DEKs`;
+        } finally {
+            await client.close();
+        }
+    });
+
+    if (config.schema !== undefined) {
+        await check("schema", async () => {
+            await createSchemaService(config, true).validate(config.schema!, { mode: config.mode ?? "csfle" });
+            return `${config.schema} is valid for ${config.mode ?? "csfle"}`;
+        });
+    }
+
+    const failed = checks.filter((result) => !result.ok).length;
+    print(context, { ok: failed === 0, checks }, [
+        ...checks.map((result) => `${result.ok ? "ok  " : "FAIL"}  ${result.name}: ${result.message}`),
+        failed === 0 ? "All checks passed." : `${failed} of ${checks.length} checks failed.`,
+    ].join("\n"));
+    return failed === 0 ? 0 : 1;
+}
+
+/**
+ * Creates a DekManager for the configured key vault and KMS providers
+ * 
+ * @param config - Merged settings
+ * @returns DEK manager
+ * @throws {ConfigurationError} If a required setting is missing
+ */
+function createDekManager(config: ICliConfig): DekManager {
+    const mongoUri = requireCliSetting(config, "mongoUri", "--uri or MIRAGE_MONGO_URI");
+    const keyVault = requireCliSetting(config, "keyVault", "--key-vault or MIRAGE_KEY_VAULT");
+    return new DekManager(new MongoClient(mongoUri), `${keyVault.database}.${keyVault.collection}`, keyVault, getCliKmsProviders(config));
+}
+
+/**
+ * Creates a schema service. Offline, only the KMS provider names are used to validate the schema
+ * file, so the URI and key vault are optional and the client never connects.
+ * 
+ * @param config - Merged settings
+ * @param offline - Whether the command works without the key vault
+ * @returns Schema service
+ * @throws {ConfigurationError} If a required setting is missing
+ */
+function createSchemaService(config: ICliConfig, offline = false): EncryptionSchemaService {
+    if (!offline) {
+        return new EncryptionSchemaService(createDekManager(config));
+    }
+    const keyVault = config.keyVault ?? OFFLINE_KEY_VAULT;
+    return new EncryptionSchemaService(new DekManager(
+        new MongoClient(config.mongoUri ?? OFFLINE_MONGO_URI),
+        `${keyVault.database}.${keyVault.collection}`,
+        keyVault,
+        getCliKmsProviders(config)
+    ));
+}
+
+/**
+ * Returns the lock file path for a schema file: its name with the extension replaced by .lock.json
+ * 
+ * @param schemaFile - Absolute path to the schema file
+ * @returns Absolute path to the lock file
+ */
+function defaultSchemaLockFile(schemaFile: string): string {
+    const { dir, name } = path.parse(schemaFile);
+    return path.join(dir, `${name}.lock.json`);
+}
+
+/**
+ * Builds a key vault filter matching keyAltNames that start with a prefix
+ * 
+ * @param prefix - keyAltName prefix, e.g. "mydb.users."
+ * @returns Regular expression for the keyAltNames field
+ */
+function altNamePrefixFilter(prefix: string): RegExp {
+    return new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`);
+}
+
+/**
+ * Summarizes a key vault document without its key material
+ * 
+ * @param key - Key vault document
+ * @returns DEK id, alternate names, provider and dates
+ */
+function describeKey(key: IKeyVaultDocument): { keyId: string; keyAltNames: string[]; provider: string; creationDate?: Date; updateDate?: Date } {
+    return {
+        keyId: formatKeyId(key._id),
+        keyAltNames: key.keyAltNames ?? [],
+        provider: key.masterKey?.provider ?? "unknown",
+        ...(key.creationDate ? { creationDate: key.creationDate } : {}),
+        ...(key.updateDate ? { updateDate: key.updateDate } : {}),
+    };
+}
+
+/**
+ * Formats a DEK id for display
+ * 
+ * @param keyId - DEK id
+ * @returns UUID string, or hex for non-UUID ids
+ */
+function formatKeyId(keyId: Binary): string {
+    return keyId.sub_type === Binary.SUBTYPE_UUID ? keyId.toUUID().toHexString() : keyId.toString("hex");
+}
+
+/**
+ * Prints a result as JSON or text depending on --json
+ * 
+ * @param context - Command context
+ * @param value - Result for JSON output
+ * @param text - Result for text output
+ */
+function print(context: ICommandContext, value: unknown, text: string): void {
+    context.io.stdout(context.json ? toJson(value) : text);
+}
+
+/**
+ * Serializes a value as relaxed Extended JSON, so DEK ids and dates survive a round trip
+ * 
+ * @param value - Value to serialize
+ * @returns Indented JSON
+ */
+function toJson(value: unknown): string {
+    return BSON.EJSON.stringify(value, undefined, 2, { relaxed: true });
+}
+
+/**
+ * Binds the command-line tool to the current process
+ * 
+ * @returns Process streams, environment and working directory
+ */
+function processIO(): ICliIO {
+    return {
+        stdout: (text) => process.stdout.write(`${text}\n`),
+        stderr: (text) => process.stderr.write(`${text}\n`),
+        env: process.env,
+        cwd: process.cwd(),
+    };
+}
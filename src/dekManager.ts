@@ -1,112 +1,660 @@
-import { Binary, ClientEncryption, MongoClient, } from "mongodb";
+import { Binary, ClientEncryption, Collection, DataKey, Filter, MongoClient, UUID, } from "mongodb";
 import {
     IKMSProvider
 } from "./types/kms";
 import { IKeyVault, IKeyVaultDocument } from "./types/schema";
-import { EncryptionError, KMSError } from "./errors/errors";
-import { IKmsProviderConfig, IMasterKeyConfig } from "./types/config";
+import { ConfigurationError, EncryptionError, KMSError, ValidationError } from "./errors/errors";
+import { IMasterKeyConfig } from "./types/config";
+import { IDekManagerOptions, IGetDEKsOptions, IKeyVaultStatus, IRotatedKey, IRotateMasterKeyResult } from "./types/dekManager";
+import { IMirageErrorContext } from "./types/errors";
+import {
+    buildKmsTlsOptions,
+    getKmsErrorCode,
+    getKmsProviderName,
+    kmsProvidersEqual,
+    resolveKmsProviders,
+    resolveKmsProviderSecrets,
+    toKmsProviderList
+} from "./utils/kms.utils";
+
+const DEFAULT_DEK_CONCURRENCY = 8;
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+/**
+ * The unique partial index on keyAltNames recommended for key vaults, so that two processes
+ * can't create DEKs with the same alternate name
+ */
+const KEY_ALT_NAMES_INDEX = {
+    key: { keyAltNames: 1 },
+    options: {
+        name: "keyAltNames_1",
+        unique: true,
+        partialFilterExpression: { keyAltNames: { $exists: true } },
+    },
+} as const;
 
 export class DekManager {
     public readonly mongoClient: MongoClient;
     private readonly keyVaultNamespace: string;
     private readonly keyVault: IKeyVault;
     private readonly kmsProvider: IKMSProvider;
+    private readonly kmsProviders: IKMSProvider[];
+    private readonly keepConnected: boolean;
+    private keyVaultIndexEnsured = false;
 
-    constructor(mongoClient: MongoClient, keyVaultNamespace: string, keyVault: IKeyVault, kmsProvider: IKMSProvider) {
+    /**
+     * @param mongoClient - MongoDB client for key vault operations
+     * @param keyVaultNamespace - Key vault namespace ("database.collection")
+     * @param keyVault - Key vault configuration
+     * @param kmsProvider - KMS provider, or several providers; the first one wraps new DEKs by default
+     * @param options - keepConnected leaves the client connected after each operation, for clients
+     * whose lifecycle the caller manages
+     * @throws {KMSError} If a provider is unsupported or provider names are invalid or not unique
+     */
+    constructor(
+        mongoClient: MongoClient,
+        keyVaultNamespace: string,
+        keyVault: IKeyVault,
+        kmsProvider: IKMSProvider | IKMSProvider[],
+        options: IDekManagerOptions = {}
+    ) {
         this.mongoClient = mongoClient;
         this.keyVaultNamespace = keyVaultNamespace;
         this.keyVault = keyVault;
-        this.kmsProvider = kmsProvider;
+        this.kmsProviders = toKmsProviderList(kmsProvider);
+        this.kmsProvider = this.kmsProviders[0];
+        this.keepConnected = options.keepConnected ?? false;
     }
 
     /**
-     * Gets or creates a Data Encryption Key (DEK) for a specific field
+     * Returns the names of the configured KMS providers, e.g. ["aws:eu", "aws:us"]. The first
+     * one is the default for new DEKs.
+     * 
+     * @returns KMS provider names
+     */
+    public getKmsProviderNames(): string[] {
+        return this.kmsProviders.map(getKmsProviderName);
+    }
+
+    /**
+     * Gets or creates a Data Encryption Key (DEK) for a specific field. Before creating a DEK, the
+     * unique keyAltNames index is ensured; if another process creates the same DEK first, its key is returned.
      * 
      * @param fieldKeyAltName - The alternate name for the key, typically the field path
+     * @param kmsProvider - Name of the KMS provider that wraps a newly created DEK (defaults to the first provider)
      * @returns A Binary representing the DEK ID
+     * @throws {KMSError} If the KMS provider is not configured
      * @throws {EncryptionError} If there's an issue retrieving or creating the DEK
      */
-    public async getDEK(fieldKeyAltName: string): Promise<Binary> {
+    public async getDEK(fieldKeyAltName: string, kmsProvider?: string): Promise<Binary> {
+        const provider = this.resolveKmsProvider(kmsProvider);
+
         await this.mongoClient.connect();
 
         try {
-            const keyVault = this.mongoClient.db(this.keyVault.database).collection(this.keyVault.collection);
+            const keyVault = this.mongoClient.db(this.keyVault.database).collection<IKeyVaultDocument>(this.keyVault.collection);
 
             // Check if a DEK with this altName already exists
-            const existingKey = await keyVault.findOne<IKeyVaultDocument>({ keyAltNames: fieldKeyAltName });
+            const existingKey = await keyVault.findOne({ keyAltNames: fieldKeyAltName });
             if (existingKey) {
-                return existingKey._id as Binary;
+                return existingKey._id;
+            }
+
+            await this.ensureKeyAltNamesIndex(keyVault);
+            const encryption = await this.createClientEncryption();
+            return await this.createDEK(encryption, keyVault, provider, fieldKeyAltName);
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to create or retrieve DEK for ${fieldKeyAltName}: ${error.message || String(error)}`, {
+                code: getKmsErrorCode(error),
+                cause: error,
+                context: { keyAltName: fieldKeyAltName, provider: getKmsProviderName(provider) },
+            });
+        }
+        finally {
+            await this.releaseClient();
+        }
+    }
+
+    /**
+     * Gets or creates the Data Encryption Keys (DEKs) for many fields at once. Uses a single
+     * connection and ClientEncryption, looks up existing keys with one query and creates the
+     * missing ones with bounded concurrency. As with getDEK, concurrent creation by another process
+     * is resolved in favor of the key that was stored first.
+     * 
+     * @param fieldKeyAltNames - The alternate names for the keys, typically the field paths
+     * @param options - Batch options; `concurrency` limits parallel key creation (default 8) and
+     * `kmsProvider` names the provider that wraps newly created DEKs (defaults to the first provider)
+     * @returns A map of alternate name to DEK ID
+     * @throws {ValidationError} If the concurrency is not a positive integer
+     * @throws {KMSError} If the KMS provider is not configured
+     * @throws {EncryptionError} If there's an issue retrieving or creating the DEKs
+     */
+    public async getDEKs(fieldKeyAltNames: string[], options: IGetDEKsOptions = {}): Promise<Map<string, Binary>> {
+        const concurrency = options.concurrency ?? DEFAULT_DEK_CONCURRENCY;
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new ValidationError(`DEK concurrency must be a positive integer, got ${concurrency}`);
+        }
+        const provider = this.resolveKmsProvider(options.kmsProvider);
+
+        const altNames = [...new Set(fieldKeyAltNames)];
+        const deks = new Map<string, Binary>();
+        if (altNames.length === 0) {
+            return deks;
+        }
+
+        await this.mongoClient.connect();
+
+        try {
+            const keyVault = this.mongoClient.db(this.keyVault.database).collection<IKeyVaultDocument>(this.keyVault.collection);
+
+            const existingKeys = await keyVault
+                .find({ keyAltNames: { $in: altNames } }, { projection: { _id: 1, keyAltNames: 1 } })
+                .toArray();
+            for (const key of existingKeys) {
+                for (const altName of key.keyAltNames ?? []) {
+                    deks.set(altName, key._id);
+                }
+            }
+
+            const missing = altNames.filter((altName) => !deks.has(altName));
+            if (missing.length > 0) {
+                await this.ensureKeyAltNamesIndex(keyVault);
+                const encryption = await this.createClientEncryption();
+
+                await this.runWithConcurrency(missing, concurrency, async (altName) => {
+                    try {
+                        deks.set(altName, await this.createDEK(encryption, keyVault, provider, altName));
+                    } catch (error: any) {
+                        throw new EncryptionError(`${altName}: ${error.message || String(error)}`, {
+                            code: getKmsErrorCode(error),
+                            cause: error,
+                            context: { keyAltName: altName, provider: getKmsProviderName(provider) },
+                        });
+                    }
+                });
+            }
+
+            return new Map(altNames.map((altName) => [altName, deks.get(altName)!]));
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to create or retrieve DEKs: ${error.message || String(error)}`, { cause: error });
+        }
+        finally {
+            await this.releaseClient();
+        }
+    }
+
+    /**
+     * Provisions one DEK per tenant, using the tenant ID as the key's alternate name. Documents
+     * encrypted with a keyAltNameField pointer (e.g. "/tenantId") resolve their DEK by this name,
+     * so call this when onboarding tenants, before their first write. Existing keys are reused.
+     * 
+     * @param tenantIds - IDs of the tenants to provision
+     * @param options - Batch options, as for getDEKs
+     * @returns A map of tenant ID to DEK ID
+     * @throws {ValidationError} If a tenant ID is not a non-empty string
+     * @throws {KMSError} If the KMS provider is not configured
+     * @throws {EncryptionError} If there's an issue retrieving or creating the DEKs
+     */
+    public async provisionTenantDEKs(tenantIds: string[], options: IGetDEKsOptions = {}): Promise<Map<string, Binary>> {
+        const invalid = tenantIds.find((tenantId) => typeof tenantId !== "string" || tenantId.trim() === "");
+        if (invalid !== undefined) {
+            throw new ValidationError(`Tenant IDs must be non-empty strings, got ${JSON.stringify(invalid)}`);
+        }
+
+        return this.getDEKs(tenantIds, options);
+    }
+
+    /**
+     * Rewraps every DEK matching the filter under the master key of a new KMS provider.
+     * The data keys themselves don't change, so data encrypted with them stays readable.
+     * Credentials for all configured providers and the new provider are supplied to the driver for
+     * the duration of the rewrap. A configured provider with the same name must have the same credentials,
+     * because the driver needs the old ones to unwrap the DEKs; give the new provider a name instead, e.g. "aws:new".
+     * 
+     * @param filter - Key vault filter selecting the DEKs to rewrap ({} for all)
+     * @param newProvider - KMS provider holding the new customer master key
+     * @returns A report of every matched DEK and whether it was rewrapped
+     * @throws {KMSError} If the new provider is not supported, its TLS files do not exist or its credentials can't be fetched
+     * @throws {ConfigurationError} If a configured provider has the same name as the new provider but other credentials
+     * @throws {EncryptionError} If reading or rewrapping the DEKs fails
+     */
+    public async rotateMasterKey(filter: Filter<IKeyVaultDocument>, newProvider: IKMSProvider): Promise<IRotateMasterKeyResult> {
+        toKmsProviderList(newProvider);
+        const name = getKmsProviderName(newProvider);
+        const configured = await resolveKmsProviders(this.kmsProviders);
+        const target = await resolveKmsProviders([newProvider]);
+        if (configured[name] !== undefined && !kmsProvidersEqual({ [name]: configured[name] }, target)) {
+            throw new ConfigurationError(
+                `KMS provider '${name}' is already configured with other credentials, which are needed to unwrap the current DEKs. ` +
+                `Give the new provider a name, e.g. "${newProvider.type}:new", to rotate to other credentials.`,
+                { context: { provider: name } }
+            );
+        }
+        const providers = await resolveKmsProviderSecrets([...this.kmsProviders, newProvider]);
+        const kmsProviders = { ...configured, ...target };
+
+        await this.mongoClient.connect();
+
+        try {
+            const keyVault = this.mongoClient.db(this.keyVault.database).collection<IKeyVaultDocument>(this.keyVault.collection);
+            const before = await keyVault.find(filter).toArray();
+
+            if (before.length === 0) {
+                return { matchedCount: 0, modifiedCount: 0, keys: [] };
             }
 
             const encryption = new ClientEncryption(this.mongoClient, {
                 keyVaultNamespace: this.keyVaultNamespace,
-                kmsProviders: this.getKmsProviderConfig(this.kmsProvider),
+                kmsProviders,
+                tlsOptions: buildKmsTlsOptions(providers),
             });
 
-            const masterKey = this.getMasterKey(this.kmsProvider);
-            const dekId = await encryption.createDataKey(this.kmsProvider.type, {
-                masterKey,
-                keyAltNames: [fieldKeyAltName],
+            const keyIds = before.map((key) => key._id);
+            const rewrapFilter: Filter<DataKey> = { _id: { $in: keyIds.map((keyId) => keyId.toUUID()) } };
+            const result = await encryption.rewrapManyDataKey(rewrapFilter, {
+                provider: name,
+                masterKey: this.getMasterKey(newProvider),
             });
 
-            return dekId;
+            const after = await keyVault.find({ _id: { $in: keyIds } }).toArray();
+            const keys: IRotatedKey[] = before.map((previous) => {
+                const current = after.find((key) => Buffer.from(key._id.buffer).equals(Buffer.from(previous._id.buffer)));
+                return {
+                    keyId: previous._id,
+                    keyAltNames: previous.keyAltNames ?? [],
+                    previousProvider: previous.masterKey?.provider ?? "unknown",
+                    provider: current?.masterKey?.provider ?? "unknown",
+                    rewrapped: current !== undefined &&
+                        !Buffer.from(current.keyMaterial.buffer).equals(Buffer.from(previous.keyMaterial.buffer)),
+                };
+            });
+
+            return {
+                matchedCount: before.length,
+                modifiedCount: result.bulkWriteResult?.modifiedCount ?? 0,
+                keys,
+            };
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to rotate master key: ${error.message || String(error)}`, {
+                code: getKmsErrorCode(error),
+                cause: error,
+                context: { provider: name },
+            });
+        }
+        finally {
+            await this.releaseClient();
+        }
+    }
+
+    /**
+     * Ensures the key vault has a unique partial index on keyAltNames, creating it if needed. DEK
+     * creation calls this once per DekManager; call it at deployment time when the application
+     * itself lacks the createIndex privilege.
+     * 
+     * @throws {EncryptionError} If the index cannot be created, e.g. because two DEKs already share an alternate name
+     */
+    public async ensureKeyVaultIndex(): Promise<void> {
+        await this.withKeyVault("ensure the keyAltNames index", (keyVault) => this.ensureKeyAltNamesIndex(keyVault));
+    }
+
+    /**
+     * Inspects the key vault without changing it: how many DEKs it holds, whether the unique
+     * keyAltNames index exists, and one DEK per configured KMS provider, e.g. for health checks
+     * 
+     * @returns The key vault status
+     * @throws {EncryptionError} If the key vault cannot be read
+     */
+    public async inspectKeyVault(): Promise<IKeyVaultStatus> {
+        return this.withKeyVault("inspect the key vault", async (keyVault) => {
+            const dekCount = await keyVault.countDocuments();
+            const index = await this.findKeyAltNamesIndex(keyVault);
+
+            const sampleKeyIds: Record<string, Binary> = {};
+            for (const name of this.getKmsProviderNames()) {
+                const key = await keyVault.findOne({ "masterKey.provider": name }, { projection: { _id: 1 } });
+                if (key) {
+                    sampleKeyIds[name] = key._id;
+                }
+            }
+
+            return {
+                dekCount,
+                keyAltNamesIndex: index === undefined ? "missing" : index.unique ? "unique" : "nonUnique",
+                sampleKeyIds,
+            };
+        });
+    }
+
+    /**
+     * Lists the DEKs in the key vault
+     * 
+     * @param filter - Optional key vault filter, e.g. { keyAltNames: /^mydb\.users\./ }
+     * @returns Matching key vault documents
+     * @throws {EncryptionError} If the key vault cannot be read
+     */
+    public async listKeys(filter: Filter<IKeyVaultDocument> = {}): Promise<IKeyVaultDocument[]> {
+        return this.withKeyVault("list DEKs", (keyVault) => keyVault.find(filter).toArray());
+    }
+
+    /**
+     * Gets a DEK by one of its alternate names
+     * 
+     * @param keyAltName - Alternate name of the DEK
+     * @returns The key vault document, or null if no DEK has this alternate name
+     * @throws {EncryptionError} If the key vault cannot be read
+     */
+    public async getKeyByAltName(keyAltName: string): Promise<IKeyVaultDocument | null> {
+        return this.withKeyVault(`get DEK ${keyAltName}`, (keyVault) => keyVault.findOne({ keyAltNames: keyAltName }), { keyAltName });
+    }
+
+    /**
+     * Gets a DEK by its id
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @returns The key vault document, or null if no DEK has this id
+     * @throws {ValidationError} If the id is not a valid UUID
+     * @throws {EncryptionError} If the key vault cannot be read
+     */
+    public async getKeyById(keyId: Binary | string): Promise<IKeyVaultDocument | null> {
+        const id = this.toKeyId(keyId);
+        return this.withKeyVault(`get DEK ${this.formatKeyId(id)}`, (keyVault) => keyVault.findOne({ _id: id }), {
+            keyId: this.formatKeyId(id),
+        });
+    }
+
+    /**
+     * Checks which of the given DEKs no longer exist, with a single key vault query
+     * 
+     * @param keyIds - DEK ids
+     * @returns The ids that are not in the key vault, in the given order
+     * @throws {EncryptionError} If the key vault cannot be read
+     */
+    public async findMissingKeys(keyIds: Binary[]): Promise<Binary[]> {
+        if (keyIds.length === 0) {
+            return [];
+        }
+
+        const existing = await this.withKeyVault(`check ${keyIds.length} DEKs`, (keyVault) =>
+            keyVault.find({ _id: { $in: keyIds } }, { projection: { _id: 1 } }).toArray()
+        );
+        const existingIds = new Set(existing.map((key) => Buffer.from(key._id.buffer).toString("hex")));
+        return keyIds.filter((keyId) => !existingIds.has(Buffer.from(keyId.buffer).toString("hex")));
+    }
+
+    /**
+     * Adds an alternate name to a DEK
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @param keyAltName - Alternate name to add
+     * @returns The updated key vault document, or null if no DEK has this id
+     * @throws {ValidationError} If the id is not a valid UUID
+     * @throws {EncryptionError} If the DEK cannot be updated
+     */
+    public async addKeyAltName(keyId: Binary | string, keyAltName: string): Promise<IKeyVaultDocument | null> {
+        const id = this.toKeyId(keyId);
+        return this.withKeyVault(`add alternate name ${keyAltName} to DEK ${this.formatKeyId(id)}`, async (keyVault) => {
+            const previous = await (await this.createClientEncryption()).addKeyAltName(id, keyAltName);
+            return previous ? keyVault.findOne({ _id: id }) : null;
+        }, { keyId: this.formatKeyId(id), keyAltName });
+    }
+
+    /**
+     * Removes an alternate name from a DEK
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @param keyAltName - Alternate name to remove
+     * @returns The updated key vault document, or null if no DEK has this id
+     * @throws {ValidationError} If the id is not a valid UUID
+     * @throws {EncryptionError} If the DEK cannot be updated
+     */
+    public async removeKeyAltName(keyId: Binary | string, keyAltName: string): Promise<IKeyVaultDocument | null> {
+        const id = this.toKeyId(keyId);
+        return this.withKeyVault(`remove alternate name ${keyAltName} from DEK ${this.formatKeyId(id)}`, async (keyVault) => {
+            const previous = await (await this.createClientEncryption()).removeKeyAltName(id, keyAltName);
+            return previous ? keyVault.findOne({ _id: id }) : null;
+        }, { keyId: this.formatKeyId(id), keyAltName });
+    }
+
+    /**
+     * Deletes a DEK. Data encrypted with the DEK can no longer be decrypted afterwards.
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @returns The deleted key vault document, or null if no DEK has this id
+     * @throws {ValidationError} If the id is not a valid UUID
+     * @throws {EncryptionError} If the DEK cannot be deleted
+     */
+    public async deleteKey(keyId: Binary | string): Promise<IKeyVaultDocument | null> {
+        const id = this.toKeyId(keyId);
+        return this.withKeyVault(`delete DEK ${this.formatKeyId(id)}`, async (keyVault) => {
+            const existing = await keyVault.findOne({ _id: id });
+            if (!existing) {
+                return null;
+            }
+
+            await (await this.createClientEncryption()).deleteKey(id);
+            return existing;
+        }, { keyId: this.formatKeyId(id) });
+    }
+
+    /**
+     * Runs an operation against the key vault collection, managing the connection
+     * 
+     * @param operation - Description of the operation for error messages
+     * @param fn - Operation to run
+     * @param context - Error context, e.g. the DEK the operation is about
+     * @returns Result of the operation
+     * @throws {EncryptionError} If the operation fails
+     */
+    private async withKeyVault<T>(
+        operation: string,
+        fn: (keyVault: Collection<IKeyVaultDocument>) => Promise<T>,
+        context?: IMirageErrorContext
+    ): Promise<T> {
+        await this.mongoClient.connect();
+
+        try {
+            const keyVault = this.mongoClient.db(this.keyVault.database).collection<IKeyVaultDocument>(this.keyVault.collection);
+            return await fn(keyVault);
         } catch (error: any) {
-            throw new EncryptionError(`Failed to create or retrieve DEK for ${fieldKeyAltName}: ${error.message || String(error)}`);
+            throw new EncryptionError(`Failed to ${operation}: ${error.message || String(error)}`, {
+                code: getKmsErrorCode(error),
+                cause: error,
+                context,
+            });
         }
         finally {
+            await this.releaseClient();
+        }
+    }
+
+    /**
+     * Closes the client after an operation, unless the caller keeps it connected
+     */
+    private async releaseClient(): Promise<void> {
+        if (!this.keepConnected) {
             await this.mongoClient.close();
         }
     }
 
     /**
-     * Returns the kmsProviders configuration expected by ClientEncryption.
+     * Runs a task for every item with at most `concurrency` tasks in flight. After the first
+     * failure no new tasks are started, and the failure is thrown once in-flight tasks settle.
      * 
-     * @param provider - The KMS provider configuration
-     * @returns KMS provider configuration formatted for ClientEncryption
-     * @throws {KMSError} If the provider type is not supported
+     * @param items - Items to process
+     * @param concurrency - Maximum number of concurrent tasks
+     * @param task - Task to run for each item
      */
-    private getKmsProviderConfig(provider: IKMSProvider): IKmsProviderConfig {
-        switch (provider.type) {
-            case "local":
-                return { local: { key: provider.local.key } };
+    private async runWithConcurrency<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+        let next = 0;
+        let failure: unknown;
 
-            case "aws":
-                return {
-                    aws: {
-                        accessKeyId: provider.aws.accessKeyId,
-                        secretAccessKey: provider.aws.secretAccessKey,
-                        sessionToken: provider.aws.sessionToken,
-                    },
-                };
+        const worker = async (): Promise<void> => {
+            while (failure === undefined && next < items.length) {
+                try {
+                    await task(items[next++]);
+                } catch (error) {
+                    failure ??= error;
+                }
+            }
+        };
 
-            case "azure":
-                return {
-                    azure: {
-                        clientId: provider.azure.clientId,
-                        clientSecret: provider.azure.clientSecret,
-                        tenantId: provider.azure.tenantId,
-                    },
-                };
+        await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
 
-            case "gcp":
-                return {
-                    gcp: {
-                        email: provider.gcp.email,
-                        privateKey: provider.gcp.privateKey,
-                    },
-                };
+        if (failure !== undefined) {
+            throw failure;
+        }
+    }
 
-            case "kmip":
-                return {
-                    kmip: {
-                        endpoint: provider.kmip.endpoint,
-                    },
-                };
+    /**
+     * Creates a DEK with the given alternate name. If another process stored a DEK with that name
+     * first, the unique keyAltNames index rejects this one and the stored DEK is returned instead.
+     * 
+     * @param encryption - ClientEncryption for this key vault
+     * @param keyVault - Key vault collection
+     * @param provider - KMS provider wrapping the DEK
+     * @param keyAltName - Alternate name of the DEK
+     * @returns The DEK id
+     */
+    private async createDEK(
+        encryption: ClientEncryption,
+        keyVault: Collection<IKeyVaultDocument>,
+        provider: IKMSProvider,
+        keyAltName: string
+    ): Promise<Binary> {
+        try {
+            return await encryption.createDataKey(getKmsProviderName(provider), {
+                masterKey: this.getMasterKey(provider),
+                keyAltNames: [keyAltName],
+            });
+        } catch (error: any) {
+            if (error?.code !== DUPLICATE_KEY_ERROR_CODE) {
+                throw error;
+            }
+            const winner = await keyVault.findOne({ keyAltNames: keyAltName }, { projection: { _id: 1 } });
+            if (!winner) {
+                throw error;
+            }
+            return winner._id;
+        }
+    }
+
+    /**
+     * Creates the unique keyAltNames index unless the key vault already has a unique index on keyAltNames
+     * 
+     * @param keyVault - Key vault collection
+     * @throws {EncryptionError} If a non-unique index on keyAltNames exists, or DEKs already share an alternate name
+     */
+    private async ensureKeyAltNamesIndex(keyVault: Collection<IKeyVaultDocument>): Promise<void> {
+        if (this.keyVaultIndexEnsured) {
+            return;
+        }
+
+        const existing = await this.findKeyAltNamesIndex(keyVault);
+        if (existing && !existing.unique) {
+            throw new EncryptionError(
+                `Key vault index ${existing.name} on keyAltNames is not unique. Drop it so the unique index can be created.`,
+                { code: "KEY_VAULT_INDEX_INVALID" }
+            );
+        }
+        if (!existing) {
+            try {
+                await keyVault.createIndex(KEY_ALT_NAMES_INDEX.key, KEY_ALT_NAMES_INDEX.options);
+            } catch (error: any) {
+                if (error?.code === DUPLICATE_KEY_ERROR_CODE) {
+                    throw new EncryptionError(
+                        `Cannot create the unique keyAltNames index because several DEKs share an alternate name. ` +
+                        `Remove the duplicates first: ${error.message}`,
+                        { code: "KEY_VAULT_INDEX_INVALID", cause: error }
+                    );
+                }
+                throw error;
+            }
+        }
+        this.keyVaultIndexEnsured = true;
+    }
+
+    /**
+     * Finds the key vault index on keyAltNames alone
+     * 
+     * @param keyVault - Key vault collection
+     * @returns The index description, or undefined if there is none
+     */
+    private async findKeyAltNamesIndex(keyVault: Collection<IKeyVaultDocument>): Promise<{ name?: string; unique?: boolean } | undefined> {
+        const indexes = await keyVault.listIndexes().toArray().catch((error: any) => {
+            // The key vault collection doesn't exist until the first DEK is stored
+            if (error?.codeName === "NamespaceNotFound") {
+                return [];
+            }
+            throw error;
+        });
+        return indexes.find((index) => Object.keys(index.key).length === 1 && index.key.keyAltNames === 1);
+    }
 
-            default:
-                // This should never happen due to TypeScript checks, but as a safeguard
-                throw new KMSError(`Unsupported KMS provider: ${String((provider as any).type)}`);
+    /**
+     * Creates a ClientEncryption instance for this key vault, with current credentials
+     * for every KMS provider
+     * 
+     * @returns ClientEncryption configured with every KMS provider
+     * @throws {KMSError} If a secret can't be resolved or a credential provider fails
+     */
+    private async createClientEncryption(): Promise<ClientEncryption> {
+        const providers = await resolveKmsProviderSecrets(this.kmsProviders);
+        return new ClientEncryption(this.mongoClient, {
+            keyVaultNamespace: this.keyVaultNamespace,
+            kmsProviders: await resolveKmsProviders(providers),
+            tlsOptions: buildKmsTlsOptions(providers),
+        });
+    }
+
+    /**
+     * Resolves a configured KMS provider by name
+     * 
+     * @param name - KMS provider name, e.g. "aws:eu"; the first provider when omitted
+     * @returns The KMS provider configuration
+     * @throws {KMSError} If no provider with that name is configured
+     */
+    private resolveKmsProvider(name?: string): IKMSProvider {
+        if (name === undefined) {
+            return this.kmsProvider;
+        }
+
+        const provider = this.kmsProviders.find((candidate) => getKmsProviderName(candidate) === name);
+        if (!provider) {
+            throw new KMSError(`Unknown KMS provider '${name}'. Configured providers are: ${this.getKmsProviderNames().join(", ")}`, {
+                code: "KMS_PROVIDER_UNKNOWN",
+                context: { provider: name },
+            });
         }
+        return provider;
+    }
+
+    /**
+     * Converts a DEK id to a Binary
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @returns The DEK id as a Binary
+     * @throws {ValidationError} If the string is not a valid UUID
+     */
+    private toKeyId(keyId: Binary | string): Binary {
+        if (keyId instanceof Binary) {
+            return keyId;
+        }
+
+        try {
+            return new UUID(keyId);
+        } catch {
+            throw new ValidationError(`Invalid DEK id: ${keyId}. Expected a UUID string or Binary.`, { code: "DEK_ID_INVALID" });
+        }
+    }
+
+    /**
+     * Formats a DEK id for messages
+     * 
+     * @param keyId - DEK id
+     * @returns The DEK id as a UUID string, or hex if it is not a UUID
+     */
+    private formatKeyId(keyId: Binary): string {
+        return keyId.sub_type === Binary.SUBTYPE_UUID ? keyId.toUUID().toHexString() : keyId.toString("hex");
     }
 
     /**
@@ -145,7 +693,7 @@ export class DekManager {
                 };
 
             case "kmip":
-                return provider.masterKey; // may be undefined or { keyId }
+                return provider.masterKey; // may be undefined or { keyId, endpoint, delegated }
         }
     }
 }
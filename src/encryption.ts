@@ -1,67 +1,136 @@
-import { MongoClient, MongoClientOptions } from "mongodb";
+import { Binary, ClientEncryption, Document, MongoClient, MongoClientOptions } from "mongodb";
 import { IKMSProvider } from "./types/kms";
-import { IEncryptionSchema, IKeyVault, TCryptSharedFilePath, TSchemaFilePath } from "./types/schema";
+import { IEncryptedFieldsMap, IEncryptionSchema, IKeyVault, TCryptSharedFilePath, TEncryptionMode, TSchemaFilePath } from "./types/schema";
 import { fileExists } from "./utils/file.utils";
 import { EncryptionSchemaService } from "./encryptionSchemaService";
 import { DekManager } from "./dekManager";
-import path from "path";
-import { validateCSFLESchema } from "./utils/schema.utils";
-import { ConfigurationError, ValidationError, EncryptionError } from "./errors/errors";
-import { IEncryptionConfig } from "./types/encryption.config";
+import { randomUUID } from "crypto";
+import { EEncryptionAlgorithm } from "./enums/enums";
+import { collectSchemaKeyIds, validateCSFLESchema, validateEncryptedFieldsMap } from "./utils/schema.utils";
+import { CRYPT_SHARED_LIB_ENV, findCryptSharedLib, getCryptSharedLibSearchPaths, inspectCryptSharedLib, validateCryptSharedLib } from "./utils/cryptShared.utils";
+import { ConfigurationError, ValidationError, EncryptionError, MirageEncryptionError } from "./errors/errors";
+import { IEncryptionConfig, IExplicitEncryptOptions, IMongocryptdOptions, IServerEncryptionOptions } from "./types/encryption.config";
+import { ICryptSharedLibInfo } from "./types/utils";
+import { IKmsProviderConfig } from "./types/config";
+import { ISchemaLock, ISchemaPlan, TSchemaLoader } from "./types/encryptionSchemaService";
+import { IDekManagerOptions } from "./types/dekManager";
+import {
+    IDiagnoseOptions,
+    IDiagnosticCheck,
+    IDiagnosticReport,
+    IServerSchemaDrift,
+    IServerSchemaOptions,
+    IServerSchemaResult,
+    TDiagnosticCheckName
+} from "./types/encryption";
+import { buildServerValidator, compareServerSchema } from "./utils/serverSchema.utils";
+import { checkSchemaLock, collectSchemaLockKeyIds, readSchemaLock, writeSchemaLock } from "./utils/schemaLock.utils";
+import {
+    buildAutoEncryptionKmsProviders,
+    buildKmsTlsOptions,
+    getKmsErrorCode,
+    getKmsProviderName,
+    kmsProvidersEqual,
+    resolveKmsProviders,
+    resolveKmsProviderSecrets,
+    resolveKmsProviderSecretsSync,
+    toKmsProviderList
+} from "./utils/kms.utils";
+
+const DIAGNOSE_TIMEOUT_MS = 10000;
+const DIAGNOSE_PROBE_VALUE = "mirage-diagnose";
+const DIAGNOSE_PROBE_KEY_PREFIX = "__mirage_diagnose.";
+
+type TDiagnosticOutcome = Pick<IDiagnosticCheck, "status" | "message" | "details">;
+type TDiagnosticCheckRunner = (name: TDiagnosticCheckName, run: () => Promise<TDiagnosticOutcome>, target?: string) => Promise<void>;
+
+// Node releases before 18.18 and 20.4 lack Symbol.asyncDispose, which the class below and `await using` rely on
+(Symbol as { asyncDispose?: symbol }).asyncDispose ??= Symbol.for("Symbol.asyncDispose");
 
 
 export class ServerEncryptionService {
 
     private readonly mongoUri: string;
-    private readonly kmsProvider: IKMSProvider;
+    private kmsProviders: IKMSProvider[];
     private readonly keyVault: IKeyVault;
-    private readonly cryptSharedFilePath: TCryptSharedFilePath;
+    private readonly cryptSharedLib: ICryptSharedLibInfo | undefined;
+    private readonly mongocryptdOptions: IMongocryptdOptions;
     private readonly mongoClient: MongoClient;
     private readonly mongoClientOptions: MongoClientOptions;
+    private readonly mode: TEncryptionMode;
+    private readonly enforceServerSchema: boolean;
+    private readonly schemaLockFile: string | undefined;
 
     private encryptedMongoClient: MongoClient | undefined;
     private config: MongoClientOptions | undefined;
     private schema: IEncryptionSchema | undefined;
+    private encryptedFieldsMap: IEncryptedFieldsMap | undefined;
+    private clientEncryption: ClientEncryption | undefined;
+    private clientEncryptionKmsProviders: IKmsProviderConfig | undefined;
+    private connected = false;
+    private closing: Promise<void> | undefined;
 
     /**
      * Creates a new ServerEncryptionService
      * 
      * @param mongoUri - MongoDB connection URI
-     * @param kmsProvider - KMS provider configuration
+     * @param kmsProvider - KMS provider configuration, or several providers (e.g. "aws:eu" and "aws:us");
+     * the first one wraps DEKs unless the schema selects another
      * @param keyVault - Key vault configuration
-     * @param cryptSharedFilePath - Path to the MongoDB crypto shared library
+     * @param cryptSharedFilePath - Path to the MongoDB crypto shared library. If omitted, it is taken
+     * from MIRAGE_CRYPT_SHARED_LIB or found in a standard location (see findCryptSharedLib).
      * @param options - Additional MongoDB client options
-     * @throws {ConfigurationError} If any configuration parameter is invalid
+     * @param encryptionOptions - Additional encryption options, such as the encryption mode
+     * @throws {ConfigurationError} If any configuration parameter is invalid, or no crypt_shared library
+     * is found and cryptSharedFallback is not "mongocryptd"
+     * @throws {ValidationError} If the crypt_shared library is invalid, built for another architecture or too old
+     * @throws {KMSError} If a KMS provider is unsupported or provider names are invalid or not unique
      */
     constructor(
         mongoUri: string,
-        kmsProvider: IKMSProvider,
+        kmsProvider: IKMSProvider | IKMSProvider[],
         keyVault: IKeyVault,
-        cryptSharedFilePath: TCryptSharedFilePath,
-        options?: MongoClientOptions
+        cryptSharedFilePath?: TCryptSharedFilePath,
+        options?: MongoClientOptions,
+        encryptionOptions?: IServerEncryptionOptions
     ) {
         if (!mongoUri || mongoUri.trim() === "") {
             throw new ConfigurationError("Invalid MongoDB URI");
         }
 
-        this.validateCryptSharedFilePath(cryptSharedFilePath);
+        const mode = encryptionOptions?.mode ?? "csfle";
+        if (mode !== "csfle" && mode !== "queryable") {
+            throw new ConfigurationError(`Unsupported encryption mode: ${String(mode)}`);
+        }
+
+        const cryptSharedFallback = encryptionOptions?.cryptSharedFallback ?? "none";
+        if (cryptSharedFallback !== "none" && cryptSharedFallback !== "mongocryptd") {
+            throw new ConfigurationError(`Unsupported crypt_shared fallback: ${String(cryptSharedFallback)}`);
+        }
+
+        this.cryptSharedLib = this.resolveCryptSharedLib(cryptSharedFilePath, mode, cryptSharedFallback);
+        this.mongocryptdOptions = encryptionOptions?.mongocryptd ?? {};
 
         this.mongoUri = mongoUri;
-        this.kmsProvider = kmsProvider;
+        this.kmsProviders = toKmsProviderList(kmsProvider);
         this.keyVault = keyVault;
-        this.cryptSharedFilePath = cryptSharedFilePath;
         this.mongoClient = new MongoClient(mongoUri);
         this.mongoClientOptions = options || {};
+        this.mode = mode;
+        this.enforceServerSchema = encryptionOptions?.enforceServerSchema ?? false;
+        this.schemaLockFile = encryptionOptions?.schemaLockFile;
     }
 
 
     /**
-     * Initialize the encrypted MongoDB client
+     * Initialize the encrypted MongoDB client. Secret sources of the KMS providers are resolved
+     * here unless initializeWithFile already did.
      * 
-     * @throws {ConfigurationError} If the encryption configuration is invalid
+     * @throws {ConfigurationError} If the encryption configuration is invalid or a secret can't be resolved
      */
     private initialize(): void {
         try {
+            this.kmsProviders = resolveKmsProviderSecretsSync(this.kmsProviders);
             this.config = {
                 ...this.mongoClientOptions,
                 ...this.buildEncryptionConfig()
@@ -72,34 +141,69 @@ export class ServerEncryptionService {
                 this.config
             );
         } catch (error: any) {
-            throw new ConfigurationError(`Failed to initialize encryption: ${error.message || String(error)}`);
+            throw new ConfigurationError(`Failed to initialize encryption: ${error.message || String(error)}`, { cause: error });
         }
     }
 
     /**
-     * Initialize the service using a schema file
+     * Initialize the service using a schema file. In queryable mode the file is turned into an
+     * encryptedFieldsMap and any missing encrypted collections are created. In CSFLE mode with
+     * enforceServerSchema, the schema is applied as a server-side validator. Secret sources of the
+     * KMS providers are resolved first, so async resolvers are supported here. With schemaLockFile,
+     * the generated schema is loaded from (or written to) the lock file.
      * 
-     * @param schemaFilePath - Path to the schema file
-     * @param schemaLoader - Optional custom schema loader function
-     * @throws {ValidationError} If the schema file path is invalid
+     * @param schemaFilePath - Path to the schema file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+     * @param schemaLoader - Optional custom loader, possibly async. A loader returning the simple schema
+     * format gets its DEKs provisioned; one returning a complete CSFLE schema map is used as is (CSFLE mode only).
+     * @throws {ValidationError} If the schema file path or its contents are invalid
      * @throws {ConfigurationError} If schema loading or initialization fails
      */
-    public async initializeWithFile(schemaFilePath: TSchemaFilePath, schemaLoader?: (file: string) => IEncryptionSchema): Promise<void> {
+    public async initializeWithFile(schemaFilePath: TSchemaFilePath, schemaLoader?: TSchemaLoader | ((file: string) => IEncryptionSchema)): Promise<void> {
         try {
             this.validateSchemaFilePath(schemaFilePath);
+            this.kmsProviders = await resolveKmsProviderSecrets(this.kmsProviders);
 
-            if (schemaLoader === undefined) {
-                this.schema = await this.loadSchemaFromFile(schemaFilePath);
-            } else {
-                this.schema = schemaLoader(schemaFilePath);
+            let loader: TSchemaLoader | undefined;
+            if (schemaLoader !== undefined) {
+                const loaded = await schemaLoader(schemaFilePath);
+                if (!Array.isArray(loaded)) {
+                    if (this.mode === "queryable") {
+                        throw new ConfigurationError("Custom schema loaders must return the simple schema format in queryable mode");
+                    }
+                    this.schema = loaded;
+                    this.initialize();
+                    if (this.enforceServerSchema) {
+                        await this.applyServerSchema();
+                    }
+                    return;
+                }
+                loader = () => loaded;
             }
 
+            if (this.mode === "queryable") {
+                this.encryptedFieldsMap = this.schemaLockFile === undefined
+                    ? await this.loadEncryptedFieldsFromFile(schemaFilePath, loader)
+                    : (await this.loadSchemaLock(schemaFilePath, this.schemaLockFile, loader)).schema as IEncryptedFieldsMap;
+                this.initialize();
+                await this.createEncryptedCollections();
+                return;
+            }
+
+            this.schema = this.schemaLockFile === undefined
+                ? await this.loadSchemaFromFile(schemaFilePath, loader)
+                : (await this.loadSchemaLock(schemaFilePath, this.schemaLockFile, loader)).schema as IEncryptionSchema;
             this.initialize();
+            if (this.enforceServerSchema) {
+                await this.applyServerSchema();
+            }
         } catch (error: any) {
             if (error instanceof ValidationError || error instanceof ConfigurationError) {
                 throw error;
             }
-            throw new ConfigurationError(`Failed to initialize with schema file: ${error.message || String(error)}`);
+            throw new ConfigurationError(`Failed to initialize with schema file: ${error.message || String(error)}`, {
+                cause: error,
+                context: { filePath: schemaFilePath },
+            });
         }
     }
 
@@ -112,6 +216,10 @@ export class ServerEncryptionService {
      * @throws {ConfigurationError} If initialization fails
      */
     public initializeWithSchema(schema: IEncryptionSchema): void {
+        if (this.mode !== "csfle") {
+            throw new ConfigurationError("initializeWithSchema requires csfle mode. Use initializeWithEncryptedFields in queryable mode.");
+        }
+
         if (!schema || Object.keys(schema).length === 0) {
             throw new ValidationError("Encryption schema is required and cannot be empty");
         }
@@ -123,10 +231,365 @@ export class ServerEncryptionService {
             if (error instanceof ValidationError || error instanceof ConfigurationError) {
                 throw error;
             }
-            throw new ConfigurationError(`Failed to initialize with schema: ${error.message || String(error)}`);
+            throw new ConfigurationError(`Failed to initialize with schema: ${error.message || String(error)}`, { cause: error });
+        }
+    }
+
+
+    /**
+     * Initialize the service using a Queryable Encryption encryptedFieldsMap
+     * 
+     * @param encryptedFieldsMap - Encrypted fields per namespace
+     * @throws {ValidationError} If the encryptedFieldsMap is invalid
+     * @throws {ConfigurationError} If the service is not in queryable mode or initialization fails
+     */
+    public initializeWithEncryptedFields(encryptedFieldsMap: IEncryptedFieldsMap): void {
+        if (this.mode !== "queryable") {
+            throw new ConfigurationError("initializeWithEncryptedFields requires queryable mode");
+        }
+
+        if (!encryptedFieldsMap || Object.keys(encryptedFieldsMap).length === 0) {
+            throw new ValidationError("encryptedFieldsMap is required and cannot be empty");
+        }
+
+        try {
+            this.encryptedFieldsMap = encryptedFieldsMap;
+            this.initialize();
+        } catch (error: any) {
+            if (error instanceof ValidationError || error instanceof ConfigurationError) {
+                throw error;
+            }
+            throw new ConfigurationError(`Failed to initialize with encrypted fields: ${error.message || String(error)}`, { cause: error });
+        }
+    }
+
+    /**
+     * Create every collection in the encryptedFieldsMap that does not exist yet, together
+     * with its Queryable Encryption metadata collections
+     * 
+     * @throws {ConfigurationError} If the encryptedFieldsMap is not initialized
+     * @throws {EncryptionError} If a collection cannot be created
+     */
+    public async createEncryptedCollections(): Promise<void> {
+        const encryptedFieldsMap = this.getEncryptedFieldsMap();
+
+        await this.mongoClient.connect();
+
+        let namespace: string | undefined;
+        try {
+            for (const [collectionNamespace, encryptedFields] of Object.entries(encryptedFieldsMap)) {
+                namespace = collectionNamespace;
+                const [database, ...rest] = namespace.split(".");
+                const collectionName = rest.join(".");
+                const db = this.mongoClient.db(database);
+
+                const existing = await db.listCollections({ name: collectionName }, { nameOnly: true }).toArray();
+                if (existing.length > 0) {
+                    continue;
+                }
+
+                await db.createCollection(collectionName, { encryptedFields });
+            }
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to create encrypted collections: ${error.message || String(error)}`, {
+                cause: error,
+                context: { namespace },
+            });
+        } finally {
+            await this.releaseClient();
         }
     }
 
+    /**
+     * Apply the CSFLE schema of every namespace as a server-side $jsonSchema validator, creating
+     * missing collections with it and updating collections whose validator differs (collMod
+     * replaces any existing validator). The server then rejects plaintext in encrypted fields from
+     * every client, and auto-encryption clients without a local schemaMap pick up the remote schema.
+     * 
+     * @param options - Validation level and action (default "strict" and "error")
+     * @returns What was done per namespace, with the drift found before the change
+     * @throws {ConfigurationError} If the service is in queryable mode or the schema is not initialized
+     * @throws {EncryptionError} If a collection cannot be read, created or modified
+     */
+    public async applyServerSchema(options: IServerSchemaOptions = {}): Promise<IServerSchemaResult[]> {
+        const schema = this.getServerEnforcedSchema();
+
+        await this.mongoClient.connect();
+
+        let namespace: string | undefined;
+        try {
+            const results: IServerSchemaResult[] = [];
+            for (const [collectionNamespace, collectionSchema] of Object.entries(schema)) {
+                namespace = collectionNamespace;
+                const [database, ...rest] = namespace.split(".");
+                const collectionName = rest.join(".");
+                const db = this.mongoClient.db(database);
+
+                const [collectionInfo] = await db.listCollections({ name: collectionName }).toArray();
+                const drift = compareServerSchema(namespace, collectionSchema, collectionInfo, options);
+                const validation = {
+                    validator: buildServerValidator(collectionSchema),
+                    validationLevel: options.validationLevel ?? "strict",
+                    validationAction: options.validationAction ?? "error",
+                };
+
+                if (drift.status === "inSync") {
+                    results.push({ namespace, action: "unchanged", drift });
+                } else if (drift.status === "missingCollection") {
+                    await db.createCollection(collectionName, validation);
+                    results.push({ namespace, action: "created", drift });
+                } else {
+                    await db.command({ collMod: collectionName, ...validation });
+                    results.push({ namespace, action: "updated", drift });
+                }
+            }
+            return results;
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to apply server-side schema: ${error.message || String(error)}`, {
+                cause: error,
+                context: { namespace },
+            });
+        } finally {
+            await this.releaseClient();
+        }
+    }
+
+    /**
+     * Compare the server-side validator of every namespace with the local CSFLE schema without
+     * changing anything
+     * 
+     * @param options - Expected validation level and action (default "strict" and "error")
+     * @returns Drift per namespace; status "inSync" when the validator matches
+     * @throws {ConfigurationError} If the service is in queryable mode or the schema is not initialized
+     * @throws {EncryptionError} If a collection cannot be read
+     */
+    public async checkServerSchema(options: IServerSchemaOptions = {}): Promise<IServerSchemaDrift[]> {
+        const schema = this.getServerEnforcedSchema();
+
+        await this.mongoClient.connect();
+
+        let namespace: string | undefined;
+        try {
+            const drifts: IServerSchemaDrift[] = [];
+            for (const [collectionNamespace, collectionSchema] of Object.entries(schema)) {
+                namespace = collectionNamespace;
+                const [database, ...rest] = namespace.split(".");
+                const [collectionInfo] = await this.mongoClient.db(database)
+                    .listCollections({ name: rest.join(".") })
+                    .toArray();
+                drifts.push(compareServerSchema(namespace, collectionSchema, collectionInfo, options));
+            }
+            return drifts;
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to check server-side schema: ${error.message || String(error)}`, {
+                cause: error,
+                context: { namespace },
+            });
+        } finally {
+            await this.releaseClient();
+        }
+    }
+
+    /**
+     * Check that the service can encrypt and decrypt, in order: the crypt_shared library is loaded,
+     * the key vault is reachable and has its unique keyAltNames index, each KMS provider can unwrap
+     * a DEK, every DEK the schema refers to exists, and a value round-trips per namespace. Checks
+     * don't throw; each one is reported, so the result can back a readiness probe.
+     * 
+     * @param options - Per-check timeout and whether a throwaway DEK may be created for KMS checks
+     * @returns Report with every check; ok is false if any check failed
+     */
+    public async diagnose(options: IDiagnoseOptions = {}): Promise<IDiagnosticReport> {
+        const timeoutMS = options.timeoutMS ?? DIAGNOSE_TIMEOUT_MS;
+        const checkedAt = new Date();
+        const checks: IDiagnosticCheck[] = [];
+
+        const check: TDiagnosticCheckRunner = async (name, run, target) => {
+            const startedAt = Date.now();
+            let outcome: TDiagnosticOutcome & Pick<IDiagnosticCheck, "code">;
+            try {
+                outcome = await withTimeout(run(), timeoutMS, `${name} check`);
+            } catch (error: any) {
+                outcome = {
+                    status: "failed",
+                    message: error.message || String(error),
+                    ...(error instanceof MirageEncryptionError ? { code: error.code } : {}),
+                };
+            }
+            checks.push({ name, ...(target !== undefined ? { target } : {}), ...outcome, durationMs: Date.now() - startedAt });
+        };
+
+        await check("cryptShared", async () => {
+            if (!this.cryptSharedLib) {
+                return { status: "warning", message: "no crypt_shared library was found; automatic encryption uses mongocryptd" };
+            }
+            if (!this.encryptedMongoClient) {
+                // Before initialization, load the library again as the constructor did
+                const { version, versionStr, path, arch } = inspectCryptSharedLib(this.cryptSharedLib.path, this.mode);
+                return {
+                    status: "ok",
+                    message: `${versionStr} can be loaded; the service loads it on initialization`,
+                    details: { version, versionStr, path, arch },
+                };
+            }
+            validateCryptSharedLib(this.cryptSharedLib.path);
+            const { version, versionStr, path, arch } = this.cryptSharedLib;
+            return {
+                status: "ok",
+                message: `${versionStr} loaded`,
+                details: { version, versionStr, path, arch },
+            };
+        });
+
+        // A client of its own, so operations of a check that timed out stop with it and are closed below
+        const mongoClient = this.createDiagnoseClient(timeoutMS);
+        try {
+            await this.runDiagnoseChecks(mongoClient, check, options);
+        } finally {
+            await mongoClient.close().catch(() => undefined);
+        }
+
+        return {
+            ok: checks.every((result) => result.status !== "failed"),
+            mode: this.mode,
+            checkedAt,
+            durationMs: Date.now() - checkedAt.getTime(),
+            checks,
+        };
+    }
+
+    /**
+     * Run the diagnose checks that read the key vault or use a KMS provider
+     * 
+     * @param mongoClient - Client for the key vault, closed by the caller
+     * @param check - Runs and records one check
+     * @param options - Whether a throwaway DEK may be created for KMS checks
+     */
+    private async runDiagnoseChecks(
+        mongoClient: MongoClient,
+        check: TDiagnosticCheckRunner,
+        options: IDiagnoseOptions
+    ): Promise<void> {
+        const dekManager = this.createDekManager(mongoClient, { keepConnected: true });
+        let sampleKeyIds: Record<string, Binary> | undefined;
+        await check("keyVault", async () => {
+            const status = await dekManager.inspectKeyVault();
+            sampleKeyIds = status.sampleKeyIds;
+            const details = { dekCount: status.dekCount, keyAltNamesIndex: status.keyAltNamesIndex };
+            if (status.keyAltNamesIndex !== "unique") {
+                return {
+                    status: "warning",
+                    message: `key vault holds ${status.dekCount} DEK(s) but its keyAltNames index is ${status.keyAltNamesIndex === "missing" ? "missing" : "not unique"}`,
+                    details,
+                };
+            }
+            return { status: "ok", message: `key vault holds ${status.dekCount} DEK(s)`, details };
+        });
+
+        // A new instance, so credentials are fetched again rather than taken from the explicit encryption cache
+        let clientEncryption: Promise<ClientEncryption> | undefined;
+        const getProbeEncryption = (): Promise<ClientEncryption> => clientEncryption ??=
+            resolveKmsProviders(this.kmsProviders).then((kmsProviders) => this.createClientEncryption(kmsProviders, mongoClient));
+
+        for (const name of this.kmsProviders.map(getKmsProviderName)) {
+            await check("kms", async () => {
+                if (!sampleKeyIds) {
+                    return { status: "skipped", message: "the key vault could not be read" };
+                }
+                const keyId = sampleKeyIds[name];
+                if (keyId) {
+                    await this.probeDEK(await getProbeEncryption(), keyId);
+                    return { status: "ok", message: `unwrapped DEK ${keyId.toUUID().toHexString()}` };
+                }
+                if (!options.createProbeKey) {
+                    return { status: "skipped", message: "no DEK is wrapped by this provider; set createProbeKey to create a throwaway one" };
+                }
+
+                const probeKeyId = await dekManager.getDEK(`${DIAGNOSE_PROBE_KEY_PREFIX}${randomUUID()}`, name);
+                try {
+                    await this.probeDEK(await getProbeEncryption(), probeKeyId);
+                } finally {
+                    await dekManager.deleteKey(probeKeyId);
+                }
+                return { status: "ok", message: "created, unwrapped and deleted a throwaway DEK" };
+            }, name);
+        }
+
+        const schema = this.mode === "queryable" ? this.encryptedFieldsMap : this.schema;
+        await check("schemaKeys", async () => {
+            if (!schema) {
+                return { status: "skipped", message: "the service is not initialized with a schema" };
+            }
+            const keyIds = collectSchemaKeyIds(schema);
+            const missing = await dekManager.findMissingKeys(keyIds);
+            if (missing.length > 0) {
+                throw new EncryptionError(
+                    `${missing.length} of ${keyIds.length} DEK(s) in the schema are missing from the key vault: ` +
+                    missing.map((keyId) => keyId.toUUID().toHexString()).join(", "),
+                    { code: "DEK_NOT_FOUND" }
+                );
+            }
+            return { status: "ok", message: `all ${keyIds.length} DEK(s) in the schema exist`, details: { dekCount: keyIds.length } };
+        });
+
+        for (const namespace of Object.keys(schema ?? {})) {
+            await check("probe", async () => {
+                const [keyId] = collectSchemaKeyIds({ [namespace]: schema![namespace] } as IEncryptionSchema | IEncryptedFieldsMap);
+                if (!keyId) {
+                    return { status: "skipped", message: "DEKs of this namespace are selected per document by a keyId pointer" };
+                }
+                await this.probeDEK(await getProbeEncryption(), keyId);
+                return { status: "ok", message: `encrypted and decrypted a value with DEK ${keyId.toUUID().toHexString()}` };
+            }, namespace);
+        }
+    }
+
+    /**
+     * Connect the internal client used for the key vault and explicit encryption and, once the
+     * service is initialized, the encrypted client. Until close() is called, operations reuse these
+     * connections instead of connecting and closing the internal client every time.
+     * 
+     * @throws {EncryptionError} If a client cannot connect
+     */
+    public async connect(): Promise<void> {
+        try {
+            await this.mongoClient.connect();
+            await this.encryptedMongoClient?.connect();
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to connect to MongoDB: ${error.message || String(error)}`, { cause: error });
+        }
+        this.connected = true;
+    }
+
+    /**
+     * Close the internal client, the encrypted client and the cached ClientEncryption. Safe to call
+     * more than once: concurrent calls share one shutdown, and closing closed clients does nothing.
+     * connect() or any operation may reconnect afterwards.
+     * 
+     * @throws {EncryptionError} If a client fails to close
+     */
+    public async close(): Promise<void> {
+        this.closing ??= this.closeClients().finally(() => {
+            this.closing = undefined;
+        });
+        return this.closing;
+    }
+
+    /**
+     * Close the service on `await using`
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.close();
+    }
+
+    /**
+     * Get the encryption mode
+     * 
+     * @returns "csfle" or "queryable"
+     */
+    public getMode(): TEncryptionMode {
+        return this.mode;
+    }
 
     /**
      * Get the initialized MongoDB client
@@ -136,7 +599,9 @@ export class ServerEncryptionService {
      */
     public getMongoClient(): MongoClient {
         if (!this.encryptedMongoClient) {
-            throw new ConfigurationError("MongoDB client is not initialized. Call initializeWithSchema or initializeWithFile first.");
+            throw new ConfigurationError("MongoDB client is not initialized. Call initializeWithSchema or initializeWithFile first.", {
+                code: "NOT_INITIALIZED",
+            });
         }
         return this.encryptedMongoClient;
     }
@@ -149,26 +614,158 @@ export class ServerEncryptionService {
      */
     public getSchema(): IEncryptionSchema {
         if (!this.schema) {
-            throw new ConfigurationError("Encryption schema is not initialized. Call initializeWithSchema or initializeWithFile first.");
+            throw new ConfigurationError("Encryption schema is not initialized. Call initializeWithSchema or initializeWithFile first.", {
+                code: "NOT_INITIALIZED",
+            });
         }
         return this.schema;
     }
 
+    /**
+     * Get the Queryable Encryption encryptedFieldsMap
+     * 
+     * @returns Encrypted fields per namespace
+     * @throws {ConfigurationError} If the encryptedFieldsMap is not initialized
+     */
+    public getEncryptedFieldsMap(): IEncryptedFieldsMap {
+        if (!this.encryptedFieldsMap) {
+            throw new ConfigurationError("encryptedFieldsMap is not initialized. Call initializeWithEncryptedFields or initializeWithFile in queryable mode first.", {
+                code: "NOT_INITIALIZED",
+            });
+        }
+        return this.encryptedFieldsMap;
+    }
 
     /**
-     * Validate the crypt shared library path
+     * Preview what initializeWithFile would do to the key vault in this service's encryption mode,
+     * without creating DEKs or collections
      * 
-     * @param filePath - Path to crypt shared library
-     * @throws {ValidationError} If the file path is invalid or the file doesn't exist
+     * @param schemaFilePath - Path to the schema file
+     * @param schemaLoader - Optional loader returning the simple schema format
+     * @returns Fields with their DEK status, and key vault entries that match no field
+     * @throws {ValidationError} If the schema file path or its contents are invalid
+     * @throws {EncryptionError} If the key vault cannot be read
      */
-    private validateCryptSharedFilePath(filePath: TCryptSharedFilePath): void {
-        if (!filePath || filePath.trim() === "") {
-            throw new ValidationError("Crypt shared file path is required");
+    public async plan(schemaFilePath: TSchemaFilePath, schemaLoader?: TSchemaLoader): Promise<ISchemaPlan> {
+        this.validateSchemaFilePath(schemaFilePath);
+        return this.createEncryptionSchemaService().plan(schemaFilePath, { mode: this.mode, loader: schemaLoader });
+    }
+
+
+    /**
+     * Explicitly encrypt a single value. Does not require the service to be initialized
+     * with a schema or the crypt_shared library to be loaded.
+     * 
+     * @param value - Value to encrypt
+     * @param options - DEK (keyId or keyAltName) and algorithm to encrypt with
+     * @returns Encrypted value as a BSON Binary (subtype 6)
+     * @throws {ValidationError} If the options are invalid
+     * @throws {EncryptionError} If encryption fails
+     */
+    public async encryptValue(value: unknown, options: IExplicitEncryptOptions): Promise<Binary> {
+        if (!options || !options.algorithm) {
+            throw new ValidationError("Encryption algorithm is required");
         }
 
-        if (!fileExists(filePath)) {
-            throw new ValidationError(`Crypt shared file does not exist at path: ${filePath}`);
+        if ((options.keyId === undefined) === (options.keyAltName === undefined)) {
+            throw new ValidationError("Exactly one of keyId or keyAltName is required");
+        }
+
+        try {
+            return await (await this.getClientEncryption()).encrypt(value, options);
+        } catch (error: any) {
+            if (error instanceof ConfigurationError) {
+                throw error;
+            }
+            throw new EncryptionError(`Failed to encrypt value: ${error.message || String(error)}`, {
+                code: getKmsErrorCode(error),
+                cause: error,
+                context: options.keyAltName !== undefined ? { keyAltName: options.keyAltName } : undefined,
+            });
+        }
+    }
+
+    /**
+     * Explicitly decrypt a single encrypted value
+     * 
+     * @param value - Encrypted BSON Binary (subtype 6)
+     * @returns Decrypted value
+     * @throws {ValidationError} If the value is not an encrypted Binary
+     * @throws {EncryptionError} If decryption fails
+     */
+    public async decryptValue<T = any>(value: Binary): Promise<T> {
+        if (!this.isEncryptedValue(value)) {
+            throw new ValidationError("Value to decrypt must be an encrypted BSON Binary (subtype 6)");
+        }
+
+        try {
+            return await (await this.getClientEncryption()).decrypt<T>(value);
+        } catch (error: any) {
+            if (error instanceof ConfigurationError) {
+                throw error;
+            }
+            throw new EncryptionError(`Failed to decrypt value: ${error.message || String(error)}`, {
+                code: getKmsErrorCode(error) ?? "DECRYPTION_FAILED",
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Decrypt every encrypted value in a document, including values in nested objects and arrays
+     * 
+     * @param document - Document read without automatic decryption
+     * @returns A copy of the document with all encrypted values decrypted
+     * @throws {EncryptionError} If decryption fails
+     */
+    public async decryptDocument<T extends Document = Document>(document: Document): Promise<T> {
+        return await this.decryptNested(document) as T;
+    }
+
+    /**
+     * Get the CSFLE schema for server-side enforcement
+     * 
+     * @returns Encryption schema
+     * @throws {ConfigurationError} If the service is in queryable mode or the schema is not initialized
+     */
+    private getServerEnforcedSchema(): IEncryptionSchema {
+        if (this.mode !== "csfle") {
+            throw new ConfigurationError(
+                "Server-side $jsonSchema enforcement requires csfle mode; Queryable Encryption collections are enforced through their encryptedFields"
+            );
+        }
+        return this.getSchema();
+    }
+
+    /**
+     * Find and validate the crypt shared library: the given path, else MIRAGE_CRYPT_SHARED_LIB or a
+     * standard location
+     * 
+     * @param filePath - Path to crypt shared library, if given
+     * @param mode - Encryption mode, which sets the minimum library version
+     * @param fallback - Whether mongocryptd may be used when no library is found
+     * @returns The library, or undefined if none was found and mongocryptd is used instead
+     * @throws {ValidationError} If the file path is empty or the library is invalid
+     * @throws {ConfigurationError} If no library is found and the fallback is "none"
+     */
+    private resolveCryptSharedLib(filePath: TCryptSharedFilePath | undefined, mode: TEncryptionMode, fallback: "none" | "mongocryptd"): ICryptSharedLibInfo | undefined {
+        if (filePath !== undefined && filePath.trim() === "") {
+            throw new ValidationError("Crypt shared file path must not be empty");
+        }
+
+        const libPath = filePath ?? findCryptSharedLib();
+        if (libPath !== undefined) {
+            return inspectCryptSharedLib(libPath, mode);
+        }
+
+        if (fallback === "mongocryptd") {
+            return undefined;
         }
+        throw new ConfigurationError(
+            `No crypt_shared library found. Pass its path, set ${CRYPT_SHARED_LIB_ENV}, install it at one of ` +
+            `${getCryptSharedLibSearchPaths().join(", ")}, or set cryptSharedFallback to "mongocryptd"`,
+            { code: "FILE_NOT_FOUND" }
+        );
     }
 
     /**
@@ -183,7 +780,7 @@ export class ServerEncryptionService {
         }
 
         if (!fileExists(filePath)) {
-            throw new ValidationError(`Schema file does not exist at path: ${filePath}`);
+            throw new ValidationError(`Schema file does not exist at path: ${filePath}`, { code: "FILE_NOT_FOUND", context: { filePath } });
         }
     }
 
@@ -200,92 +797,304 @@ export class ServerEncryptionService {
             throw new ConfigurationError("Invalid key vault configuration. Database and collection are required.");
         }
 
-        if (!this.kmsProvider) {
+        if (this.kmsProviders.length === 0) {
             throw new ConfigurationError("KMS provider is required");
         }
 
-        if (!this.schema) {
-            throw new ConfigurationError("Encryption schema is required");
-        }
-
-        // Validate the schema structure
-        try {
-            validateCSFLESchema(this.schema);
-        } catch (error: any) {
-            throw new ValidationError(`Schema validation failed: ${error.message}`);
-        }
+        if (this.mode === "queryable") {
+            if (!this.encryptedFieldsMap) {
+                throw new ConfigurationError("encryptedFieldsMap is required");
+            }
 
-        // Create the proper KMS providers structure based on the provider type
-        const kmsProviders: Record<string, any> = {};
-        try {
-            switch (this.kmsProvider.type) {
-                case "local":
-                    kmsProviders.local = { key: this.kmsProvider.local.key };
-                    break;
-                case "aws":
-                    kmsProviders.aws = {
-                        accessKeyId: this.kmsProvider.aws.accessKeyId,
-                        secretAccessKey: this.kmsProvider.aws.secretAccessKey,
-                        sessionToken: this.kmsProvider.aws.sessionToken
-                    };
-                    break;
-                case "azure":
-                    kmsProviders.azure = {
-                        clientId: this.kmsProvider.azure.clientId,
-                        clientSecret: this.kmsProvider.azure.clientSecret,
-                        tenantId: this.kmsProvider.azure.tenantId
-                    };
-                    break;
-                case "gcp": {
-                    kmsProviders.gcp = {
-                        email: this.kmsProvider.gcp.email,
-                        privateKey: this.kmsProvider.gcp.privateKey
-                    };
-                    break;
-                }
-                default:
-                    throw new ConfigurationError(`Unsupported KMS provider: ${String(this.kmsProvider.type)}`);
+            try {
+                validateEncryptedFieldsMap(this.encryptedFieldsMap);
+            } catch (error: any) {
+                throw new ValidationError(`encryptedFieldsMap validation failed: ${error.message}`, { cause: error });
             }
-        } catch (error: any) {
-            if (error instanceof ConfigurationError) {
-                throw error;
+        } else {
+            if (!this.schema) {
+                throw new ConfigurationError("Encryption schema is required");
+            }
+
+            // Validate the schema structure
+            try {
+                validateCSFLESchema(this.schema);
+            } catch (error: any) {
+                throw new ValidationError(`Schema validation failed: ${error.message}`, { cause: error });
             }
-            throw new ConfigurationError(`Failed to configure KMS provider: ${error.message}`);
         }
 
+        const { kmsProviders, credentialProviders } = buildAutoEncryptionKmsProviders(this.kmsProviders);
+        const tlsOptions = buildKmsTlsOptions(this.kmsProviders);
+
         return {
             autoEncryption: {
                 keyVaultNamespace: `${this.keyVault.database}.${this.keyVault.collection}`,
                 kmsProviders: kmsProviders,
-                schemaMap: this.schema,
-                extraOptions: {
-                    cryptSharedLibPath: path.resolve(this.cryptSharedFilePath),
-                    cryptSharedLibRequired: true,
-                }
+                ...(credentialProviders ? { credentialProviders } : {}),
+                ...(tlsOptions ? { tlsOptions } : {}),
+                ...(this.mode === "queryable"
+                    ? { encryptedFieldsMap: this.encryptedFieldsMap }
+                    : { schemaMap: this.schema }),
+                extraOptions: this.cryptSharedLib
+                    ? { cryptSharedLibPath: this.cryptSharedLib.path, cryptSharedLibRequired: true }
+                    : {
+                        cryptSharedLibRequired: false,
+                        mongocryptdURI: this.mongocryptdOptions.uri,
+                        mongocryptdBypassSpawn: this.mongocryptdOptions.bypassSpawn,
+                        mongocryptdSpawnPath: this.mongocryptdOptions.spawnPath,
+                        mongocryptdSpawnArgs: this.mongocryptdOptions.spawnArgs,
+                    }
             }
         };
     }
 
+    /**
+     * Get the ClientEncryption instance used for explicit encryption, creating it on first use
+     * and again whenever a credential provider returned new credentials
+     * 
+     * @returns ClientEncryption bound to the key vault and KMS providers
+     * @throws {ConfigurationError} If the key vault configuration is invalid
+     * @throws {KMSError} If a credential provider fails
+     */
+    private async getClientEncryption(): Promise<ClientEncryption> {
+        if (!this.keyVault || !this.keyVault.database || !this.keyVault.collection) {
+            throw new ConfigurationError("Invalid key vault configuration. Database and collection are required.");
+        }
+
+        const kmsProviders = await resolveKmsProviders(this.kmsProviders);
+        if (!this.clientEncryption || !this.clientEncryptionKmsProviders || !kmsProvidersEqual(kmsProviders, this.clientEncryptionKmsProviders)) {
+            this.clientEncryption = this.createClientEncryption(kmsProviders);
+            this.clientEncryptionKmsProviders = kmsProviders;
+        }
+        return this.clientEncryption;
+    }
+
+    /**
+     * Close the internal client after an operation, unless connect() was called
+     */
+    private async releaseClient(): Promise<void> {
+        if (!this.connected) {
+            await this.mongoClient.close();
+        }
+    }
+
+    /**
+     * Close both clients and drop the cached ClientEncryption, which uses the internal client
+     * 
+     * @throws {EncryptionError} If a client fails to close
+     */
+    private async closeClients(): Promise<void> {
+        this.connected = false;
+        this.clientEncryption = undefined;
+        this.clientEncryptionKmsProviders = undefined;
+
+        const results = await Promise.allSettled([this.mongoClient.close(), this.encryptedMongoClient?.close()]);
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+        if (failure) {
+            throw new EncryptionError(`Failed to close MongoDB clients: ${failure.reason?.message || String(failure.reason)}`, {
+                cause: failure.reason,
+            });
+        }
+    }
+
+    /**
+     * Create a ClientEncryption instance for the key vault
+     * 
+     * @param kmsProviders - Resolved KMS provider credentials
+     * @param mongoClient - Client for the key vault (default the internal client)
+     * @returns ClientEncryption bound to the key vault and KMS providers
+     */
+    private createClientEncryption(kmsProviders: IKmsProviderConfig, mongoClient: MongoClient = this.mongoClient): ClientEncryption {
+        return new ClientEncryption(mongoClient, {
+            keyVaultNamespace: `${this.keyVault.database}.${this.keyVault.collection}`,
+            kmsProviders,
+            tlsOptions: buildKmsTlsOptions(this.kmsProviders),
+        });
+    }
+
+    /**
+     * Encrypt and decrypt a constant with a DEK, which makes the KMS provider that wraps it unwrap it
+     * 
+     * @param clientEncryption - ClientEncryption to use
+     * @param keyId - DEK id
+     * @throws {EncryptionError} If encryption or decryption fails, or the decrypted value differs from the original
+     */
+    private async probeDEK(clientEncryption: ClientEncryption, keyId: Binary): Promise<void> {
+        const context = { keyId: keyId.toUUID().toHexString() };
+        let decrypted: unknown;
+        try {
+            const encrypted = await clientEncryption.encrypt(DIAGNOSE_PROBE_VALUE, { keyId, algorithm: EEncryptionAlgorithm.RANDOM });
+            decrypted = await clientEncryption.decrypt(encrypted);
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to encrypt and decrypt with DEK ${context.keyId}: ${error.message || String(error)}`, {
+                code: getKmsErrorCode(error),
+                cause: error,
+                context,
+            });
+        }
+        if (decrypted !== DIAGNOSE_PROBE_VALUE) {
+            throw new EncryptionError(`DEK ${context.keyId} decrypted the probe value to something else`, { context });
+        }
+    }
+
+    /**
+     * Recursively decrypt encrypted values in a document or array
+     * 
+     * @param value - Value to walk
+     * @returns The value with encrypted Binaries replaced by their plaintext
+     */
+    private async decryptNested(value: unknown): Promise<unknown> {
+        if (this.isEncryptedValue(value)) {
+            return this.decryptValue(value);
+        }
+
+        if (Array.isArray(value)) {
+            return Promise.all(value.map((item) => this.decryptNested(item)));
+        }
+
+        if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+            const decrypted: Document = {};
+            for (const [key, nested] of Object.entries(value)) {
+                decrypted[key] = await this.decryptNested(nested);
+            }
+            return decrypted;
+        }
+
+        return value;
+    }
+
+    /**
+     * Check whether a value is an encrypted BSON Binary
+     * 
+     * @param value - Value to check
+     * @returns true if the value is a Binary with the encrypted subtype
+     */
+    private isEncryptedValue(value: unknown): value is Binary {
+        return value instanceof Binary && value.sub_type === Binary.SUBTYPE_ENCRYPTED;
+    }
+
     /**
      * Load a schema from a file and generate the CSFLE schema
      * 
      * @param schemaFilePath - Path to the schema file
+     * @param loader - Optional loader that reads the file into the simple schema format
      * @returns Generated encryption schema
      * @throws {EncryptionError} If schema generation fails
      */
-    private async loadSchemaFromFile(schemaFilePath: string): Promise<IEncryptionSchema> {
+    private async loadSchemaFromFile(schemaFilePath: string, loader?: TSchemaLoader): Promise<IEncryptionSchema> {
         try {
-            const dekManager = new DekManager(
-                this.mongoClient,
-                `${this.keyVault.database}.${this.keyVault.collection}`,
-                this.keyVault,
-                this.kmsProvider
-            );
-            const encryptionSchemaService = new EncryptionSchemaService(dekManager);
-            return await encryptionSchemaService.generateCSFLESchema(schemaFilePath);
+            return await this.createEncryptionSchemaService().generateCSFLESchema(schemaFilePath, loader);
         } catch (error: any) {
-            throw new EncryptionError(`Failed to load schema from file ${schemaFilePath}: ${error.message}`);
+            throw new EncryptionError(`Failed to load schema from file ${schemaFilePath}: ${error.message}`, { cause: error });
         }
     }
 
+    /**
+     * Load a schema from a file and generate the Queryable Encryption encryptedFieldsMap
+     * 
+     * @param schemaFilePath - Path to the schema file
+     * @param loader - Optional loader that reads the file into the simple schema format
+     * @returns Generated encryptedFieldsMap
+     * @throws {EncryptionError} If encryptedFieldsMap generation fails
+     */
+    private async loadEncryptedFieldsFromFile(schemaFilePath: string, loader?: TSchemaLoader): Promise<IEncryptedFieldsMap> {
+        try {
+            return await this.createEncryptionSchemaService().generateEncryptedFieldsMap(schemaFilePath, loader);
+        } catch (error: any) {
+            throw new EncryptionError(`Failed to load encrypted fields from file ${schemaFilePath}: ${error.message}`, { cause: error });
+        }
+    }
+
+    /**
+     * Load the generated schema from a lock file, after checking it matches the schema file and
+     * that its DEKs still exist. Without a lock file, the schema is generated and the lock file written.
+     * 
+     * @param schemaFilePath - Path to the schema file
+     * @param lockFilePath - Path to the lock file
+     * @param loader - Optional loader that reads the file into the simple schema format
+     * @returns The schema lock
+     * @throws {ConfigurationError} If the lock file is stale, for another mode, or references missing DEKs
+     * @throws {ValidationError} If the lock file is invalid or cannot be written
+     */
+    private async loadSchemaLock(schemaFilePath: string, lockFilePath: string, loader?: TSchemaLoader): Promise<ISchemaLock> {
+        if (!fileExists(lockFilePath)) {
+            const generated = await this.createEncryptionSchemaService().generateSchemaLock(schemaFilePath, { mode: this.mode, loader });
+            writeSchemaLock(lockFilePath, generated);
+            return generated;
+        }
+
+        const lock = readSchemaLock(lockFilePath);
+        await checkSchemaLock(lock, lockFilePath, schemaFilePath, this.mode, loader);
+
+        const missing = await this.createDekManager().findMissingKeys(collectSchemaLockKeyIds(lock));
+        if (missing.length > 0) {
+            throw new ConfigurationError(
+                `Schema lock file ${lockFilePath} references ${missing.length} DEK(s) missing from the key vault: ` +
+                `${missing.map((keyId) => keyId.toUUID().toHexString()).join(", ")}. Regenerate the lock file.`,
+                { code: "DEK_NOT_FOUND", context: { filePath: lockFilePath } }
+            );
+        }
+        return lock;
+    }
+
+    /**
+     * Create a DekManager for this service's key vault
+     * 
+     * @param mongoClient - Client for the key vault (default the internal client)
+     * @param options - DekManager options (default: keep the client connected if connect() was called)
+     * @returns DEK manager
+     */
+    private createDekManager(mongoClient: MongoClient = this.mongoClient, options: IDekManagerOptions = { keepConnected: this.connected }): DekManager {
+        return new DekManager(
+            mongoClient,
+            `${this.keyVault.database}.${this.keyVault.collection}`,
+            this.keyVault,
+            this.kmsProviders,
+            options
+        );
+    }
+
+    /**
+     * Create the client diagnose() runs its checks with. Server selection and every operation,
+     * including the key vault reads of ClientEncryption, are limited to the check timeout.
+     * 
+     * @param timeoutMS - Time limit per check in milliseconds
+     * @returns A new, unconnected client
+     */
+    private createDiagnoseClient(timeoutMS: number): MongoClient {
+        return new MongoClient(this.mongoUri, { serverSelectionTimeoutMS: timeoutMS, timeoutMS });
+    }
+
+    /**
+     * Create a schema service backed by a DekManager for this service's key vault
+     * 
+     * @returns Encryption schema service
+     */
+    private createEncryptionSchemaService(): EncryptionSchemaService {
+        return new EncryptionSchemaService(this.createDekManager());
+    }
+
+}
+
+/**
+ * Rejects if a promise doesn't settle in time. The operation itself is not cancelled.
+ * 
+ * @param promise - Operation to wait for
+ * @param timeoutMS - Time limit in milliseconds
+ * @param label - What is being waited for (for the error message)
+ * @returns The operation's result
+ * @throws {EncryptionError} If the time limit is reached first
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMS: number, label: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new EncryptionError(`${label} timed out after ${timeoutMS}ms`)), timeoutMS);
+        timer.unref();
+    });
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
 }
\ No newline at end of file
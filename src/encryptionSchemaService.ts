@@ -1,11 +1,44 @@
-import * as fs from "fs";
+import { Binary, Decimal128, Double, Int32, Long } from "mongodb";
 import { DekManager } from "./dekManager";
-import { IEncryptionSchema, TBsonType, TProperties, TSchemaFilePath } from "./types/schema";
-import { EEncryptionAlgorithm } from "./enums/enums";
+import {
+  IEncryptedFieldsMap,
+  IEncryptionSchema,
+  IQueryableEncryptedField,
+  IQueryableEncryptionQuery,
+  TBsonType,
+  TProperties,
+  TEncryptionMode,
+  TQueryType,
+  TSchemaFilePath
+} from "./types/schema";
+import {
+  IFieldDefinition,
+  IOrphanedKey,
+  IPlannedField,
+  ISchemaPlan,
+  ISchemaLock,
+  ISchemaPlanOptions,
+  ISchemaSource,
+  TSchemaLoader
+} from "./types/encryptionSchemaService";
 import { ValidationError, EncryptionError } from "./errors/errors";
+import { validateEncryptedFieldsMap } from "./utils/schema.utils";
+import { formatSchemaError, loadSchemaSource } from "./utils/schemaLoader.utils";
+import { hashSchemaFile } from "./utils/schemaLock.utils";
+import {
+  isFieldDefinition,
+  resolveBsonType,
+  resolveFieldAlgorithm,
+  resolveQueryType,
+  toFieldDefinition,
+  validateFieldDefinition
+} from "./utils/fieldDefinition.utils";
 
-type FieldMap = { [key: string]: string };
-type CollectionSchema = { [collectionName: string]: FieldMap };
+type FieldMap = { [key: string]: string | IFieldDefinition | FieldMap };
+type CollectionDefinition = { index: number; collectionName: string; fields: FieldMap; keyAltNameField?: string; kmsProvider?: string };
+
+const KEY_ALT_NAME_FIELD_OPTION = "keyAltNameField";
+const KMS_PROVIDER_OPTION = "kmsProvider";
 
 export class EncryptionSchemaService {
   private readonly dekManager: DekManager;
@@ -17,68 +50,410 @@ export class EncryptionSchemaService {
   /**
    * Generate a CSFLE schema map by reading a schema file and ensuring DEKs exist for each field.
    * 
-   * @param schemaFilePath - Path to the schema file
+   * @param schemaFilePath - Path to the schema file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+   * @param loader - Optional loader that reads the file into the simple schema format
    * @returns Generated encryption schema
    * @throws {ValidationError} If the schema file is invalid
    * @throws {EncryptionError} If DEK creation or schema generation fails
    */
   public async generateCSFLESchema(
     schemaFilePath: TSchemaFilePath,
+    loader?: TSchemaLoader,
   ): Promise<IEncryptionSchema> {
     try {
-      if (!fs.existsSync(schemaFilePath)) {
-        throw new ValidationError(`Schema file not found: ${schemaFilePath}`);
+      const source = await loadSchemaSource(schemaFilePath, loader);
+      const collections = this.readSchemaFile(source);
+      this.validateFieldDefinitions(source, collections, "csfle");
+      const deks = await this.provisionDEKs(collections);
+      const schemaMap: IEncryptionSchema = {};
+
+      for (const { collectionName, fields, keyAltNameField } of collections) {
+        schemaMap[collectionName] = {
+          bsonType: "object",
+          properties: this.processFields(fields, collectionName, deks, "", keyAltNameField),
+        };
       }
 
-      const schemaFile = fs.readFileSync(schemaFilePath, "utf-8");
+      return schemaMap;
+    } catch (error: any) {
+      if (error instanceof ValidationError || error instanceof EncryptionError) {
+        throw error;
+      }
+      throw new EncryptionError(`Failed to generate CSFLE schema: ${error.message}`, { cause: error });
+    }
+  }
+
+  /**
+   * Generate a Queryable Encryption encryptedFieldsMap by reading a schema file and ensuring
+   * a DEK exists for each field. Nested objects are flattened into dotted field paths.
+   * 
+   * @param schemaFilePath - Path to the schema file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+   * @param loader - Optional loader that reads the file into the simple schema format
+   * @returns Generated encryptedFieldsMap
+   * @throws {ValidationError} If the schema file or a field's query options are invalid
+   * @throws {EncryptionError} If DEK creation or schema generation fails
+   */
+  public async generateEncryptedFieldsMap(
+    schemaFilePath: TSchemaFilePath,
+    loader?: TSchemaLoader,
+  ): Promise<IEncryptedFieldsMap> {
+    try {
+      const source = await loadSchemaSource(schemaFilePath, loader);
+      const collections = this.readSchemaFile(source);
+      this.validateFieldDefinitions(source, collections, "queryable");
+      const deks = await this.provisionDEKs(collections);
+      const encryptedFieldsMap: IEncryptedFieldsMap = {};
+
+      for (const { collectionName, fields } of collections) {
+        encryptedFieldsMap[collectionName] = {
+          fields: this.processQueryableFields(fields, collectionName, deks),
+        };
+      }
 
-      // Parse schema JSON
-      let jsonArray: CollectionSchema[];
       try {
-        jsonArray = JSON.parse(schemaFile);
-        if (!Array.isArray(jsonArray)) {
-          throw new ValidationError(`Schema file must contain a JSON array`);
-        }
+        validateEncryptedFieldsMap(encryptedFieldsMap);
       } catch (error: any) {
-        throw new ValidationError(`Invalid JSON in schema file: ${error.message}`);
+        throw new ValidationError(error.message, { cause: error });
       }
 
-      const schemaMap: IEncryptionSchema = {};
+      return encryptedFieldsMap;
+    } catch (error: any) {
+      if (error instanceof ValidationError || error instanceof EncryptionError) {
+        throw error;
+      }
+      throw new EncryptionError(`Failed to generate encryptedFieldsMap: ${error.message}`, { cause: error });
+    }
+  }
 
-      for (const collectionDef of jsonArray) {
-        const collectionNames = Object.keys(collectionDef);
-        if (collectionNames.length !== 1) {
-          throw new ValidationError(`Each schema definition must contain exactly one collection name`);
+  /**
+   * Check a schema file for the given mode without touching the key vault: the file must parse,
+   * and every field definition and KMS provider name must be valid.
+   * 
+   * @param schemaFilePath - Path to the schema file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+   * @param options - Encryption mode (default "csfle") and optional loader
+   * @throws {ValidationError} If the schema file is invalid, located in the file where possible
+   */
+  public async validate(
+    schemaFilePath: TSchemaFilePath,
+    options: ISchemaPlanOptions = {},
+  ): Promise<void> {
+    const source = await loadSchemaSource(schemaFilePath, options.loader);
+    this.validateFieldDefinitions(source, this.readSchemaFile(source), options.mode ?? "csfle");
+  }
+
+  /**
+   * Preview what generating a schema from a file would do, without writing to the key vault.
+   * Reports every encrypted field with its bsonType and algorithm (or queryType), whether its DEK
+   * already exists or would be created, and key vault entries that no longer match any field.
+   * Only keys whose alternate names start with a database named in the schema (e.g. "mydb.")
+   * are considered for the orphan check.
+   * 
+   * @param schemaFilePath - Path to the schema file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+   * @param options - Encryption mode (default "csfle") and optional loader
+   * @returns The plan
+   * @throws {ValidationError} If the schema file is invalid
+   * @throws {EncryptionError} If the key vault cannot be read
+   */
+  public async plan(
+    schemaFilePath: TSchemaFilePath,
+    options: ISchemaPlanOptions = {},
+  ): Promise<ISchemaPlan> {
+    const mode = options.mode ?? "csfle";
+
+    try {
+      const source = await loadSchemaSource(schemaFilePath, options.loader);
+      const collections = this.readSchemaFile(source);
+      this.validateFieldDefinitions(source, collections, mode);
+
+      const defaultProvider = this.dekManager.getKmsProviderNames()[0];
+      const fields: IPlannedField[] = [];
+      for (const { collectionName, fields: fieldMap, keyAltNameField, kmsProvider } of collections) {
+        for (const [fullPath, definition] of this.collectLeafFields(fieldMap, collectionName)) {
+          const field: IPlannedField = {
+            collection: collectionName,
+            path: fullPath.slice(collectionName.length + 1),
+            keyAltName: keyAltNameField ?? fullPath,
+            bsonType: resolveBsonType(definition.type, fullPath),
+            action: keyAltNameField === undefined ? "create" : "perTenant",
+          };
+          if (mode === "queryable") {
+            field.queryType = resolveQueryType(definition, fullPath);
+          } else {
+            field.algorithm = resolveFieldAlgorithm(definition, fullPath, keyAltNameField);
+          }
+          if (keyAltNameField === undefined) {
+            field.kmsProvider = definition.kmsProvider ?? kmsProvider ?? defaultProvider;
+          }
+          fields.push(field);
         }
+      }
 
-        const collectionName = collectionNames[0];
-        const fields = collectionDef[collectionName];
+      const fieldsByAltName = new Map(
+        fields.filter((field) => field.action !== "perTenant").map((field) => [field.keyAltName, field])
+      );
+      const prefixes = [...new Set(collections.map(({ collectionName }) => `${collectionName.split(".")[0]}.`))];
+      const keys = await this.dekManager.listKeys({
+        $or: [
+          { keyAltNames: { $in: [...fieldsByAltName.keys()] } },
+          ...prefixes.map((prefix) => ({ keyAltNames: new RegExp(`^${this.escapeRegExp(prefix)}`) })),
+        ],
+      });
 
-        schemaMap[collectionName] = {
-          bsonType: "object",
-          properties: await this.processFields(fields, collectionName),
-        };
+      const orphanedKeys: IOrphanedKey[] = [];
+      for (const key of keys) {
+        const altNames = key.keyAltNames ?? [];
+        const matched = altNames.map((altName) => fieldsByAltName.get(altName)).filter((field) => field !== undefined);
+        for (const field of matched) {
+          field.action = "existing";
+          field.keyId = key._id;
+        }
+        if (matched.length === 0) {
+          orphanedKeys.push({ keyId: key._id, keyAltNames: altNames, kmsProvider: key.masterKey?.provider ?? "unknown" });
+        }
       }
 
-      return schemaMap;
+      return {
+        mode,
+        fields,
+        orphanedKeys,
+        summary: {
+          existing: fields.filter((field) => field.action === "existing").length,
+          create: fields.filter((field) => field.action === "create").length,
+          perTenant: fields.filter((field) => field.action === "perTenant").length,
+          orphaned: orphanedKeys.length,
+        },
+      };
     } catch (error: any) {
       if (error instanceof ValidationError || error instanceof EncryptionError) {
         throw error;
       }
-      throw new EncryptionError(`Failed to generate CSFLE schema: ${error.message}`);
+      throw new EncryptionError(`Failed to plan schema: ${error.message}`, { cause: error });
     }
   }
 
+  /**
+   * Generate the schema for a mode, creating missing DEKs, and wrap it in a lock recording the
+   * SHA-256 of the loaded schema. Write it with writeSchemaLock; ServerEncryptionService loads it
+   * through the schemaLockFile option instead of looking up every DEK again.
+   * 
+   * @param schemaFilePath - Path to the schema file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+   * @param options - Encryption mode (default "csfle") and optional loader
+   * @returns The schema lock
+   * @throws {ValidationError} If the schema file is invalid
+   * @throws {EncryptionError} If DEK creation or schema generation fails
+   */
+  public async generateSchemaLock(
+    schemaFilePath: TSchemaFilePath,
+    options: ISchemaPlanOptions = {},
+  ): Promise<ISchemaLock> {
+    const mode = options.mode ?? "csfle";
+    const sourceHash = await hashSchemaFile(schemaFilePath, options.loader);
+    const schema = mode === "queryable"
+      ? await this.generateEncryptedFieldsMap(schemaFilePath, options.loader)
+      : await this.generateCSFLESchema(schemaFilePath, options.loader);
+
+    return { format: "mirage-schema-lock", version: 1, mode, sourceHash, schema };
+  }
+
+  /**
+   * Split a loaded simple-format schema into collection definitions and their options
+   * 
+   * @param source - Loaded schema file
+   * @returns Collection definitions with their field maps and options
+   * @throws {ValidationError} If a collection definition or its options are invalid, located in the file
+   */
+  private readSchemaFile(source: ISchemaSource): CollectionDefinition[] {
+    return source.collections.map((collectionDef, index) => {
+      const collectionNames = typeof collectionDef === "object" && collectionDef !== null ? Object.keys(collectionDef) : [];
+      if (collectionNames.length !== 1) {
+        throw new ValidationError(formatSchemaError(source, [index], `Each schema definition must contain exactly one collection name`));
+      }
+
+      const collectionName = collectionNames[0];
+      const invalid = (option: string, message: string) =>
+        new ValidationError(formatSchemaError(source, [index, collectionName, option], message));
+
+      const {
+        [KEY_ALT_NAME_FIELD_OPTION]: keyAltNameField,
+        [KMS_PROVIDER_OPTION]: kmsProvider,
+        ...fields
+      } = collectionDef[collectionName];
+
+      if (kmsProvider !== undefined && typeof kmsProvider !== "string") {
+        throw invalid(KMS_PROVIDER_OPTION, `Collection '${collectionName}': ${KMS_PROVIDER_OPTION} must be a KMS provider name such as "aws:eu"`);
+      }
+
+      if (keyAltNameField === undefined) {
+        return { index, collectionName, fields, kmsProvider };
+      }
+
+      if (kmsProvider !== undefined) {
+        throw invalid(
+          KMS_PROVIDER_OPTION,
+          `Collection '${collectionName}': ${KMS_PROVIDER_OPTION} cannot be combined with ${KEY_ALT_NAME_FIELD_OPTION}. ` +
+          `Choose the provider when provisioning tenant DEKs instead.`
+        );
+      }
+
+      if (typeof keyAltNameField !== "string" || !/^\/[^/]+(\/[^/]+)*$/.test(keyAltNameField)) {
+        throw invalid(
+          KEY_ALT_NAME_FIELD_OPTION,
+          `Collection '${collectionName}': ${KEY_ALT_NAME_FIELD_OPTION} must be a JSON pointer such as "/tenantId"`
+        );
+      }
+
+      const pointerPath = keyAltNameField.slice(1).split("/").join(".");
+      if (this.collectLeafFields(fields, collectionName).some(([fullPath]) => fullPath === `${collectionName}.${pointerPath}`)) {
+        throw invalid(
+          KEY_ALT_NAME_FIELD_OPTION,
+          `Collection '${collectionName}': field '${pointerPath}' referenced by ${KEY_ALT_NAME_FIELD_OPTION} must not be encrypted`
+        );
+      }
+
+      return { index, collectionName, fields, keyAltNameField };
+    });
+  }
+
+  /**
+   * Validate every field definition and KMS provider name before any DEK is created
+   * 
+   * @param source - Loaded schema file, used to locate errors
+   * @param collections - Collection definitions from the schema file
+   * @param mode - Encryption mode the schema is generated for
+   * @throws {ValidationError} If a field definition or collection option is invalid for the mode, or names an unknown
+   * KMS provider, located in the file
+   */
+  private validateFieldDefinitions(source: ISchemaSource, collections: CollectionDefinition[], mode: TEncryptionMode): void {
+    const providerNames = this.dekManager.getKmsProviderNames();
+
+    for (const { index, collectionName, fields, keyAltNameField, kmsProvider } of collections) {
+      if (mode === "queryable" && keyAltNameField !== undefined) {
+        throw new ValidationError(formatSchemaError(
+          source,
+          [index, collectionName, KEY_ALT_NAME_FIELD_OPTION],
+          `Collection '${collectionName}': ${KEY_ALT_NAME_FIELD_OPTION} is not supported in queryable encryption mode`
+        ));
+      }
+
+      this.withSchemaLocation(source, [index, collectionName, KMS_PROVIDER_OPTION], () => {
+        if (kmsProvider !== undefined) {
+          this.validateKmsProviderName(kmsProvider, collectionName, providerNames);
+        }
+      });
+
+      for (const [fullPath, definition] of this.collectLeafFields(fields, collectionName)) {
+        const entryPath = [index, collectionName, ...fullPath.slice(collectionName.length + 1).split(".")];
+
+        this.withSchemaLocation(source, entryPath, () => validateFieldDefinition(definition, fullPath, mode, keyAltNameField));
+
+        if (definition.kmsProvider !== undefined) {
+          this.withSchemaLocation(source, [...entryPath, KMS_PROVIDER_OPTION], () => {
+            if (keyAltNameField !== undefined) {
+              throw new ValidationError(
+                `Invalid field '${fullPath}': ${KMS_PROVIDER_OPTION} cannot be combined with ${KEY_ALT_NAME_FIELD_OPTION}`
+              );
+            }
+            this.validateKmsProviderName(definition.kmsProvider, fullPath, providerNames);
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a validation and prefix its ValidationError with the location of a schema entry
+   * 
+   * @param source - Loaded schema file
+   * @param entryPath - Path to the entry being validated
+   * @param validate - Validation to run
+   * @throws {ValidationError} If the validation fails
+   */
+  private withSchemaLocation(source: ISchemaSource, entryPath: Array<string | number>, validate: () => void): void {
+    try {
+      validate();
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(formatSchemaError(source, entryPath, error.message));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check that a KMS provider selected in the schema file is configured
+   * 
+   * @param kmsProvider - KMS provider name from the schema file
+   * @param path - Collection name or field path (for error messages)
+   * @param providerNames - Names of the configured KMS providers
+   * @throws {ValidationError} If the provider is not configured
+   */
+  private validateKmsProviderName(kmsProvider: unknown, path: string, providerNames: string[]): void {
+    if (typeof kmsProvider !== "string" || !providerNames.includes(kmsProvider)) {
+      throw new ValidationError(
+        `Invalid ${KMS_PROVIDER_OPTION} '${String(kmsProvider)}' for '${path}'. Configured providers are: ${providerNames.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Ensure a DEK exists for every encrypted field in the schema, with one batch per KMS provider.
+   * A field's kmsProvider wins over its collection's; fields without one use the default provider.
+   * Collections using a keyAltNameField pointer are skipped because their DEKs are provisioned per tenant.
+   * 
+   * @param collections - Collection definitions from the schema file
+   * @returns A map of field path to DEK ID
+   * @throws {EncryptionError} If DEK creation fails
+   */
+  private async provisionDEKs(collections: CollectionDefinition[]): Promise<Map<string, Binary>> {
+    const altNamesByProvider = new Map<string | undefined, string[]>();
+    for (const { collectionName, fields, keyAltNameField, kmsProvider } of collections) {
+      if (keyAltNameField !== undefined) {
+        continue;
+      }
+
+      for (const [fullPath, definition] of this.collectLeafFields(fields, collectionName)) {
+        const provider = definition.kmsProvider ?? kmsProvider;
+        altNamesByProvider.set(provider, [...(altNamesByProvider.get(provider) ?? []), fullPath]);
+      }
+    }
+
+    const deks = new Map<string, Binary>();
+    for (const [kmsProvider, altNames] of altNamesByProvider) {
+      const provisioned = await this.dekManager.getDEKs(altNames, { kmsProvider });
+      provisioned.forEach((dekId, altName) => deks.set(altName, dekId));
+    }
+    return deks;
+  }
+
+  /**
+   * Collect every encrypted (leaf) field with its full path, which is also its key alternate name
+   * 
+   * @param fields - Map of field names to types
+   * @param parentPath - Collection name or parent path for nested fields
+   * @returns Full paths and definitions of all encrypted fields
+   */
+  private collectLeafFields(fields: FieldMap, parentPath: string): Array<[string, IFieldDefinition]> {
+    return Object.entries(fields).flatMap(([fieldName, fieldType]): Array<[string, IFieldDefinition]> => {
+      const fullPath = `${parentPath}.${fieldName}`;
+      if (typeof fieldType === "object" && fieldType !== null && !isFieldDefinition(fieldType)) {
+        return this.collectLeafFields(fieldType, fullPath);
+      }
+      return [[fullPath, toFieldDefinition(fieldType as string | IFieldDefinition)]];
+    });
+  }
+
   /**
    * Process fields in the schema to create encrypted field definitions
    * 
    * @param fields - Map of field names to types
    * @param collectionName - Name of the collection
+   * @param deks - DEK IDs by field path
    * @param parentPath - Parent path for nested fields
+   * @param keyAltNameField - JSON pointer to the field holding each document's key alternate name
    * @returns Processed properties with encryption configuration
-   * @throws {EncryptionError} If DEK creation fails or field processing fails
+   * @throws {EncryptionError} If field processing fails
    */
-  private async processFields(fields: FieldMap, collectionName: string, parentPath = ""): Promise<Record<string, TProperties>> {
+  private processFields(fields: FieldMap, collectionName: string, deks: Map<string, Binary>, parentPath = "", keyAltNameField?: string): Record<string, TProperties> {
     const properties: Record<string, TProperties> = {};
 
     try {
@@ -87,76 +462,161 @@ export class EncryptionSchemaService {
           ? `${parentPath}.${fieldName}`
           : `${collectionName}.${fieldName}`;
 
-        const bsonType: string = typeof fieldType === "string" ? fieldType.toLowerCase() : "object";
-
-        // Fetch DEK for this field
         try {
-          const dekId = await this.dekManager.getDEK(fullPath);
-
-          if (bsonType === "object" && typeof fieldType === "object") {
+          if (typeof fieldType === "object" && fieldType !== null && !isFieldDefinition(fieldType)) {
             properties[fieldName] = {
               bsonType: "object",
-              properties: await this.processFields(fieldType, collectionName, fullPath),
+              properties: this.processFields(fieldType, collectionName, deks, fullPath, keyAltNameField),
             };
           } else {
-            // Determine appropriate encryption algorithm based on field type
-            let algorithm: EEncryptionAlgorithm;
-            switch (bsonType) {
-              case "array":
-              case "object":
-              case "bool":
-              case "double":
-              case "decimal128":
-                algorithm = EEncryptionAlgorithm.RANDOM;
-                break;
-              default:
-                algorithm = EEncryptionAlgorithm.DETERMINISTIC;
-            }
-
-            // Validate BSON type
-            this.validateBsonType(bsonType, fullPath);
+            const definition = toFieldDefinition(fieldType as string | IFieldDefinition);
 
             properties[fieldName] = {
               encrypt: {
-                keyId: [dekId],
-                bsonType: bsonType as TBsonType,
-                algorithm,
+                keyId: keyAltNameField ?? [this.getProvisionedDEK(deks, fullPath)],
+                bsonType: resolveBsonType(definition.type, fullPath),
+                algorithm: resolveFieldAlgorithm(definition, fullPath, keyAltNameField),
               },
             };
           }
         } catch (error: any) {
-          throw new EncryptionError(`Failed to process field ${fullPath}: ${error.message}`);
+          throw new EncryptionError(`Failed to process field ${fullPath}: ${error.message}`, {
+            cause: error,
+            context: { namespace: collectionName, fieldPath: fullPath.slice(collectionName.length + 1) },
+          });
         }
       }
     } catch (error: any) {
       if (error instanceof EncryptionError) {
         throw error;
       }
-      throw new EncryptionError(`Failed to process fields: ${error.message}`);
+      throw new EncryptionError(`Failed to process fields: ${error.message}`, { cause: error });
     }
 
     return properties;
   };
 
   /**
-   * Validate if a string is a valid BSON type
+   * Process fields in the schema into Queryable Encryption field definitions
    * 
-   * @param bsonType - Type to validate
-   * @param fieldPath - Path to the field (for error messages)
-   * @throws {ValidationError} If the type is not a valid BSON type
+   * @param fields - Map of field names to types or field definitions
+   * @param collectionName - Name of the collection
+   * @param deks - DEK IDs by field path
+   * @param parentPath - Parent document path for nested fields
+   * @returns Flattened encrypted fields with one DEK per field
+   * @throws {ValidationError} If a field's type or query options are invalid
    */
-  private validateBsonType(bsonType: string, fieldPath: string): void {
-    const validTypes = [
-      "double", "string", "object", "array", "binData", "undefined",
-      "objectId", "bool", "date", "null", "regex", "dbPointer",
-      "javascript", "symbol", "javascriptWithScope", "int", "timestamp",
-      "long", "decimal", "minKey", "maxKey", "decimal128"
-    ];
+  private processQueryableFields(fields: FieldMap, collectionName: string, deks: Map<string, Binary>, parentPath = ""): IQueryableEncryptedField[] {
+    const encryptedFields: IQueryableEncryptedField[] = [];
 
-    if (!validTypes.includes(bsonType)) {
-      throw new ValidationError(
-        `Invalid BSON type '${bsonType}' for field '${fieldPath}'. Valid types are: ${validTypes.join(", ")}`
-      );
+    for (const [fieldName, fieldType] of Object.entries(fields)) {
+      const path = parentPath ? `${parentPath}.${fieldName}` : fieldName;
+      const fullPath = `${collectionName}.${path}`;
+
+      if (typeof fieldType === "object" && fieldType !== null && !isFieldDefinition(fieldType)) {
+        encryptedFields.push(...this.processQueryableFields(fieldType, collectionName, deks, path));
+        continue;
+      }
+
+      const definition = toFieldDefinition(fieldType as string | IFieldDefinition);
+      const bsonType = resolveBsonType(definition.type, fullPath);
+      const queryType = resolveQueryType(definition, fullPath);
+
+      const encryptedField: IQueryableEncryptedField = { path, bsonType, keyId: this.getProvisionedDEK(deks, fullPath) };
+      if (queryType !== undefined) {
+        encryptedField.queries = this.buildQuery(definition, bsonType, queryType);
+      }
+
+      encryptedFields.push(encryptedField);
+    }
+
+    return encryptedFields;
+  }
+
+  /**
+   * Escape a string for use as a literal in a regular expression
+   * 
+   * @param value - String to escape
+   * @returns Escaped string
+   */
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  /**
+   * Look up the DEK provisioned for a field
+   * 
+   * @param deks - DEK IDs by field path
+   * @param fullPath - Full path of the field
+   * @returns The DEK ID
+   * @throws {EncryptionError} If no DEK was provisioned for the field
+   */
+  private getProvisionedDEK(deks: Map<string, Binary>, fullPath: string): Binary {
+    const dekId = deks.get(fullPath);
+    if (!dekId) {
+      throw new EncryptionError(`No DEK provisioned for field ${fullPath}`, { code: "DEK_NOT_FOUND", context: { keyAltName: fullPath } });
+    }
+    return dekId;
+  }
+
+  /**
+   * Build the Queryable Encryption query definition for a field, converting range bounds
+   * to the BSON type of the field
+   * 
+   * @param definition - Field definition from the schema file
+   * @param bsonType - Resolved BSON type of the field
+   * @param queryType - Resolved query type of the field
+   * @returns Query definition for the encryptedFields entry
+   */
+  private buildQuery(definition: IFieldDefinition, bsonType: TBsonType, queryType: TQueryType): IQueryableEncryptionQuery {
+    const query: IQueryableEncryptionQuery = { queryType };
+
+    if (definition.contention !== undefined) {
+      query.contention = definition.contention;
+    }
+
+    if (queryType === "range") {
+      if (definition.min !== undefined) {
+        query.min = this.toBsonValue(definition.min, bsonType);
+      }
+      if (definition.max !== undefined) {
+        query.max = this.toBsonValue(definition.max, bsonType);
+      }
+      if (definition.sparsity !== undefined) {
+        query.sparsity = Long.fromNumber(definition.sparsity);
+      }
+      if (definition.trimFactor !== undefined) {
+        query.trimFactor = definition.trimFactor;
+      }
+      if (definition.precision !== undefined) {
+        query.precision = definition.precision;
+      }
+    }
+
+    return query;
+  }
+
+  /**
+   * Convert a JSON range bound into the BSON value MongoDB expects for the field type
+   * 
+   * @param value - Bound as read from the schema file
+   * @param bsonType - BSON type of the field
+   * @returns BSON value matching the field type
+   */
+  private toBsonValue(value: any, bsonType: TBsonType): any {
+    switch (bsonType) {
+      case "int":
+        return new Int32(value);
+      case "long":
+        return Long.fromNumber(Number(value));
+      case "double":
+        return new Double(value);
+      case "decimal":
+        return Decimal128.fromString(String(value));
+      case "date":
+        return new Date(value);
+      default:
+        return value;
     }
   }
 
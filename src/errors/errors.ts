@@ -1,10 +1,52 @@
+import { redactSecrets } from "../utils/redaction.utils";
+import { IMirageErrorContext, IMirageErrorOptions, TMirageErrorCode } from "../types/errors";
+
 /**
- * Base error class for mirage-encryption errors
+ * Base error class for mirage-encryption errors. Registered secrets are redacted from the message, and
+ * from the message and stack of every error in the cause chain, so inspecting or logging the error
+ * doesn't reveal them through a wrapped driver or KMS error.
+ * 
+ * Errors wrapping another mirage error keep its code and context unless they set their own.
  */
 export class MirageEncryptionError extends Error {
-    constructor(message: string) {
-        super(message);
+    protected static readonly defaultCode: TMirageErrorCode = "MIRAGE_ERROR";
+
+    /**
+     * Machine-readable error code
+     */
+    public readonly code: TMirageErrorCode;
+    /**
+     * What the error is about, e.g. the namespace and field path
+     */
+    public readonly context: IMirageErrorContext;
+
+    constructor(message: string, options: IMirageErrorOptions = {}) {
+        super(redactSecrets(message), options.cause !== undefined ? { cause: options.cause } : undefined);
         this.name = 'MirageEncryptionError';
+        redactCauseChain(options.cause);
+
+        const cause = options.cause instanceof MirageEncryptionError ? options.cause : undefined;
+        this.code = options.code ?? cause?.code ?? (new.target as typeof MirageEncryptionError).defaultCode;
+        this.context = { ...cause?.context, ...options.context };
+    }
+}
+
+/**
+ * Redacts registered secrets from the message and stack of each error in a cause chain, in place, so
+ * the causes stay the same objects for callers checking them
+ * 
+ * @param cause - Cause of a new error
+ */
+function redactCauseChain(cause: unknown): void {
+    const seen = new Set<object>();
+    for (let current = cause; current !== null && typeof current === "object" && !seen.has(current); current = (current as Error).cause) {
+        seen.add(current);
+        for (const key of ["message", "stack"]) {
+            const value: unknown = Reflect.get(current, key);
+            if (typeof value === "string" && redactSecrets(value) !== value) {
+                Reflect.set(current, key, redactSecrets(value));
+            }
+        }
     }
 }
 
@@ -12,8 +54,10 @@ export class MirageEncryptionError extends Error {
  * Error thrown when there's a configuration issue
  */
 export class ConfigurationError extends MirageEncryptionError {
-    constructor(message: string) {
-        super(message);
+    protected static readonly defaultCode: TMirageErrorCode = "CONFIGURATION_INVALID";
+
+    constructor(message: string, options?: IMirageErrorOptions) {
+        super(message, options);
         this.name = 'ConfigurationError';
     }
 }
@@ -22,8 +66,10 @@ export class ConfigurationError extends MirageEncryptionError {
  * Error thrown when there's a validation issue
  */
 export class ValidationError extends MirageEncryptionError {
-    constructor(message: string) {
-        super(message);
+    protected static readonly defaultCode: TMirageErrorCode = "VALIDATION_FAILED";
+
+    constructor(message: string, options?: IMirageErrorOptions) {
+        super(message, options);
         this.name = 'ValidationError';
     }
 }
@@ -32,8 +78,10 @@ export class ValidationError extends MirageEncryptionError {
  * Error thrown when there's an encryption operation issue
  */
 export class EncryptionError extends MirageEncryptionError {
-    constructor(message: string) {
-        super(message);
+    protected static readonly defaultCode: TMirageErrorCode = "ENCRYPTION_FAILED";
+
+    constructor(message: string, options?: IMirageErrorOptions) {
+        super(message, options);
         this.name = 'EncryptionError';
     }
 }
@@ -42,8 +90,10 @@ export class EncryptionError extends MirageEncryptionError {
  * Error thrown when there's a schema-related issue
  */
 export class SchemaError extends MirageEncryptionError {
-    constructor(message: string) {
-        super(message);
+    protected static readonly defaultCode: TMirageErrorCode = "SCHEMA_INVALID";
+
+    constructor(message: string, options?: IMirageErrorOptions) {
+        super(message, options);
         this.name = 'SchemaError';
     }
 }
@@ -52,8 +102,10 @@ export class SchemaError extends MirageEncryptionError {
  * Error thrown when there's a KMS-related issue
  */
 export class KMSError extends MirageEncryptionError {
-    constructor(message: string) {
-        super(message);
+    protected static readonly defaultCode: TMirageErrorCode = "KMS_ERROR";
+
+    constructor(message: string, options?: IMirageErrorOptions) {
+        super(message, options);
         this.name = 'KMSError';
     }
 }
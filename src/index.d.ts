@@ -3,7 +3,9 @@ export * from "./types/schema";
 export * from "./types/dekManager";
 export * from "./types/encryption";
 export * from "./types/encryptionSchemaService";
+export * from "./types/migrationService";
 export * from "./types/utils";
 export * from "./types/config";
+export * from "./types/errors";
 export * from "./types/encryption.config";
 export * from "./errors/errors";
\ No newline at end of file
@@ -1,6 +1,15 @@
 export * from "./encryption";
 export * from "./dekManager";
 export * from "./encryptionSchemaService"
+export * from "./migrationService";
 export * from "./utils/file.utils";
 export * from "./utils/cryptShared.utils";
+export * from "./utils/schema.utils";
+export * from "./utils/credentials.utils";
+export * from "./utils/secrets.utils";
+export * from "./utils/redaction.utils";
+export * from "./utils/schemaPlan.utils";
+export * from "./utils/migration.utils";
+export * from "./utils/serverSchema.utils";
+export * from "./utils/schemaLock.utils";
 export * from "./errors/errors";
\ No newline at end of file
@@ -0,0 +1,471 @@
+import { Collection, Document, MongoClient } from "mongodb";
+import { ServerEncryptionService } from "./encryption";
+import { ConfigurationError, EncryptionError, ValidationError } from "./errors/errors";
+import {
+    IMigrationCheckpoint,
+    IMigrationFailure,
+    IMigrationOptions,
+    IMigrationResult,
+    IRekeyOptions,
+    IRekeyResult,
+    IRekeyVerification
+} from "./types/migrationService";
+import { IEncryptDefinition } from "./types/schema";
+import {
+    collectEncryptedFields,
+    collectEncryptedPaths,
+    describeCiphertext,
+    getValueAtPath,
+    isEncryptedValue
+} from "./utils/migration.utils";
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_CHECKPOINT_COLLECTION = "mirage_migrations";
+const MAX_RECORDED_FAILURES = 100;
+const MAX_RECORDED_MISMATCHES = 100;
+
+export class MigrationService {
+    private readonly encryptionService: ServerEncryptionService;
+    private readonly plainClient: MongoClient;
+
+    /**
+     * @param encryptionService - Initialized encryption service whose schema and encrypted client are used
+     * @param plainClient - MongoDB client without auto-encryption, used to read raw documents and store checkpoints
+     */
+    constructor(encryptionService: ServerEncryptionService, plainClient: MongoClient) {
+        this.encryptionService = encryptionService;
+        this.plainClient = plainClient;
+    }
+
+    /**
+     * Encrypts documents that still hold plaintext in fields the schema encrypts. Walks the collection
+     * in _id order with the plain client, and rewrites every document with a plaintext encrypted field
+     * through the encrypted client, which reads it decrypted and writes it back encrypted. Documents
+     * whose encrypted fields are all ciphertext or absent are skipped.
+     * 
+     * A checkpoint is saved after every batch, so a later run with the same migrationId resumes after
+     * the last processed document. A document changed by another writer between its read and its
+     * rewrite loses that change, so pause writers or run the backfill at a quiet time.
+     * 
+     * In queryable mode the collection must have been created with encryptedFields: Queryable
+     * Encryption can't encrypt documents in place in a collection without that metadata. Copy such
+     * collections into a new collection created with encryptedFields instead.
+     * 
+     * @param namespace - Collection namespace ("database.collection")
+     * @param options - Batch, throttle and checkpoint options
+     * @returns Counts of converted, skipped and failed documents, with the first failures
+     * @throws {ValidationError} If the namespace has no encrypted fields or the options are invalid
+     * @throws {ConfigurationError} If the encryption service is not initialized, or in queryable mode the
+     * collection was created without encryptedFields
+     * @throws {EncryptionError} If reading the collection or saving a checkpoint fails
+     */
+    public async backfill(namespace: string, options: IMigrationOptions = {}): Promise<IMigrationResult> {
+        const encryptedPaths = this.getEncryptedPaths(namespace);
+        if (encryptedPaths.length === 0) {
+            throw new ValidationError(`No encrypted fields are configured for namespace ${namespace}`);
+        }
+
+        const needsEncryption = (document: Document) =>
+            encryptedPaths.some((path) => {
+                const value = getValueAtPath(document, path);
+                return value !== undefined && !isEncryptedValue(value);
+            });
+
+        return this.runMigration(namespace, `backfill:${namespace}`, options, async (batch, target) => {
+            const pending = batch.filter(needsEncryption);
+            const { converted, failures } = await this.rewriteThroughEncryptedClient(pending, target);
+            return { converted, skipped: batch.length - pending.length, failures };
+        });
+    }
+
+    /**
+     * Re-encrypts fields whose ciphertext no longer matches the schema, after a change of algorithm,
+     * BSON type or DEK. The schema the data was written with does not need to be kept: each
+     * ciphertext header records its algorithm, DEK id and original BSON type, and is compared with
+     * the current schema. Documents with a mismatching field are read decrypted through the encrypted
+     * client, which still finds the old DEK in the key vault, and written back encrypted with the
+     * current schema. Plaintext fields are left to backfill.
+     * 
+     * Namespaces are processed one after the other, each with its own checkpoint, so an interrupted
+     * re-key resumes where it stopped. Unless disabled, a verification pass then walks each
+     * collection again and counts documents that still don't match.
+     * 
+     * Fields whose keyId is a JSON pointer are checked for algorithm and BSON type only, since the
+     * expected DEK depends on each document. The same caveat as backfill applies to concurrent writers.
+     * 
+     * @param namespaces - Collection namespaces (defaults to every namespace in the schema)
+     * @param options - Batch, throttle, checkpoint and verification options
+     * @returns One result per namespace, in order
+     * @throws {ConfigurationError} If the service is in queryable mode or not initialized
+     * @throws {ValidationError} If a namespace has no encrypted fields or the options are invalid
+     * @throws {EncryptionError} If reading a collection or saving a checkpoint fails
+     */
+    public async rekey(namespaces?: string | string[], options: IRekeyOptions = {}): Promise<IRekeyResult[]> {
+        if (this.encryptionService.getMode() === "queryable") {
+            throw new ConfigurationError(
+                "Re-keying is only supported in CSFLE mode; Queryable Encryption fields cannot change once the collection exists"
+            );
+        }
+
+        const schema = this.encryptionService.getSchema();
+        const targets = namespaces === undefined ? Object.keys(schema) : [namespaces].flat();
+        const prefix = options.migrationId ?? "rekey";
+
+        const results: IRekeyResult[] = [];
+        for (const namespace of targets) {
+            const fields = schema[namespace] ? collectEncryptedFields(schema[namespace]) : [];
+            if (fields.length === 0) {
+                throw new ValidationError(`No encrypted fields are configured for namespace ${namespace}`);
+            }
+
+            const needsRekey = (document: Document) =>
+                fields.some(([path, encrypt]) => this.ciphertextMismatches(getValueAtPath(document, path), encrypt));
+
+            const migrationOptions = { ...options, migrationId: `${prefix}:${namespace}` };
+            const result: IRekeyResult = await this.runMigration(namespace, migrationOptions.migrationId, migrationOptions, async (batch, target) => {
+                const pending = batch.filter(needsRekey);
+                const { converted, failures } = await this.rewriteThroughEncryptedClient(pending, target);
+                return { converted, skipped: batch.length - pending.length, failures };
+            });
+
+            if (options.verify !== false) {
+                result.verification = await this.verify(namespace, migrationOptions, needsRekey);
+            }
+            results.push(result);
+        }
+
+        return results;
+    }
+
+    /**
+     * Rewrites documents through the encrypted client, which reads them decrypted and writes them
+     * back encrypted with the current schema
+     * 
+     * @param pending - Raw documents to rewrite
+     * @param target - Collection on the plain client, naming the database and collection
+     * @returns Number of rewritten documents and the failures
+     */
+    private async rewriteThroughEncryptedClient(
+        pending: Document[],
+        target: Collection<Document>
+    ): Promise<{ converted: number; failures: IMigrationFailure[] }> {
+        if (pending.length === 0) {
+            return { converted: 0, failures: [] };
+        }
+
+        const collection = this.encryptionService.getMongoClient().db(target.dbName).collection(target.collectionName);
+        const decrypted = await collection.find({ _id: { $in: pending.map((document) => document._id) } }).toArray();
+
+        let converted = 0;
+        const failures: IMigrationFailure[] = [];
+        for (const document of pending) {
+            const current = decrypted.find((candidate) => this.sameId(candidate._id, document._id));
+            if (!current) {
+                // Deleted since the plain read
+                continue;
+            }
+            try {
+                await collection.replaceOne({ _id: current._id }, current);
+                converted++;
+            } catch (error: any) {
+                failures.push({ _id: document._id, error: error.message || String(error) });
+            }
+        }
+
+        return { converted, failures };
+    }
+
+    /**
+     * Checks whether a raw field value is ciphertext written with another algorithm, BSON type or DEK
+     * than the encrypt definition
+     * 
+     * @param value - Raw field value
+     * @param encrypt - Encrypt definition from the current schema
+     * @returns true if the value must be re-encrypted; false for plaintext, absent or unrecognized values
+     */
+    private ciphertextMismatches(value: unknown, encrypt: IEncryptDefinition): boolean {
+        const ciphertext = describeCiphertext(value);
+        if (!ciphertext) {
+            return false;
+        }
+        if (ciphertext.algorithm !== encrypt.algorithm || ciphertext.bsonType !== encrypt.bsonType) {
+            return true;
+        }
+        return Array.isArray(encrypt.keyId) && encrypt.keyId.length > 0 &&
+            !encrypt.keyId.some((keyId) => Buffer.from(keyId.value()).equals(Buffer.from(ciphertext.keyId.value())));
+    }
+
+    /**
+     * Walks a collection with the plain client and counts documents that still need migrating
+     * 
+     * @param namespace - Collection namespace ("database.collection")
+     * @param options - Batch options
+     * @param mismatches - Predicate for documents that still need migrating
+     * @returns Counts and the _ids of the first mismatched documents
+     * @throws {EncryptionError} If reading the collection fails
+     */
+    private async verify(
+        namespace: string,
+        options: IMigrationOptions,
+        mismatches: (document: Document) => boolean
+    ): Promise<IRekeyVerification> {
+        const [dbName, ...collectionParts] = namespace.split(".");
+        const verification: IRekeyVerification = { checked: 0, mismatched: 0, mismatchedIds: [] };
+
+        try {
+            const target = this.plainClient.db(dbName).collection(collectionParts.join("."));
+            await this.checkIdTypes(target, namespace);
+            let lastId: unknown;
+            for (; ;) {
+                const filter: Document = lastId === undefined ? {} : { _id: { $gt: lastId } };
+                const batch = await target.find(filter).sort({ _id: 1 }).limit(options.batchSize ?? DEFAULT_BATCH_SIZE).toArray();
+                if (batch.length === 0) {
+                    break;
+                }
+                for (const document of batch.filter(mismatches)) {
+                    verification.mismatched++;
+                    if (verification.mismatchedIds.length < MAX_RECORDED_MISMATCHES) {
+                        verification.mismatchedIds.push(document._id);
+                    }
+                }
+                verification.checked += batch.length;
+                lastId = batch[batch.length - 1]._id;
+            }
+        } catch (error: any) {
+            if (error instanceof ValidationError) {
+                throw error;
+            }
+            throw new EncryptionError(`Failed to verify ${namespace}: ${error.message || String(error)}`, { cause: error });
+        }
+
+        return verification;
+    }
+
+    /**
+     * Walks a collection in _id order in batches, saving a checkpoint after each batch and
+     * throttling to the configured rate
+     * 
+     * @param namespace - Collection namespace ("database.collection")
+     * @param defaultMigrationId - Checkpoint id when the options don't name one
+     * @param options - Batch, throttle and checkpoint options
+     * @param processBatch - Migrates one batch of raw documents
+     * @returns Totals over all runs of this migration
+     * @throws {ValidationError} If the namespace or options are invalid, or the collection mixes _id types
+     * @throws {ConfigurationError} If in queryable mode the collection was created without encryptedFields
+     * @throws {EncryptionError} If reading the collection or saving a checkpoint fails
+     */
+    private async runMigration(
+        namespace: string,
+        defaultMigrationId: string,
+        options: IMigrationOptions,
+        processBatch: (
+            batch: Document[],
+            target: Collection<Document>
+        ) => Promise<{ converted: number; skipped: number; failures: IMigrationFailure[] }>
+    ): Promise<IMigrationResult> {
+        const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+        if (!Number.isInteger(batchSize) || batchSize < 1) {
+            throw new ValidationError(`Batch size must be a positive integer, got ${batchSize}`);
+        }
+        const rate = options.maxDocumentsPerSecond;
+        if (rate !== undefined && (typeof rate !== "number" || !(rate > 0))) {
+            throw new ValidationError(`maxDocumentsPerSecond must be a positive number, got ${rate}`);
+        }
+
+        const [dbName, ...collectionParts] = namespace.split(".");
+        const collectionName = collectionParts.join(".");
+        if (!dbName || !collectionName) {
+            throw new ValidationError(`Invalid namespace '${namespace}'. Expected "database.collection"`);
+        }
+
+        const migrationId = options.migrationId ?? defaultMigrationId;
+        const startedAt = Date.now();
+
+        try {
+            await this.plainClient.connect();
+            const target = this.plainClient.db(dbName).collection(collectionName);
+            if (this.encryptionService.getMode() === "queryable") {
+                await this.checkEncryptedFieldsMetadata(dbName, collectionName, namespace);
+            }
+            await this.checkIdTypes(target, namespace);
+            const checkpoints = this.plainClient.db(dbName)
+                .collection<IMigrationCheckpoint>(options.checkpointCollection ?? DEFAULT_CHECKPOINT_COLLECTION);
+
+            const saved = options.restart ? null : await checkpoints.findOne({ _id: migrationId });
+            const checkpoint: IMigrationCheckpoint = {
+                _id: migrationId,
+                migrationId,
+                namespace,
+                converted: saved?.converted ?? 0,
+                skipped: saved?.skipped ?? 0,
+                failed: saved?.failed ?? 0,
+                failures: saved?.failures ?? [],
+                updatedAt: new Date(),
+                ...(saved?.lastId !== undefined ? { lastId: saved.lastId } : {}),
+            };
+
+            let processed = 0;
+            for (; ;) {
+                const filter: Document = checkpoint.lastId === undefined ? {} : { _id: { $gt: checkpoint.lastId } };
+                const batch = await target.find(filter).sort({ _id: 1 }).limit(batchSize).toArray();
+                if (batch.length === 0) {
+                    break;
+                }
+
+                const result = await processBatch(batch, target);
+                checkpoint.converted += result.converted;
+                checkpoint.skipped += result.skipped;
+                checkpoint.failed += result.failures.length;
+                checkpoint.failures = [...checkpoint.failures, ...result.failures].slice(0, MAX_RECORDED_FAILURES);
+                checkpoint.lastId = batch[batch.length - 1]._id;
+                checkpoint.updatedAt = new Date();
+
+                await checkpoints.replaceOne({ _id: migrationId }, checkpoint, { upsert: true });
+                options.onProgress?.({
+                    migrationId,
+                    namespace,
+                    converted: checkpoint.converted,
+                    skipped: checkpoint.skipped,
+                    failed: checkpoint.failed,
+                    lastId: checkpoint.lastId,
+                });
+
+                processed += batch.length;
+                if (rate !== undefined) {
+                    const wait = (processed / rate) * 1000 - (Date.now() - startedAt);
+                    if (wait > 0) {
+                        await new Promise((resolve) => setTimeout(resolve, wait));
+                    }
+                }
+            }
+
+            await checkpoints.replaceOne({ _id: migrationId }, { ...checkpoint, completedAt: new Date() }, { upsert: true });
+
+            return {
+                migrationId,
+                namespace,
+                converted: checkpoint.converted,
+                skipped: checkpoint.skipped,
+                failed: checkpoint.failed,
+                lastId: checkpoint.lastId,
+                resumed: saved !== null,
+                failures: checkpoint.failures,
+                durationMs: Date.now() - startedAt,
+            };
+        } catch (error: any) {
+            if (error instanceof ValidationError || error instanceof ConfigurationError) {
+                throw error;
+            }
+            throw new EncryptionError(`Failed to migrate ${namespace}: ${error.message || String(error)}`, { cause: error });
+        }
+    }
+
+    /**
+     * Lists the encrypted field paths of a namespace in the service's schema
+     * 
+     * @param namespace - Collection namespace ("database.collection")
+     * @returns Dotted paths of the encrypted fields
+     * @throws {ConfigurationError} If the encryption service is not initialized
+     */
+    private getEncryptedPaths(namespace: string): string[] {
+        if (this.encryptionService.getMode() === "queryable") {
+            return this.encryptionService.getEncryptedFieldsMap()[namespace]?.fields.map((field) => field.path) ?? [];
+        }
+        const collectionSchema = this.encryptionService.getSchema()[namespace];
+        return collectionSchema ? collectEncryptedPaths(collectionSchema) : [];
+    }
+
+    /**
+     * Compares two document ids
+     * 
+     * @param a - First id
+     * @param b - Second id
+     * @returns true if the ids are equal
+     */
+    private sameId(a: unknown, b: unknown): boolean {
+        if (a !== null && typeof a === "object" && "equals" in a && typeof a.equals === "function") {
+            return a.equals(b);
+        }
+        return a === b;
+    }
+
+    /**
+     * Checks that an existing collection was created with encryptedFields, without which Queryable
+     * Encryption can't write encrypted documents to it
+     * 
+     * @param dbName - Database name
+     * @param collectionName - Collection name
+     * @param namespace - Collection namespace (for error messages)
+     * @throws {ConfigurationError} If the collection exists without encryptedFields
+     */
+    private async checkEncryptedFieldsMetadata(dbName: string, collectionName: string, namespace: string): Promise<void> {
+        const [info] = await this.plainClient.db(dbName).listCollections({ name: collectionName }, { nameOnly: false }).toArray();
+        if (info !== undefined && !("options" in info && info.options?.encryptedFields)) {
+            throw new ConfigurationError(
+                `Collection ${namespace} was created without encryptedFields, so Queryable Encryption can't encrypt its documents in place. ` +
+                "Create a new collection with encryptedFields, e.g. through the encrypted client, and copy the documents into it.",
+                { context: { namespace } }
+            );
+        }
+    }
+
+    /**
+     * Checks that every _id of a collection is of one BSON type bracket. Batches are read with
+     * `_id: { $gt: lastId }`, which only matches ids of the bracket of lastId, so documents with ids
+     * of other types would be skipped. The ids sorting first and last are enough to tell, because
+     * MongoDB sorts by bracket first.
+     * 
+     * @param collection - Collection to walk
+     * @param namespace - Collection namespace (for error messages)
+     * @throws {ValidationError} If the collection mixes _id types
+     */
+    private async checkIdTypes(collection: Collection<Document>, namespace: string): Promise<void> {
+        const [first] = await collection.find({}, { projection: { _id: 1 } }).sort({ _id: 1 }).limit(1).toArray();
+        const [last] = await collection.find({}, { projection: { _id: 1 } }).sort({ _id: -1 }).limit(1).toArray();
+        if (first === undefined || last === undefined) {
+            return;
+        }
+
+        const firstType = this.getIdTypeBracket(first._id);
+        const lastType = this.getIdTypeBracket(last._id);
+        if (firstType !== lastType) {
+            throw new ValidationError(
+                `Collection ${namespace} has _id values of different types (${firstType} and ${lastType}). ` +
+                "Migrations page through the collection by _id and would skip documents. Migrate collections with one _id type.",
+                { context: { namespace } }
+            );
+        }
+    }
+
+    /**
+     * Names the BSON type bracket of an id, i.e. the types $gt compares with each other
+     * 
+     * @param id - Document id
+     * @returns e.g. "number" for int, long, double and decimal ids
+     */
+    private getIdTypeBracket(id: unknown): string {
+        if (id === null || id === undefined) {
+            return "null";
+        }
+        if (id instanceof Date) {
+            return "date";
+        }
+        if (typeof id !== "object") {
+            return typeof id === "bigint" ? "number" : typeof id;
+        }
+        const bsonType = "_bsontype" in id && typeof id._bsontype === "string" ? id._bsontype : "object";
+        switch (bsonType) {
+            case "Int32":
+            case "Long":
+            case "Double":
+            case "Decimal128":
+                return "number";
+            case "BSONSymbol":
+                return "string";
+            case "UUID":
+                return "Binary";
+            default:
+                return bsonType;
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { IKMSProvider } from "./kms";
+import { IKeyVault, TEncryptionMode } from "./schema";
+
+/**
+ * Settings of the mirage command-line tool, merged from flags, environment variables and a config file
+ */
+export interface ICliConfig {
+    mongoUri?: string;
+    keyVault?: IKeyVault;
+    kmsProviders?: IKMSProvider | IKMSProvider[];
+    /**
+     * File holding a base64 local master key; adds a local KMS provider
+     */
+    localKeyFile?: string;
+    /**
+     * Passphrase of a protected local key file; read from MIRAGE_LOCAL_KEY_PASSPHRASE only
+     */
+    localKeyPassphrase?: string;
+    cryptSharedLibPath?: string;
+    /**
+     * Default schema file for the schema commands
+     */
+    schema?: string;
+    mode?: TEncryptionMode;
+}
+
+/**
+ * Where the command-line tool reads its environment and writes its output
+ */
+export interface ICliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    env: Record<string, string | undefined>;
+    cwd: string;
+}
+
+/**
+ * Result of one doctor check
+ */
+export interface IDoctorCheck {
+    name: string;
+    ok: boolean;
+    message: string;
+}
@@ -39,4 +39,5 @@ export interface IMasterKeyConfig {
     location?: string;
     keyRing?: string;
     keyId?: string;
+    delegated?: boolean;
 }
@@ -1,6 +1,6 @@
-import { MongoClient } from "mongodb";
+import { Binary, Filter, MongoClient } from "mongodb";
 import { IKMSProvider } from "./kms";
-import { IKeyVault } from "./schema";
+import { IKeyVault, IKeyVaultDocument } from "./schema";
 
 /**
  * Manager for Data Encryption Keys (DEKs) used in MongoDB Client-Side Field Level Encryption
@@ -17,26 +17,128 @@ export declare class DekManager {
      * @param mongoClient - MongoDB client instance for database operations
      * @param keyVaultNamespace - String in the format "database.collection" where encryption keys are stored
      * @param keyVault - Configuration for the key vault
-     * @param kmsProvider - Key Management Service provider configuration
+     * @param kmsProvider - Key Management Service provider configuration, or several providers; the first one wraps new DEKs by default
+     * @param options - Connection handling options
      */
-    constructor(mongoClient: MongoClient, keyVaultNamespace: string, keyVault: IKeyVault, kmsProvider: IKMSProvider);
+    constructor(mongoClient: MongoClient, keyVaultNamespace: string, keyVault: IKeyVault, kmsProvider: IKMSProvider | IKMSProvider[], options?: IDekManagerOptions);
 
     /**
-     * Gets or creates a Data Encryption Key (DEK) for a field
+     * Returns the names of the configured KMS providers, e.g. ["aws:eu", "aws:us"]
+     * 
+     * @returns KMS provider names, the default provider first
+     */
+    getKmsProviderNames(): string[];
+
+    /**
+     * Gets or creates a Data Encryption Key (DEK) for a field. If another process creates the
+     * same DEK concurrently, the one stored first is returned.
      * 
      * @param fieldKeyAltName - Alternative name for the key, typically in format "collectionName.fieldName"
+     * @param kmsProvider - Name of the KMS provider that wraps a newly created DEK
      * @returns Promise resolving to the DEK ID as a base64 string
      */
-    getDEK(fieldKeyAltName: string): Promise<string>;
+    getDEK(fieldKeyAltName: string, kmsProvider?: string): Promise<string>;
 
     /**
-     * Returns the kmsProviders configuration expected by ClientEncryption
+     * Gets or creates DEKs for many fields using one connection and bounded concurrency
      * 
-     * @param provider - Key Management Service provider configuration
-     * @returns Configuration object for the specified KMS provider
-     * @private
+     * @param fieldKeyAltNames - Alternative names for the keys
+     * @param options - Batch options
+     * @returns Promise resolving to a map of alternate name to DEK ID
+     */
+    getDEKs(fieldKeyAltNames: string[], options?: IGetDEKsOptions): Promise<Map<string, Binary>>;
+
+    /**
+     * Provisions one DEK per tenant, keyed by the tenant ID as alternate name
+     * 
+     * @param tenantIds - IDs of the tenants to provision
+     * @param options - Batch options
+     * @returns Promise resolving to a map of tenant ID to DEK ID
+     */
+    provisionTenantDEKs(tenantIds: string[], options?: IGetDEKsOptions): Promise<Map<string, Binary>>;
+
+    /**
+     * Rewraps every matching DEK under the master key of a new KMS provider
+     * 
+     * @param filter - Key vault filter selecting the DEKs to rewrap ({} for all)
+     * @param newProvider - KMS provider holding the new customer master key
+     * @returns Promise resolving to a per-key rotation report
+     */
+    rotateMasterKey(filter: Filter<IKeyVaultDocument>, newProvider: IKMSProvider): Promise<IRotateMasterKeyResult>;
+
+    /**
+     * Ensures the key vault has a unique partial index on keyAltNames, so concurrent processes
+     * can't create two DEKs with the same alternate name
+     * 
+     * @returns Promise resolving once the index exists
+     */
+    ensureKeyVaultIndex(): Promise<void>;
+
+    /**
+     * Inspects the key vault without changing it: its DEK count, the keyAltNames index and one
+     * DEK per configured KMS provider
+     * 
+     * @returns Promise resolving to the key vault status
+     */
+    inspectKeyVault(): Promise<IKeyVaultStatus>;
+
+    /**
+     * Lists the DEKs in the key vault
+     * 
+     * @param filter - Optional key vault filter
+     * @returns Promise resolving to the matching key vault documents
+     */
+    listKeys(filter?: Filter<IKeyVaultDocument>): Promise<IKeyVaultDocument[]>;
+
+    /**
+     * Gets a DEK by one of its alternate names
+     * 
+     * @param keyAltName - Alternate name of the DEK
+     * @returns Promise resolving to the key vault document or null
      */
-    private getKmsProviderConfig(provider: IKMSProvider): Record<string, any>;
+    getKeyByAltName(keyAltName: string): Promise<IKeyVaultDocument | null>;
+
+    /**
+     * Gets a DEK by its id
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @returns Promise resolving to the key vault document or null
+     */
+    getKeyById(keyId: Binary | string): Promise<IKeyVaultDocument | null>;
+
+    /**
+     * Checks which of the given DEKs no longer exist, with a single key vault query
+     * 
+     * @param keyIds - DEK ids
+     * @returns Promise resolving to the ids missing from the key vault
+     */
+    findMissingKeys(keyIds: Binary[]): Promise<Binary[]>;
+
+    /**
+     * Adds an alternate name to a DEK
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @param keyAltName - Alternate name to add
+     * @returns Promise resolving to the updated key vault document or null
+     */
+    addKeyAltName(keyId: Binary | string, keyAltName: string): Promise<IKeyVaultDocument | null>;
+
+    /**
+     * Removes an alternate name from a DEK
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @param keyAltName - Alternate name to remove
+     * @returns Promise resolving to the updated key vault document or null
+     */
+    removeKeyAltName(keyId: Binary | string, keyAltName: string): Promise<IKeyVaultDocument | null>;
+
+    /**
+     * Deletes a DEK
+     * 
+     * @param keyId - DEK id as a Binary or UUID string
+     * @returns Promise resolving to the deleted key vault document or null
+     */
+    deleteKey(keyId: Binary | string): Promise<IKeyVaultDocument | null>;
 
     /**
      * Returns the masterKey for createDataKey based on the KMS provider
@@ -47,3 +149,63 @@ export declare class DekManager {
      */
     private getMasterKey(provider: IKMSProvider): Record<string, any> | undefined;
 }
+
+/**
+ * Options for the DekManager constructor
+ */
+export interface IDekManagerOptions {
+    /**
+     * Leave the client connected after each operation, for clients whose lifecycle the caller
+     * manages (default false: every operation connects and closes the client)
+     */
+    keepConnected?: boolean;
+}
+
+/**
+ * Options for DekManager.getDEKs
+ */
+export interface IGetDEKsOptions {
+    /**
+     * Maximum number of DEKs created in parallel (default 8)
+     */
+    concurrency?: number;
+    /**
+     * Name of the KMS provider that wraps newly created DEKs, e.g. "aws:eu" (defaults to the first provider)
+     */
+    kmsProvider?: string;
+}
+
+/**
+ * Rotation outcome for a single DEK
+ */
+export interface IRotatedKey {
+    keyId: Binary;
+    keyAltNames: string[];
+    previousProvider: string;
+    provider: string;
+    rewrapped: boolean;
+}
+
+/**
+ * Report returned by DekManager.rotateMasterKey
+ */
+export interface IRotateMasterKeyResult {
+    matchedCount: number;
+    modifiedCount: number;
+    keys: IRotatedKey[];
+}
+
+/**
+ * Key vault state reported by DekManager.inspectKeyVault
+ */
+export interface IKeyVaultStatus {
+    dekCount: number;
+    /**
+     * "missing" until DEK creation or ensureKeyVaultIndex creates the unique index
+     */
+    keyAltNamesIndex: "unique" | "nonUnique" | "missing";
+    /**
+     * The id of one DEK per configured KMS provider that wraps any, keyed by provider name
+     */
+    sampleKeyIds: Record<string, Binary>;
+}
\ No newline at end of file
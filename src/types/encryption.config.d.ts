@@ -1,5 +1,6 @@
-import { MongoClientOptions } from "mongodb";
+import { Binary, ClientEncryptionEncryptOptions, ClientEncryptionTlsOptions, CredentialProviders, MongoClientOptions, RangeOptions } from "mongodb";
 import { IKmsProviderConfig } from "./config";
+import { IEncryptedFieldsMap, TEncryptionMode, TQueryType } from "./schema";
 
 /**
  * MongoDB auto-encryption configuration options
@@ -7,10 +8,17 @@ import { IKmsProviderConfig } from "./config";
 export interface IAutoEncryptionOptions {
     keyVaultNamespace: string;
     kmsProviders: IKmsProviderConfig;
-    schemaMap: Record<string, any>;
+    credentialProviders?: CredentialProviders;
+    tlsOptions?: Record<string, ClientEncryptionTlsOptions>;
+    schemaMap?: Record<string, any>;
+    encryptedFieldsMap?: IEncryptedFieldsMap;
     extraOptions: {
-        cryptSharedLibPath: string;
+        cryptSharedLibPath?: string;
         cryptSharedLibRequired: boolean;
+        mongocryptdURI?: string;
+        mongocryptdBypassSpawn?: boolean;
+        mongocryptdSpawnPath?: string;
+        mongocryptdSpawnArgs?: string[];
     };
 }
 
@@ -20,3 +28,74 @@ export interface IAutoEncryptionOptions {
 export interface IEncryptionConfig extends MongoClientOptions {
     autoEncryption: IAutoEncryptionOptions;
 }
+
+/**
+ * Additional options for ServerEncryptionService
+ */
+export interface IServerEncryptionOptions {
+    /**
+     * Encryption mode. "csfle" (default) emits a schemaMap, "queryable" emits an
+     * encryptedFieldsMap for MongoDB Queryable Encryption.
+     */
+    mode?: TEncryptionMode;
+    /**
+     * Apply the CSFLE schema as a server-side $jsonSchema validator when initializing from a
+     * file (CSFLE mode only), so the server rejects plaintext writes from any client
+     */
+    enforceServerSchema?: boolean;
+    /**
+     * Lock file holding the schema generated from the schema file. initializeWithFile writes it when
+     * it doesn't exist; later it loads the schema from it with one batched check that its DEKs exist,
+     * and fails if the schema file changed since the lock file was generated.
+     */
+    schemaLockFile?: string;
+    /**
+     * What to do when no crypt_shared library is given or found: "none" (default) fails, "mongocryptd"
+     * lets automatic encryption use mongocryptd instead
+     */
+    cryptSharedFallback?: "none" | "mongocryptd";
+    /**
+     * How to reach or spawn mongocryptd when cryptSharedFallback is "mongocryptd"
+     */
+    mongocryptd?: IMongocryptdOptions;
+}
+
+/**
+ * mongocryptd settings, passed to the driver's automatic encryption
+ */
+export interface IMongocryptdOptions {
+    /**
+     * Connection string of mongocryptd (default "mongodb://localhost:27020")
+     */
+    uri?: string;
+    /**
+     * Connect to an already running mongocryptd instead of spawning one
+     */
+    bypassSpawn?: boolean;
+    /**
+     * Path to the mongocryptd executable (default: "mongocryptd" on the PATH)
+     */
+    spawnPath?: string;
+    /**
+     * Arguments for the spawned mongocryptd (default ["--idleShutdownTimeoutSecs", "60"])
+     */
+    spawnArgs?: string[];
+}
+
+/**
+ * Options for explicitly encrypting a single value
+ */
+export interface IExplicitEncryptOptions {
+    /**
+     * DEK id to encrypt with. Exactly one of keyId or keyAltName is required.
+     */
+    keyId?: Binary;
+    /**
+     * DEK alternate name to encrypt with. Exactly one of keyId or keyAltName is required.
+     */
+    keyAltName?: string;
+    algorithm: ClientEncryptionEncryptOptions["algorithm"];
+    contentionFactor?: number;
+    queryType?: TQueryType;
+    rangeOptions?: RangeOptions;
+}
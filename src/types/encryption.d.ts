@@ -1,6 +1,9 @@
-import { MongoClient, MongoClientOptions } from "mongodb";
+import { Binary, Document, MongoClient, MongoClientOptions } from "mongodb";
 import { IKMSProvider } from "./kms";
-import { IEncryptionSchema, IKeyVault, TCryptSharedFilePath, TSchemaFilePath } from "./schema";
+import { IEncryptedFieldsMap, IEncryptionSchema, IKeyVault, TCryptSharedFilePath, TEncryptionMode, TSchemaFilePath } from "./schema";
+import { IExplicitEncryptOptions, IServerEncryptionOptions } from "./encryption.config";
+import { ISchemaPlan, TSchemaLoader } from "./encryptionSchemaService";
+import { TMirageErrorCode } from "./errors";
 
 /**
  * Service for managing MongoDB client-side field level encryption
@@ -10,18 +13,22 @@ export declare class ServerEncryptionService {
      * Creates a new ServerEncryptionService instance
      * 
      * @param mongoUri - MongoDB connection URI
-     * @param kmsProvider - Key Management Service provider configuration
+     * @param kmsProvider - Key Management Service provider configuration, or several (optionally named) providers
      * @param keyVault - Key vault configuration for storing encryption keys
-     * @param cryptSharedFilePath - Path to the crypt_shared library file
+     * @param cryptSharedFilePath - Path to the crypt_shared library file; if omitted, taken from
+     * MIRAGE_CRYPT_SHARED_LIB or found in ./config, ./lib or the system library directories
      * @param options - Optional MongoDB client options
+     * @param encryptionOptions - Optional encryption options, such as the encryption mode
      */
-    constructor(mongoUri: string, kmsProvider: IKMSProvider, keyVault: IKeyVault, cryptSharedFilePath: TCryptSharedFilePath, options?: MongoClientOptions);    /**
-     * Initialize encryption with schema loaded from a file
+    constructor(mongoUri: string, kmsProvider: IKMSProvider | IKMSProvider[], keyVault: IKeyVault, cryptSharedFilePath?: TCryptSharedFilePath, options?: MongoClientOptions, encryptionOptions?: IServerEncryptionOptions);    /**
+     * Initialize encryption with schema loaded from a file. Secret sources of the KMS providers,
+     * including async resolvers, are resolved first.
      * 
-     * @param schemaFilePath - Path to the schema definition file
-     * @param schemaLoader - Optional custom loader function for the schema
+     * @param schemaFilePath - Path to the schema definition file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+     * @param schemaLoader - Optional custom loader, possibly async, returning the simple schema format
+     * (DEKs are provisioned) or a complete CSFLE schema map (used as is, CSFLE mode only)
      */
-    public initializeWithFile(schemaFilePath: TSchemaFilePath, schemaLoader?: (file: string) => IEncryptionSchema): Promise<void>;
+    public initializeWithFile(schemaFilePath: TSchemaFilePath, schemaLoader?: TSchemaLoader | ((file: string) => IEncryptionSchema)): Promise<void>;
 
     /**
      * Initialize encryption with an in-memory schema object
@@ -30,6 +37,25 @@ export declare class ServerEncryptionService {
      */
     public initializeWithSchema(schema: IEncryptionSchema): void;
 
+    /**
+     * Initialize Queryable Encryption with an in-memory encryptedFieldsMap
+     * 
+     * @param encryptedFieldsMap - Encrypted fields per namespace
+     */
+    public initializeWithEncryptedFields(encryptedFieldsMap: IEncryptedFieldsMap): void;
+
+    /**
+     * Create the encrypted collections described by the encryptedFieldsMap if they don't exist
+     */
+    public createEncryptedCollections(): Promise<void>;
+
+    /**
+     * Get the encryption mode the service was created with
+     * 
+     * @returns "csfle" or "queryable"
+     */
+    public getMode(): TEncryptionMode;
+
     /**
      * Get the configured MongoDB client with encryption enabled
      * 
@@ -45,4 +71,207 @@ export declare class ServerEncryptionService {
      * @throws Error if schema is not initialized
      */
     public getSchema(): IEncryptionSchema;
+
+    /**
+     * Get the Queryable Encryption encryptedFieldsMap
+     * 
+     * @returns The encrypted fields per namespace
+     * @throws Error if the encryptedFieldsMap is not initialized
+     */
+    public getEncryptedFieldsMap(): IEncryptedFieldsMap;
+
+    /**
+     * Previews what initializeWithFile would do to the key vault, without writing to it
+     * 
+     * @param schemaFilePath - Path to the schema definition file
+     * @param schemaLoader - Optional loader returning the simple schema format
+     * @returns Promise resolving to the plan
+     */
+    public plan(schemaFilePath: TSchemaFilePath, schemaLoader?: TSchemaLoader): Promise<ISchemaPlan>;
+
+    /**
+     * Apply the CSFLE schema of every namespace as a server-side $jsonSchema validator,
+     * creating missing collections and updating drifted ones
+     * 
+     * @param options - Validation level and action
+     * @returns Promise resolving to what was done per namespace
+     */
+    public applyServerSchema(options?: IServerSchemaOptions): Promise<IServerSchemaResult[]>;
+
+    /**
+     * Compare the server-side validators with the local CSFLE schema without changing them
+     * 
+     * @param options - Expected validation level and action
+     * @returns Promise resolving to the drift per namespace
+     */
+    public checkServerSchema(options?: IServerSchemaOptions): Promise<IServerSchemaDrift[]>;
+
+    /**
+     * Check the crypt_shared library, the key vault, each KMS provider, the schema's DEKs and an
+     * encrypt/decrypt round trip per namespace. Failures are reported rather than thrown.
+     * 
+     * @param options - Per-check timeout and whether a throwaway DEK may be created
+     * @returns Promise resolving to the report; ok is false if any check failed
+     */
+    public diagnose(options?: IDiagnoseOptions): Promise<IDiagnosticReport>;
+
+    /**
+     * Explicitly encrypt a single value with a DEK selected by keyId or keyAltName
+     * 
+     * @param value - Value to encrypt
+     * @param options - DEK and algorithm to encrypt with
+     * @returns The encrypted value as a BSON Binary
+     */
+    public encryptValue(value: unknown, options: IExplicitEncryptOptions): Promise<Binary>;
+
+    /**
+     * Explicitly decrypt a single encrypted value
+     * 
+     * @param value - Encrypted BSON Binary
+     * @returns The decrypted value
+     */
+    public decryptValue<T = any>(value: Binary): Promise<T>;
+
+    /**
+     * Decrypt every encrypted value in a document, including nested objects and arrays
+     * 
+     * @param document - Document containing encrypted values
+     * @returns A copy of the document with all values decrypted
+     */
+    public decryptDocument<T extends Document = Document>(document: Document): Promise<T>;
+
+    /**
+     * Connect the internal key vault client and, once initialized, the encrypted client, and keep
+     * them connected until close() instead of connecting per operation
+     */
+    public connect(): Promise<void>;
+
+    /**
+     * Close both clients and drop the cached ClientEncryption. Safe to call more than once.
+     */
+    public close(): Promise<void>;
+
+    /**
+     * Close the service on `await using`
+     */
+    public [Symbol.asyncDispose](): Promise<void>;
+}
+
+/**
+ * Options for server-side $jsonSchema enforcement
+ */
+export interface IServerSchemaOptions {
+    /**
+     * Which writes the server validates (default "strict")
+     */
+    validationLevel?: "strict" | "moderate";
+    /**
+     * Whether invalid writes are rejected or only logged (default "error")
+     */
+    validationAction?: "error" | "warn";
+}
+
+/**
+ * State of a collection's server-side validator compared with the local schema
+ */
+export type TServerSchemaStatus = "inSync" | "missingCollection" | "missingValidator" | "drifted";
+
+/**
+ * A value that differs between the local and server-side schemas
+ */
+export interface IServerSchemaDifference {
+    /**
+     * Dotted path, e.g. "validator.$jsonSchema.properties.ssn.encrypt.algorithm"
+     */
+    path: string;
+    /**
+     * Local value, absent if only the server has it
+     */
+    expected?: unknown;
+    /**
+     * Server-side value, absent if only the local schema has it
+     */
+    actual?: unknown;
+}
+
+/**
+ * Drift between the local schema and the server-side validator of a namespace
+ */
+export interface IServerSchemaDrift {
+    namespace: string;
+    status: TServerSchemaStatus;
+    differences: IServerSchemaDifference[];
+}
+
+/**
+ * What applyServerSchema did to a namespace
+ */
+export interface IServerSchemaResult {
+    namespace: string;
+    action: "created" | "updated" | "unchanged";
+    /**
+     * Drift found before the change
+     */
+    drift: IServerSchemaDrift;
+}
+
+/**
+ * Checks run by diagnose, in order
+ */
+export type TDiagnosticCheckName = "cryptShared" | "keyVault" | "kms" | "schemaKeys" | "probe";
+
+/**
+ * Outcome of a diagnostic check. Only "failed" makes the report not ok.
+ */
+export type TDiagnosticStatus = "ok" | "warning" | "failed" | "skipped";
+
+/**
+ * Result of a single diagnostic check
+ */
+export interface IDiagnosticCheck {
+    name: TDiagnosticCheckName;
+    /**
+     * KMS provider name for "kms" checks, namespace for "probe" checks
+     */
+    target?: string;
+    status: TDiagnosticStatus;
+    message: string;
+    /**
+     * Error code of a failed check, if the error was a MirageEncryptionError
+     */
+    code?: TMirageErrorCode;
+    /**
+     * Facts gathered by the check, e.g. the crypt_shared version or the key vault DEK count
+     */
+    details?: Record<string, string | number>;
+    durationMs: number;
+}
+
+/**
+ * Report returned by diagnose
+ */
+export interface IDiagnosticReport {
+    /**
+     * true if no check failed
+     */
+    ok: boolean;
+    mode: TEncryptionMode;
+    checkedAt: Date;
+    durationMs: number;
+    checks: IDiagnosticCheck[];
+}
+
+/**
+ * Options for diagnose
+ */
+export interface IDiagnoseOptions {
+    /**
+     * Time limit per check in milliseconds (default 10000)
+     */
+    timeoutMS?: number;
+    /**
+     * Create, use and delete a throwaway DEK for KMS providers that wrap no DEK yet (default false,
+     * which skips those providers)
+     */
+    createProbeKey?: boolean;
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { DekManager } from "../dekManager";
-import { IEncryptionSchema, TSchemaFilePath } from "./schema";
+import { Binary } from "mongodb";
+import { IEncryptedFieldsMap, IEncryptionSchema, TBsonType, TEncryptionMode, TQueryType, TSchemaFilePath } from "./schema";
 import { EEncryptionAlgorithm } from "../enums/enums";
 
 /**
@@ -16,18 +17,211 @@ export declare class EncryptionSchemaService {
     /**
      * Generates a CSFLE schema map by reading a schema file and ensuring DEKs exist for each field
      * 
-     * @param schemaFilePath - Path to the schema definition file
-     * @param algorithm - Optional encryption algorithm to use (defaults to AEAD_AES_256_CBC_HMAC_SHA_512_Deterministic)
+     * @param schemaFilePath - Path to the schema definition file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+     * @param loader - Optional loader that reads the file into the simple schema format
      * @returns Promise resolving to the generated encryption schema
      */
     generateCSFLESchema(
         schemaFilePath: TSchemaFilePath,
-        algorithm?: EEncryptionAlgorithm
+        loader?: TSchemaLoader
     ): Promise<IEncryptionSchema>;
+
+    /**
+     * Generates a Queryable Encryption encryptedFieldsMap by reading a schema file and ensuring
+     * a DEK exists for each field
+     * 
+     * @param schemaFilePath - Path to the schema definition file (.json, .yaml, .yml, .js, .cjs, .mjs or .ts)
+     * @param loader - Optional loader that reads the file into the simple schema format
+     * @returns Promise resolving to the generated encryptedFieldsMap
+     */
+    generateEncryptedFieldsMap(schemaFilePath: TSchemaFilePath, loader?: TSchemaLoader): Promise<IEncryptedFieldsMap>;
+
+    /**
+     * Checks a schema file for an encryption mode without touching the key vault
+     * 
+     * @param schemaFilePath - Path to the schema definition file
+     * @param options - Encryption mode and optional loader
+     * @returns Promise resolving once the file is valid
+     */
+    validate(schemaFilePath: TSchemaFilePath, options?: ISchemaPlanOptions): Promise<void>;
+
+    /**
+     * Previews schema generation without writing to the key vault: which DEKs exist, which would be
+     * created and which key vault entries no longer match a field
+     * 
+     * @param schemaFilePath - Path to the schema definition file
+     * @param options - Encryption mode and optional loader
+     * @returns Promise resolving to the plan
+     */
+    plan(schemaFilePath: TSchemaFilePath, options?: ISchemaPlanOptions): Promise<ISchemaPlan>;
+
+    /**
+     * Generates the schema for a mode, creating missing DEKs, and wraps it in a lock that records
+     * the SHA-256 of the loaded schema
+     * 
+     * @param schemaFilePath - Path to the schema definition file
+     * @param options - Encryption mode and optional loader
+     * @returns Promise resolving to the lock, ready for writeSchemaLock
+     */
+    generateSchemaLock(schemaFilePath: TSchemaFilePath, options?: ISchemaPlanOptions): Promise<ISchemaLock>;
+}
+
+/**
+ * Algorithm names accepted in the simple schema format
+ */
+export type TFieldAlgorithm = "deterministic" | "random" | EEncryptionAlgorithm;
+
+/**
+ * Field definition in the simple schema format, used when a field needs more than a type
+ */
+export interface IFieldDefinition {
+    type: string;
+    /**
+     * CSFLE algorithm. Defaults to deterministic for types that support it, random otherwise.
+     */
+    algorithm?: TFieldAlgorithm;
+    /**
+     * CSFLE: true selects deterministic, false selects random encryption.
+     * Queryable Encryption: true is shorthand for queryType "equality".
+     */
+    queryable?: boolean;
+    queryType?: TQueryType;
+    contention?: number;
+    min?: any;
+    max?: any;
+    sparsity?: number;
+    trimFactor?: number;
+    precision?: number;
+    /**
+     * Name of the KMS provider that wraps the field's DEK, e.g. "aws:eu". Overrides the collection's kmsProvider.
+     */
+    kmsProvider?: string;
 }
 
 /**
  * Type definitions for schema structure
  */
-export type FieldMap = { [key: string]: string };
+export type FieldMap = { [key: string]: string | IFieldDefinition | FieldMap };
 export type CollectionSchema = { [collectionName: string]: FieldMap };
+
+/**
+ * Schema in the simple format: one entry per collection
+ */
+export type TSimpleSchema = CollectionSchema[];
+
+/**
+ * Loads a schema file into the simple format. May be asynchronous.
+ */
+export type TSchemaLoader = (filePath: string) => TSimpleSchema | Promise<TSimpleSchema>;
+
+/**
+ * 1-based line and column in a schema file
+ */
+export interface ISourcePosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * A loaded schema file together with the positions of its entries
+ */
+export interface ISchemaSource {
+    filePath: string;
+    collections: TSimpleSchema;
+    /**
+     * Finds the position of the entry at the given path, e.g. [0, "users", "ssn"].
+     * Returns undefined when positions are unknown, as for modules and custom loaders.
+     */
+    locate(path: Array<string | number>): ISourcePosition | undefined;
+}
+
+/**
+ * Options for EncryptionSchemaService.plan
+ */
+export interface ISchemaPlanOptions {
+    /**
+     * Encryption mode the schema would be generated for (default "csfle")
+     */
+    mode?: TEncryptionMode;
+    loader?: TSchemaLoader;
+}
+
+/**
+ * What schema generation would do with a field's DEK: reuse an existing one, create one, or
+ * nothing because DEKs are provisioned per tenant through a keyAltName pointer
+ */
+export type TPlannedDEKAction = "existing" | "create" | "perTenant";
+
+/**
+ * Planned encryption of a single field
+ */
+export interface IPlannedField {
+    collection: string;
+    /**
+     * Dotted path of the field within the collection
+     */
+    path: string;
+    /**
+     * Alternate name of the field's DEK, or the keyAltName pointer for per-tenant DEKs
+     */
+    keyAltName: string;
+    bsonType: TBsonType;
+    /**
+     * CSFLE algorithm (CSFLE mode only)
+     */
+    algorithm?: EEncryptionAlgorithm;
+    /**
+     * Query type, undefined for unqueryable fields (queryable mode only)
+     */
+    queryType?: TQueryType;
+    /**
+     * KMS provider that wraps a newly created DEK; undefined for per-tenant DEKs
+     */
+    kmsProvider?: string;
+    action: TPlannedDEKAction;
+    /**
+     * ID of the existing DEK
+     */
+    keyId?: Binary;
+}
+
+/**
+ * Key vault entry whose alternate names fall under a database in the schema but match no field
+ */
+export interface IOrphanedKey {
+    keyId: Binary;
+    keyAltNames: string[];
+    kmsProvider: string;
+}
+
+/**
+ * Report returned by EncryptionSchemaService.plan
+ */
+export interface ISchemaPlan {
+    mode: TEncryptionMode;
+    fields: IPlannedField[];
+    orphanedKeys: IOrphanedKey[];
+    summary: {
+        existing: number;
+        create: number;
+        perTenant: number;
+        orphaned: number;
+    };
+}
+
+/**
+ * Generated schema stored in a lock file, so later startups can skip the per-field key vault lookups
+ */
+export interface ISchemaLock {
+    format: "mirage-schema-lock";
+    version: 1;
+    mode: TEncryptionMode;
+    /**
+     * SHA-256 (hex) of the schema the lock was generated from, as loaded and serialized to canonical Extended JSON
+     */
+    sourceHash: string;
+    /**
+     * The schemaMap in csfle mode, the encryptedFieldsMap in queryable mode
+     */
+    schema: IEncryptionSchema | IEncryptedFieldsMap;
+}
@@ -0,0 +1,77 @@
+/**
+ * Stable, machine-readable error codes. Branch and alert on these rather than on error messages,
+ * which may change between releases.
+ */
+export type TMirageErrorCode =
+    // Defaults of the error classes
+    | "MIRAGE_ERROR"
+    | "CONFIGURATION_INVALID"
+    | "VALIDATION_FAILED"
+    | "ENCRYPTION_FAILED"
+    | "SCHEMA_INVALID"
+    | "KMS_ERROR"
+    // Configuration
+    | "NOT_INITIALIZED"
+    | "FILE_NOT_FOUND"
+    | "SCHEMA_LOCK_STALE"
+    | "CRYPT_SHARED_INVALID"
+    // KMS
+    | "KMS_AUTH_FAILED"
+    | "KMS_UNAVAILABLE"
+    | "KMS_PROVIDER_UNKNOWN"
+    | "KMS_CREDENTIALS_UNAVAILABLE"
+    | "KMS_SECRET_UNRESOLVED"
+    // DEKs and the key vault
+    | "DEK_NOT_FOUND"
+    | "DEK_ID_INVALID"
+    | "KEY_VAULT_INDEX_INVALID"
+    // Explicit encryption
+    | "DECRYPTION_FAILED"
+    // Schemas
+    | "SCHEMA_INVALID_TYPE"
+    | "SCHEMA_INVALID_KEY_ID"
+    | "SCHEMA_INVALID_ALGORITHM"
+    | "SCHEMA_INVALID_PATTERN"
+    | "SCHEMA_INVALID_QUERY"
+    | "SCHEMA_UNKNOWN_KEYWORD"
+    | "SCHEMA_ENCRYPTED_ID"
+    | "SCHEMA_DUPLICATE_FIELD";
+
+/**
+ * What an error is about. Only the properties that apply are set.
+ */
+export interface IMirageErrorContext {
+    /**
+     * Collection namespace, "database.collection"
+     */
+    namespace?: string;
+    /**
+     * Dotted path of the field within its documents
+     */
+    fieldPath?: string;
+    /**
+     * KMS provider name, e.g. "aws" or "aws:eu"
+     */
+    provider?: string;
+    keyAltName?: string;
+    /**
+     * DEK id as a UUID string
+     */
+    keyId?: string;
+    filePath?: string;
+}
+
+export interface IMirageErrorOptions {
+    /**
+     * Error code; defaults to the code of a mirage error given as cause, then to the default of the error class
+     */
+    code?: TMirageErrorCode;
+    /**
+     * Underlying error, available as `error.cause`
+     */
+    cause?: unknown;
+    /**
+     * Merged over the context of a mirage error given as cause
+     */
+    context?: IMirageErrorContext;
+}
\ No newline at end of file
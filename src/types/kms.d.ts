@@ -6,23 +6,125 @@ export type IKMSProvider =
     | IGcpKMSProvider
     | IKmipKMSProvider;
 
+// ---------- COMMON ----------
+export interface IKMSProviderBase {
+    /**
+     * Optional name for configuring several providers of the same type, e.g. "eu" for "aws:eu".
+     * Letters, digits and underscores only.
+     */
+    name?: string;
+    /**
+     * TLS options for connections to the KMS, e.g. mutual TLS for KMIP or private Azure/GCP endpoints
+     */
+    tlsOptions?: IKmsTlsOptions;
+}
+
+// ---------- TLS ----------
+export interface IKmsTlsOptions {
+    /**
+     * Path to a PEM file with the certificate authorities trusted for the KMS endpoint
+     */
+    tlsCAFile?: string;
+    /**
+     * Path to a PEM file with the client certificate and its private key
+     */
+    tlsCertificateKeyFile?: string;
+    /**
+     * Password for an encrypted client private key
+     */
+    tlsCertificateKeyFilePassword?: TSecret;
+}
+
+// ---------- SECRETS ----------
+/**
+ * Callback that returns a secret, e.g. from a secrets manager
+ */
+export type TSecretResolver = () => string | Promise<string>;
+
+/**
+ * Where a secret is read from instead of being given as a plain string:
+ * - `{ fromEnv: "NAME" }` reads an environment variable
+ * - `{ fromFile: "path" }` reads a file, without its trailing line break
+ * - `{ fromSecret: "name" }` reads a Docker or Kubernetes secret mount, /run/secrets/name unless `mountPath` is set
+ * - a resolver callback, possibly async
+ */
+export type TSecretSource =
+    | { fromEnv: string }
+    | { fromFile: string }
+    | { fromSecret: string; mountPath?: string }
+    | TSecretResolver;
+
+/**
+ * A secret given as a plain string or as a secret source. Sources are resolved when the
+ * service initializes, and resolved values are redacted from error messages.
+ */
+export type TSecret = string | TSecretSource;
+
+/**
+ * Static credentials whose fields may be given as secret sources
+ */
+export type TSecretFields<T> = { [K in keyof T]: T[K] | TSecretSource };
+
+// ---------- CREDENTIALS ----------
+/**
+ * Credentials returned by a credential provider. When `expiration` is set they are cached
+ * and fetched again shortly before they expire.
+ */
+export type TKmsCredentials<T> = T & { expiration?: Date };
+
+/**
+ * Callback that fetches KMS credentials, e.g. from an instance role or a secrets manager
+ */
+export type TKmsCredentialProvider<T> = () => TKmsCredentials<T> | Promise<TKmsCredentials<T>>;
+
+/**
+ * Where a cloud KMS provider gets its credentials from when no static credentials are given.
+ * "onDemand" lets the driver fetch them from the environment (AWS SDK credential chain,
+ * GCP metadata server or Azure IMDS); it is only supported for unnamed providers.
+ */
+export type TKmsCredentialSource<T> = "onDemand" | TKmsCredentialProvider<T>;
+
+export interface IAwsCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}
+
+export type TAzureCredentials =
+    | { clientId: string; clientSecret: string; tenantId: string }
+    | { accessToken: string };
+
+export type TGcpCredentials =
+    | { email: string; privateKey: string }
+    | { accessToken: string };
+
+/**
+ * Options for the environment variable credential providers
+ */
+export interface IEnvCredentialOptions {
+    /**
+     * Prefix for the variable names, e.g. "EU_" reads EU_AWS_ACCESS_KEY_ID. Useful for named providers.
+     */
+    prefix?: string;
+}
+
 // ---------- LOCAL ----------
-export interface ILocalKMSProvider {
+export interface ILocalKMSProvider extends IKMSProviderBase {
     type: "local";
     local: {
-        key: string;
+        key: TSecret;
     };
     masterKey?: never; // local does not require masterKey
 }
 
 // ---------- AWS ----------
-export interface IAwsKMSProvider {
+export interface IAwsKMSProvider extends IKMSProviderBase {
     type: "aws";
-    aws: {
-        accessKeyId: string;
-        secretAccessKey: string;
-        sessionToken?: string;
-    };
+    /**
+     * Static credentials. Exactly one of aws or credentials is required.
+     */
+    aws?: TSecretFields<IAwsCredentials>;
+    credentials?: TKmsCredentialSource<IAwsCredentials>;
     masterKey: {
         region: string;
         key: string;
@@ -31,13 +133,17 @@ export interface IAwsKMSProvider {
 }
 
 // ---------- AZURE ----------
-export interface IAzureKMSProvider {
+export interface IAzureKMSProvider extends IKMSProviderBase {
     type: "azure";
-    azure: {
+    /**
+     * Static credentials. Exactly one of azure or credentials is required.
+     */
+    azure?: TSecretFields<{
         clientId: string;
         clientSecret: string;
         tenantId: string;
-    };
+    }>;
+    credentials?: TKmsCredentialSource<TAzureCredentials>;
     masterKey: {
         keyVaultEndpoint: string;
         keyName: string;
@@ -46,12 +152,16 @@ export interface IAzureKMSProvider {
 }
 
 // ---------- GCP ----------
-export interface IGcpKMSProvider {
+export interface IGcpKMSProvider extends IKMSProviderBase {
     type: "gcp";
-    gcp: {
+    /**
+     * Static credentials. Exactly one of gcp or credentials is required.
+     */
+    gcp?: TSecretFields<{
         email: string;
         privateKey: string;
-    };
+    }>;
+    credentials?: TKmsCredentialSource<TGcpCredentials>;
     masterKey: {
         projectId: string;
         location: string;
@@ -63,12 +173,23 @@ export interface IGcpKMSProvider {
 }
 
 // ---------- KMIP ----------
-export interface IKmipKMSProvider {
+export interface IKmipKMSProvider extends IKMSProviderBase {
     type: "kmip";
     kmip: {
         endpoint: string;
     };
     masterKey?: {
+        /**
+         * KMIP unique identifier of a 96 byte secret data object. A new one is created when omitted.
+         */
         keyId?: string;
+        /**
+         * Endpoint overriding kmip.endpoint for this key
+         */
+        endpoint?: string;
+        /**
+         * Let the KMIP server encrypt and decrypt the DEK instead of returning the key material
+         */
+        delegated?: boolean;
     };
 }
@@ -0,0 +1,157 @@
+import { Binary, MongoClient } from "mongodb";
+import { EEncryptionAlgorithm } from "../enums/enums";
+import { ServerEncryptionService } from "../encryption";
+
+/**
+ * Migrates existing documents of encrypted collections
+ */
+export declare class MigrationService {
+    /**
+     * Creates a new MigrationService instance
+     * 
+     * @param encryptionService - Initialized encryption service whose schema and encrypted client are used
+     * @param plainClient - MongoDB client without auto-encryption, used to read raw documents and store checkpoints
+     */
+    constructor(encryptionService: ServerEncryptionService, plainClient: MongoClient);
+
+    /**
+     * Encrypts documents that still hold plaintext in fields the schema encrypts, resuming from the last checkpoint
+     * 
+     * @param namespace - Collection namespace ("database.collection")
+     * @param options - Batch, throttle and checkpoint options
+     * @returns Promise resolving to the counts of converted, skipped and failed documents
+     */
+    backfill(namespace: string, options?: IMigrationOptions): Promise<IMigrationResult>;
+
+    /**
+     * Re-encrypts ciphertext whose algorithm, DEK or BSON type no longer matches the schema, collection by collection
+     * 
+     * @param namespaces - Collection namespaces (defaults to every namespace in the schema)
+     * @param options - Batch, throttle, checkpoint and verification options
+     * @returns Promise resolving to one result per namespace
+     */
+    rekey(namespaces?: string | string[], options?: IRekeyOptions): Promise<IRekeyResult[]>;
+}
+
+/**
+ * Options for MigrationService migrations
+ */
+export interface IMigrationOptions {
+    /**
+     * Documents read per batch (default 100)
+     */
+    batchSize?: number;
+    /**
+     * Upper bound on documents processed per second; unlimited when omitted
+     */
+    maxDocumentsPerSecond?: number;
+    /**
+     * Checkpoint id (defaults to "backfill:<namespace>")
+     */
+    migrationId?: string;
+    /**
+     * Collection in the migrated collection's database that stores checkpoints (default "mirage_migrations")
+     */
+    checkpointCollection?: string;
+    /**
+     * Ignore an existing checkpoint and start from the first document
+     */
+    restart?: boolean;
+    /**
+     * Called after every batch
+     */
+    onProgress?: (progress: IMigrationProgress) => void;
+}
+
+/**
+ * Progress of a migration, saved after every batch
+ */
+export interface IMigrationProgress {
+    migrationId: string;
+    namespace: string;
+    converted: number;
+    skipped: number;
+    failed: number;
+    /**
+     * _id of the last document processed; the migration resumes after it
+     */
+    lastId?: unknown;
+}
+
+/**
+ * A document that could not be migrated
+ */
+export interface IMigrationFailure {
+    _id: unknown;
+    error: string;
+}
+
+/**
+ * Result of a migration
+ */
+export interface IMigrationResult extends IMigrationProgress {
+    /**
+     * Whether the migration continued from a saved checkpoint
+     */
+    resumed: boolean;
+    /**
+     * The first failures, up to 100
+     */
+    failures: IMigrationFailure[];
+    durationMs: number;
+}
+
+/**
+ * Checkpoint document stored in the checkpoint collection
+ */
+export interface IMigrationCheckpoint extends IMigrationProgress {
+    _id: string;
+    failures: IMigrationFailure[];
+    updatedAt: Date;
+    completedAt?: Date;
+}
+
+/**
+ * Options for MigrationService.rekey
+ */
+export interface IRekeyOptions extends IMigrationOptions {
+    /**
+     * Checkpoint id prefix; each namespace uses "<migrationId>:<namespace>" (default "rekey")
+     */
+    migrationId?: string;
+    /**
+     * Walk each collection again afterwards and count documents that still don't match (default true)
+     */
+    verify?: boolean;
+}
+
+/**
+ * Outcome of the verification pass of a re-key
+ */
+export interface IRekeyVerification {
+    checked: number;
+    mismatched: number;
+    /**
+     * _ids of the first mismatched documents, up to 100
+     */
+    mismatchedIds: unknown[];
+}
+
+/**
+ * Result of a re-key for one namespace
+ */
+export interface IRekeyResult extends IMigrationResult {
+    verification?: IRekeyVerification;
+}
+
+/**
+ * How a CSFLE value was encrypted, read from its ciphertext header
+ */
+export interface ICiphertextInfo {
+    algorithm: EEncryptionAlgorithm;
+    keyId: Binary;
+    /**
+     * BSON type of the plaintext, e.g. "string"
+     */
+    bsonType: string;
+}
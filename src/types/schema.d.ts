@@ -2,6 +2,7 @@ import { EEncryptionAlgorithm } from "../enums/enums";
 
 export type TSchemaFilePath = string;
 export type TCryptSharedFilePath = string;
+export type TEncryptionMode = "csfle" | "queryable";
 
 export interface IKeyVault {
     database: string;
@@ -14,6 +15,7 @@ export interface IKeyVaultWithNameSpace extends IKeyVault {
 
 
 import { Binary } from "mongodb";
+import { TMirageErrorCode } from "./errors";
 
 export type TBsonType =
     | "double"
@@ -40,7 +42,10 @@ export type TBsonType =
 export interface IEncryptDefinition {
     bsonType: TBsonType;
     algorithm: string;
-    keyId: Binary[]
+    /**
+     * DEK ids, or a JSON pointer (e.g. "/tenantId") to a field holding the DEK's keyAltName
+     */
+    keyId: Binary[] | string
 }
 
 export interface IEncryptedField {
@@ -57,10 +62,65 @@ export type TProperties = IEncryptedField | ICollectionEncryptionSchema
 export type IEncryptionSchema = Record<string, ICollectionEncryptionSchema>;
 
 
+export interface IKeyVaultMasterKey {
+    provider: string;
+    [key: string]: any;
+}
+
 export interface IKeyVaultDocument {
     _id: Binary;
     keyMaterial: Binary;
     keyAltNames?: string[];
     creationDate?: Date;
     updateDate?: Date;
+    status?: number;
+    version?: number;
+    masterKey?: IKeyVaultMasterKey;
+}
+
+export type TQueryType = "equality" | "range";
+
+export interface IQueryableEncryptionQuery {
+    queryType: TQueryType;
+    contention?: number;
+    min?: any;
+    max?: any;
+    sparsity?: any;
+    trimFactor?: number;
+    precision?: number;
+}
+
+export interface IQueryableEncryptedField {
+    path: string;
+    bsonType: TBsonType;
+    keyId: Binary;
+    queries?: IQueryableEncryptionQuery | IQueryableEncryptionQuery[];
+}
+
+export interface ICollectionEncryptedFields {
+    fields: IQueryableEncryptedField[];
+}
+
+export type IEncryptedFieldsMap = Record<string, ICollectionEncryptedFields>;
+
+
+export type TSchemaIssueSeverity = "error" | "warning";
+
+export interface ISchemaValidationIssue {
+    /**
+     * JSON path of the offending value, e.g. `$["mydb.users"].properties.ssn.encrypt.keyId[0]`
+     */
+    path: string;
+    severity: TSchemaIssueSeverity;
+    code: TMirageErrorCode;
+    message: string;
+}
+
+export interface ISchemaValidationReport {
+    /**
+     * true when there are no errors; warnings don't make a schema invalid
+     */
+    valid: boolean;
+    errors: ISchemaValidationIssue[];
+    warnings: ISchemaValidationIssue[];
 }
\ No newline at end of file
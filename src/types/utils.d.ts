@@ -1,3 +1,7 @@
+import { TSecret, TSecretSource } from "./kms";
+import { Binary } from "mongodb";
+import { IEncryptedFieldsMap, IEncryptionSchema, ISchemaValidationReport, TEncryptionMode } from "./schema";
+
 /**
  * Checks if a file exists at the specified path.
  * @param filePath - The path to check for file existence
@@ -14,11 +18,32 @@ export declare function getMasterKey(): string;
 /**
  * Generate or retrieve a local master key for MongoDB CSFLE local KMS provider.
  * If the key already exists at the given path, read and return it.
- * Otherwise, generate a new one, save it, and return it.
+ * Otherwise, generate a new one, save it with mode 0600 without replacing a file created meanwhile, and return it.
+ * A passphrase for an existing key file that is not passphrase-protected is refused.
  * @param filePath - Path to save/read the local master key (default: "local-master-key.txt")
+ * @param options - Optional passphrase encrypting the key file at rest
  * @returns The base64-encoded master key
  */
-export declare function generateLocalKey(filePath?: string): string;
+export declare function generateLocalKey(filePath?: string, options?: ILocalKeyFileOptions): string;
+
+/**
+ * Read a local master key file, decrypting it if it is passphrase-protected, and check it is 96 bytes
+ * @param filePath - Path to the key file
+ * @param options - Passphrase, required for protected key files
+ * @returns The base64-encoded master key, usable as `local.key` of a local KMS provider
+ */
+export declare function loadLocalKey(filePath: string, options?: ILocalKeyFileOptions): string;
+
+/**
+ * Options for local master key files
+ */
+export interface ILocalKeyFileOptions {
+    /**
+     * Passphrase encrypting the key file with scrypt and AES-256-GCM. Applies to new files; existing
+     * unprotected files are read as they are.
+     */
+    passphrase?: string;
+}
 
 /**
  * Validates the given crypt_shared library path:
@@ -26,9 +51,120 @@ export declare function generateLocalKey(filePath?: string): string;
  *  - Checks file exists
  *  - Checks correct extension
  *  - Checks file header matches expected shared library format
+ *  - Checks the library is built for the architecture of this process, when the header names one
  *
  * @param libPath - Full path to the library file
  * @returns {string} - Returns validated path if correct
- * @throws {Error} - If invalid
+ * @throws {ValidationError} - If invalid
  */
 export declare function validateCryptSharedLib(libPath: string): string;
+
+/**
+ * Environment variable naming the crypt_shared library ("MIRAGE_CRYPT_SHARED_LIB")
+ */
+export declare const CRYPT_SHARED_LIB_ENV: string;
+
+/**
+ * Get the crypt_shared library file name for a platform, e.g. "mongo_crypt_v1.so" on Linux
+ * @param platform - Platform, as returned by os.platform() (default: the current one)
+ * @returns The file name
+ */
+export declare function getCryptSharedLibFileName(platform?: NodeJS.Platform): string;
+
+/**
+ * List the standard locations of the crypt_shared library: ./config and ./lib, then the system library directories
+ * @param cwd - Directory the relative locations are resolved against (default: process.cwd())
+ * @returns Candidate file paths, in search order
+ */
+export declare function getCryptSharedLibSearchPaths(cwd?: string): string[];
+
+/**
+ * Find the crypt_shared library named by MIRAGE_CRYPT_SHARED_LIB, or else in the first standard location that has it
+ * @param cwd - Directory relative paths are resolved against (default: process.cwd())
+ * @returns Absolute path to the library, or undefined if none was found
+ * @throws {ValidationError} If MIRAGE_CRYPT_SHARED_LIB names a file that does not exist
+ */
+export declare function findCryptSharedLib(cwd?: string): string | undefined;
+
+/**
+ * Validate a crypt_shared library and load it to read its version, which must be at least 6.0 (7.0 in queryable mode)
+ * @param libPath - Path to the library file
+ * @param mode - Encryption mode the library is needed for (default: "csfle")
+ * @returns The absolute path, architecture and version of the library
+ * @throws {ValidationError} If the library is invalid, cannot be loaded or is too old
+ */
+export declare function inspectCryptSharedLib(libPath: string, mode?: TEncryptionMode): ICryptSharedLibInfo;
+
+/**
+ * A validated crypt_shared library
+ */
+export interface ICryptSharedLibInfo {
+    /**
+     * Absolute path to the library
+     */
+    path: string;
+    /**
+     * Architecture of the library and this process, e.g. "x64"
+     */
+    arch: string;
+    /**
+     * Version, e.g. "8.0.4"
+     */
+    version: string;
+    /**
+     * Version string reported by the library, e.g. "mongo_crypt_v1-8.0.4"
+     */
+    versionStr: string;
+}
+
+/**
+ * Validate a CSFLE schema and throw on its errors
+ * @param schema - Schema keyed by namespace
+ * @returns `true` if the schema has no errors
+ * @throws {SchemaError} If the schema has errors, listing all of them
+ */
+export declare function validateCSFLESchema(schema: IEncryptionSchema): boolean;
+
+/**
+ * Validate a CSFLE schema and collect all of its errors and warnings, each with the JSON path it is about
+ * @param schema - Schema keyed by namespace
+ * @returns The validation report; `valid` is `false` if there are errors
+ */
+export declare function validateSchemaDetailed(schema: IEncryptionSchema): ISchemaValidationReport;
+
+/**
+ * Collect the distinct DEK ids a CSFLE schema or encryptedFieldsMap refers to, skipping JSON pointer keyIds
+ * @param schema - Schema keyed by namespace
+ * @returns DEK ids, in order of first use
+ */
+export declare function collectSchemaKeyIds(schema: IEncryptionSchema | IEncryptedFieldsMap): Binary[];
+
+/**
+ * Resolve a secret given as a plain string or as a secret source ({ fromEnv }, { fromFile },
+ * { fromSecret } or a resolver callback). Resolved values are registered for redaction.
+ * @param secret - Secret or secret source
+ * @param label - What the secret is for, used in error messages
+ * @returns The secret value
+ * @throws {KMSError} If the source cannot be read or returns an empty value
+ */
+export declare function resolveSecret(secret: TSecret, label: string): Promise<string>;
+
+/**
+ * Check whether a value is a secret source rather than a plain secret
+ * @param value - Value to check
+ * @returns `true` for secret source objects and resolver callbacks
+ */
+export declare function isSecretSource(value: unknown): value is TSecretSource;
+
+/**
+ * Register a secret value so that it is redacted from error messages and from redactSecrets output
+ * @param value - Secret value; values shorter than 8 characters are ignored
+ */
+export declare function registerSecret(value: string): void;
+
+/**
+ * Replace every registered secret in a text with "[REDACTED]", e.g. before logging it
+ * @param text - Text that may contain secrets
+ * @returns The redacted text
+ */
+export declare function redactSecrets(text: string): string;
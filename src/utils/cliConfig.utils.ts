@@ -0,0 +1,186 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { parse } from "yaml";
+import { ConfigurationError } from "../errors/errors";
+import { loadLocalKey } from "./file.utils";
+import { ICliConfig, ICliIO } from "../types/cli";
+import { IKMSProvider } from "../types/kms";
+import { IKeyVault } from "../types/schema";
+
+const DEFAULT_CONFIG_FILES = ["mirage.config.json", "mirage.config.yaml", "mirage.config.yml"];
+const PATH_SETTINGS = ["localKeyFile", "cryptSharedLibPath", "schema"] as const;
+
+/**
+ * Settings given on the command line, as strings
+ */
+export interface ICliOverrides {
+    config?: string;
+    uri?: string;
+    keyVault?: string;
+    localKeyFile?: string;
+    cryptShared?: string;
+    schema?: string;
+    mode?: string;
+}
+
+/**
+ * Merges the command-line tool's settings. Flags win over environment variables (MIRAGE_MONGO_URI,
+ * MIRAGE_KEY_VAULT, MIRAGE_LOCAL_KEY_FILE, MIRAGE_CRYPT_SHARED_LIB, MIRAGE_SCHEMA, MIRAGE_MODE),
+ * which win over the config file. A protected local key file's passphrase is only read from
+ * MIRAGE_LOCAL_KEY_PASSPHRASE. The config file is --config, MIRAGE_CONFIG or a
+ * mirage.config.json/.yaml/.yml in the working directory; relative paths in it are resolved
+ * against its directory.
+ * 
+ * @param overrides - Settings from flags
+ * @param io - Environment and working directory
+ * @returns Merged settings
+ * @throws {ConfigurationError} If the config file cannot be read or a setting is invalid
+ */
+export function resolveCliConfig(overrides: ICliOverrides, io: ICliIO): ICliConfig {
+    const configFile = overrides.config ?? io.env.MIRAGE_CONFIG ?? findDefaultConfigFile(io.cwd);
+    const fileConfig = configFile === undefined ? {} : readCliConfigFile(path.resolve(io.cwd, configFile));
+
+    const envConfig = toCliConfig({
+        uri: io.env.MIRAGE_MONGO_URI,
+        keyVault: io.env.MIRAGE_KEY_VAULT,
+        localKeyFile: io.env.MIRAGE_LOCAL_KEY_FILE,
+        cryptShared: io.env.MIRAGE_CRYPT_SHARED_LIB,
+        schema: io.env.MIRAGE_SCHEMA,
+        mode: io.env.MIRAGE_MODE,
+    }, io.cwd);
+
+    const config: ICliConfig = { ...fileConfig, ...envConfig, ...toCliConfig(overrides, io.cwd) };
+    // Never taken from the config file, so the passphrase doesn't end up next to the key file
+    delete config.localKeyPassphrase;
+    if (io.env.MIRAGE_LOCAL_KEY_PASSPHRASE) {
+        config.localKeyPassphrase = io.env.MIRAGE_LOCAL_KEY_PASSPHRASE;
+    }
+    if (config.mode !== undefined && config.mode !== "csfle" && config.mode !== "queryable") {
+        throw new ConfigurationError(`Unsupported encryption mode: ${String(config.mode)}. Expected csfle or queryable`);
+    }
+    return config;
+}
+
+/**
+ * Builds the KMS provider list from the settings: the configured providers, plus a local provider
+ * when a local key file is set
+ * 
+ * @param config - Merged settings
+ * @returns KMS providers; the first one wraps new DEKs
+ * @throws {ConfigurationError} If no provider is configured
+ * @throws {ValidationError} If the local key file cannot be read or decrypted
+ */
+export function getCliKmsProviders(config: ICliConfig): IKMSProvider[] {
+    const providers = config.kmsProviders === undefined ? [] : [config.kmsProviders].flat();
+
+    if (config.localKeyFile !== undefined) {
+        providers.push({ type: "local", local: { key: loadLocalKey(config.localKeyFile, { passphrase: config.localKeyPassphrase }) } });
+    }
+
+    if (providers.length === 0) {
+        throw new ConfigurationError("No KMS provider configured. Set kmsProviders in the config file, or --local-key-file");
+    }
+    return providers;
+}
+
+/**
+ * Returns a required setting
+ * 
+ * @param config - Merged settings
+ * @param setting - Setting name
+ * @param hint - Flag and environment variable that set it, for the error message
+ * @returns The setting's value
+ * @throws {ConfigurationError} If the setting is missing
+ */
+export function requireCliSetting<K extends keyof ICliConfig>(config: ICliConfig, setting: K, hint: string): NonNullable<ICliConfig[K]> {
+    const value = config[setting];
+    if (value === undefined) {
+        throw new ConfigurationError(`Missing ${setting}. Set it with ${hint} or in the config file`);
+    }
+    return value as NonNullable<ICliConfig[K]>;
+}
+
+/**
+ * Finds a config file with a default name in the working directory
+ * 
+ * @param cwd - Working directory
+ * @returns Path of the config file, or undefined if there is none
+ */
+function findDefaultConfigFile(cwd: string): string | undefined {
+    return DEFAULT_CONFIG_FILES.map((fileName) => path.join(cwd, fileName)).find((filePath) => existsSync(filePath));
+}
+
+/**
+ * Reads a JSON or YAML config file
+ * 
+ * @param filePath - Absolute path to the config file
+ * @returns Settings with paths resolved against the file's directory
+ * @throws {ConfigurationError} If the file cannot be read or parsed
+ */
+function readCliConfigFile(filePath: string): ICliConfig {
+    let config: any;
+    try {
+        const text = readFileSync(filePath, "utf-8");
+        config = path.extname(filePath) === ".json" ? JSON.parse(text) : parse(text);
+    } catch (error: any) {
+        throw new ConfigurationError(`Failed to read config file ${filePath}: ${error.message || String(error)}`);
+    }
+    if (config === null || typeof config !== "object" || Array.isArray(config)) {
+        throw new ConfigurationError(`Config file ${filePath} must contain an object`);
+    }
+
+    const resolved: ICliConfig = { ...config };
+    for (const setting of PATH_SETTINGS) {
+        if (typeof config[setting] === "string") {
+            resolved[setting] = path.resolve(path.dirname(filePath), config[setting]);
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Converts string settings from flags or environment variables, leaving out the unset ones
+ * 
+ * @param overrides - String settings
+ * @param cwd - Directory relative paths are resolved against
+ * @returns Settings
+ * @throws {ConfigurationError} If the key vault namespace is invalid
+ */
+function toCliConfig(overrides: ICliOverrides, cwd: string): ICliConfig {
+    const config: ICliConfig = {};
+    if (overrides.uri) {
+        config.mongoUri = overrides.uri;
+    }
+    if (overrides.keyVault) {
+        config.keyVault = parseKeyVault(overrides.keyVault);
+    }
+    if (overrides.localKeyFile) {
+        config.localKeyFile = path.resolve(cwd, overrides.localKeyFile);
+    }
+    if (overrides.cryptShared) {
+        config.cryptSharedLibPath = path.resolve(cwd, overrides.cryptShared);
+    }
+    if (overrides.schema) {
+        config.schema = path.resolve(cwd, overrides.schema);
+    }
+    if (overrides.mode) {
+        config.mode = overrides.mode as ICliConfig["mode"];
+    }
+    return config;
+}
+
+/**
+ * Parses a key vault namespace
+ * 
+ * @param namespace - Namespace in the form "database.collection"
+ * @returns Key vault configuration
+ * @throws {ConfigurationError} If the namespace has no database or collection
+ */
+function parseKeyVault(namespace: string): IKeyVault {
+    const [database, ...rest] = namespace.split(".");
+    const collection = rest.join(".");
+    if (!database || !collection) {
+        throw new ConfigurationError(`Invalid key vault namespace '${namespace}'. Expected "database.collection"`);
+    }
+    return { database, collection };
+}
@@ -0,0 +1,92 @@
+import { readFileSync } from "fs";
+import { IAwsCredentials, IEnvCredentialOptions, TAzureCredentials, TGcpCredentials, TKmsCredentialProvider } from "../types/kms";
+import { KMSError } from "../errors/errors";
+
+/**
+ * Reads required environment variables
+ * 
+ * @param names - Variable names
+ * @returns The values, in the same order
+ * @throws {KMSError} If any variable is missing or empty
+ */
+function readEnv(names: string[]): string[] {
+    const missing = names.filter((name) => !process.env[name]);
+    if (missing.length > 0) {
+        throw new KMSError(`Missing environment variables for KMS credentials: ${missing.join(", ")}`);
+    }
+    return names.map((name) => process.env[name] as string);
+}
+
+/**
+ * Creates a credential provider for AWS KMS that reads AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY
+ * and the optional AWS_SESSION_TOKEN and AWS_CREDENTIAL_EXPIRATION (ISO 8601) on every call.
+ * 
+ * @param options - Environment variable options
+ * @returns Credential provider for the `credentials` option of an AWS KMS provider
+ */
+export function awsCredentialsFromEnv(options: IEnvCredentialOptions = {}): TKmsCredentialProvider<IAwsCredentials> {
+    const prefix = options.prefix ?? "";
+    return () => {
+        const [accessKeyId, secretAccessKey] = readEnv([`${prefix}AWS_ACCESS_KEY_ID`, `${prefix}AWS_SECRET_ACCESS_KEY`]);
+        const sessionToken = process.env[`${prefix}AWS_SESSION_TOKEN`];
+        const expiration = process.env[`${prefix}AWS_CREDENTIAL_EXPIRATION`];
+
+        return {
+            accessKeyId,
+            secretAccessKey,
+            ...(sessionToken ? { sessionToken } : {}),
+            ...(expiration ? { expiration: new Date(expiration) } : {}),
+        };
+    };
+}
+
+/**
+ * Creates a credential provider for Azure Key Vault that reads AZURE_CLIENT_ID,
+ * AZURE_CLIENT_SECRET and AZURE_TENANT_ID on every call.
+ * 
+ * @param options - Environment variable options
+ * @returns Credential provider for the `credentials` option of an Azure KMS provider
+ */
+export function azureCredentialsFromEnv(options: IEnvCredentialOptions = {}): TKmsCredentialProvider<TAzureCredentials> {
+    const prefix = options.prefix ?? "";
+    return () => {
+        const [clientId, clientSecret, tenantId] = readEnv([
+            `${prefix}AZURE_CLIENT_ID`,
+            `${prefix}AZURE_CLIENT_SECRET`,
+            `${prefix}AZURE_TENANT_ID`,
+        ]);
+        return { clientId, clientSecret, tenantId };
+    };
+}
+
+/**
+ * Creates a credential provider for Google Cloud KMS that reads the service account key file
+ * named by GOOGLE_APPLICATION_CREDENTIALS on every call.
+ * 
+ * @param options - Environment variable options
+ * @returns Credential provider for the `credentials` option of a GCP KMS provider
+ */
+export function gcpCredentialsFromEnv(options: IEnvCredentialOptions = {}): TKmsCredentialProvider<TGcpCredentials> {
+    const prefix = options.prefix ?? "";
+    return () => {
+        const [keyFile] = readEnv([`${prefix}GOOGLE_APPLICATION_CREDENTIALS`]);
+
+        let serviceAccount: { client_email?: string; private_key?: string };
+        try {
+            serviceAccount = JSON.parse(readFileSync(keyFile, "utf-8"));
+        } catch (error: any) {
+            throw new KMSError(`Failed to read GCP service account key file ${keyFile}: ${error.message || String(error)}`);
+        }
+
+        if (!serviceAccount.client_email || !serviceAccount.private_key) {
+            throw new KMSError(`GCP service account key file ${keyFile} must contain client_email and private_key`);
+        }
+
+        // libmongocrypt expects the base64 PKCS#8 body without the PEM armor
+        const privateKey = serviceAccount.private_key
+            .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "")
+            .replace(/\s+/g, "");
+
+        return { email: serviceAccount.client_email, privateKey };
+    };
+}
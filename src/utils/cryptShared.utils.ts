@@ -1,6 +1,107 @@
 import fs from "fs";
 import os from "os";
-import { ValidationError } from "../errors/errors";
+import path from "path";
+import { createRequire } from "module";
+import { BSON } from "mongodb";
+import { ConfigurationError, ValidationError } from "../errors/errors";
+import { TEncryptionMode } from "../types/schema";
+import { ICryptSharedLibInfo } from "../types/utils";
+
+/**
+ * Environment variable naming the crypt_shared library, checked before the standard locations
+ */
+export const CRYPT_SHARED_LIB_ENV = "MIRAGE_CRYPT_SHARED_LIB";
+
+const requireModule = createRequire(__filename);
+
+// Bytes read to find the architecture; PE headers usually start within the first kilobyte
+const HEADER_LENGTH = 4096;
+
+// Oldest crypt_shared release per mode: the library ships since 6.0, Queryable Encryption is GA in 7.0
+const minimumVersions: Record<TEncryptionMode, [number, number]> = {
+    csfle: [6, 0],
+    queryable: [7, 0],
+};
+
+const elfMachines: Record<number, string> = {
+    0x03: "ia32",
+    0x28: "arm",
+    0x3E: "x64",
+    0xB7: "arm64",
+    0x15: "ppc64",
+    0x16: "s390x",
+};
+
+const machOCpuTypes: Record<number, string> = {
+    0x00000007: "ia32",
+    0x01000007: "x64",
+    0x0000000C: "arm",
+    0x0100000C: "arm64",
+};
+
+const peMachines: Record<number, string> = {
+    0x014C: "ia32",
+    0x8664: "x64",
+    0xAA64: "arm64",
+};
+
+/**
+ * Gets the crypt_shared library file name for a platform
+ *
+ * @param platform - Platform, as returned by os.platform()
+ * @returns e.g. "mongo_crypt_v1.so" on Linux
+ */
+export function getCryptSharedLibFileName(platform: NodeJS.Platform = os.platform()): string {
+    switch (platform) {
+        case "win32":
+            return "mongo_crypt_v1.dll";
+        case "darwin":
+            return "mongo_crypt_v1.dylib";
+        default:
+            return "mongo_crypt_v1.so";
+    }
+}
+
+/**
+ * Lists where findCryptSharedLib looks for the library when MIRAGE_CRYPT_SHARED_LIB is not set:
+ * ./config and ./lib, then the system library directories of the platform
+ *
+ * @param cwd - Directory the relative locations are resolved against
+ * @returns Candidate file paths, in search order
+ */
+export function getCryptSharedLibSearchPaths(cwd: string = process.cwd()): string[] {
+    const platform = os.platform();
+    const directories = [path.join(cwd, "config"), path.join(cwd, "lib")];
+    if (platform === "linux") {
+        directories.push("/usr/local/lib", "/usr/lib", "/usr/lib64");
+    } else if (platform === "darwin") {
+        directories.push("/usr/local/lib", "/opt/homebrew/lib");
+    }
+    return directories.map((directory) => path.join(directory, getCryptSharedLibFileName(platform)));
+}
+
+/**
+ * Finds the crypt_shared library: the path in MIRAGE_CRYPT_SHARED_LIB if set, otherwise the first
+ * of getCryptSharedLibSearchPaths that exists. The library found is not validated.
+ *
+ * @param cwd - Directory relative paths are resolved against
+ * @returns Absolute path to the library, or undefined if none was found
+ * @throws {ValidationError} If MIRAGE_CRYPT_SHARED_LIB names a file that does not exist
+ */
+export function findCryptSharedLib(cwd: string = process.cwd()): string | undefined {
+    const fromEnv = process.env[CRYPT_SHARED_LIB_ENV]?.trim();
+    if (fromEnv) {
+        const filePath = path.resolve(cwd, fromEnv);
+        if (!fs.existsSync(filePath)) {
+            throw new ValidationError(`${CRYPT_SHARED_LIB_ENV} names a crypt_shared library that does not exist: ${filePath}`, {
+                code: "FILE_NOT_FOUND",
+                context: { filePath },
+            });
+        }
+        return filePath;
+    }
+    return getCryptSharedLibSearchPaths(cwd).find((filePath) => fs.existsSync(filePath));
+}
 
 /**
  * Validates the given crypt_shared library path:
@@ -8,10 +109,11 @@ import { ValidationError } from "../errors/errors";
  *  - Checks file exists
  *  - Checks correct extension
  *  - Checks file header matches expected shared library format
+ *  - Checks the library is built for the architecture of this process, when the header names one
  *
  * @param libPath - Full path to the library file
  * @returns {string} - Returns validated path if correct
- * @throws {Error} - If invalid
+ * @throws {ValidationError} - If invalid
  */
 export function validateCryptSharedLib(libPath: string): string {
     const platform = os.platform();
@@ -29,6 +131,8 @@ export function validateCryptSharedLib(libPath: string): string {
             expectedMagic = [
                 Buffer.from([0xFE, 0xED, 0xFA, 0xCE]), // Mach-O 32-bit
                 Buffer.from([0xFE, 0xED, 0xFA, 0xCF]), // Mach-O 64-bit
+                Buffer.from([0xCE, 0xFA, 0xED, 0xFE]), // Mach-O 32-bit, little-endian
+                Buffer.from([0xCF, 0xFA, 0xED, 0xFE]), // Mach-O 64-bit, little-endian
                 Buffer.from([0xCA, 0xFE, 0xBA, 0xBE])  // Fat binaries
             ];
             break;
@@ -40,10 +144,13 @@ export function validateCryptSharedLib(libPath: string): string {
             throw new ValidationError(`Unsupported platform: ${platform}. Only Windows, macOS, and Linux are supported.`);
     }
 
+    const context = { filePath: libPath };
+
     // Check file existence
     if (!fs.existsSync(libPath)) {
         throw new ValidationError(
-            `crypt_shared library not found at: ${libPath}\nExpected a file ending with '${expectedExt}'`
+            `crypt_shared library not found at: ${libPath}\nExpected a file ending with '${expectedExt}'`,
+            { code: "FILE_NOT_FOUND", context }
         );
     }
 
@@ -51,26 +158,135 @@ export function validateCryptSharedLib(libPath: string): string {
     if (!libPath.endsWith(expectedExt)) {
         throw new ValidationError(
             `Invalid crypt_shared library extension for current platform.\n` +
-            `Provided: '${libPath}'\nExpected extension: '${expectedExt}' for ${platform}`
+            `Provided: '${libPath}'\nExpected extension: '${expectedExt}' for ${platform}`,
+            { code: "CRYPT_SHARED_INVALID", context }
         );
     }
 
-    // Read first 4 bytes to check magic number
+    // Read the header: the magic number, then the architecture
     const fd = fs.openSync(libPath, "r");
-    const buffer = Buffer.alloc(4);
-    fs.readSync(fd, buffer, 0, 4, 0);
+    const header = Buffer.alloc(HEADER_LENGTH);
+    fs.readSync(fd, header, 0, HEADER_LENGTH, 0);
     fs.closeSync(fd);
 
     const isValidMagic = expectedMagic.some(magic =>
-        buffer.slice(0, magic.length).equals(magic)
+        header.subarray(0, magic.length).equals(magic)
     );
 
     if (!isValidMagic) {
         throw new ValidationError(
             `File exists but does not appear to be a valid ${platform} shared library.\n` +
-            `Magic bytes found: ${buffer.toString("hex")}`
+            `Magic bytes found: ${header.subarray(0, 4).toString("hex")}`,
+            { code: "CRYPT_SHARED_INVALID", context }
+        );
+    }
+
+    const architectures = readArchitectures(header, platform);
+    if (architectures.length > 0 && !architectures.includes(process.arch)) {
+        throw new ValidationError(
+            `crypt_shared library at ${libPath} is built for ${architectures.join(", ")}, but this process runs on ${process.arch}`,
+            { code: "CRYPT_SHARED_INVALID", context }
         );
     }
 
     return libPath;
+}
+
+/**
+ * Validates a crypt_shared library and loads it to read its version, which must be at least 6.0,
+ * or 7.0 for Queryable Encryption. Requires the mongodb-client-encryption package.
+ *
+ * @param libPath - Path to the library file
+ * @param mode - Encryption mode the library is needed for
+ * @returns The absolute path, architecture and version of the library
+ * @throws {ValidationError} If the library is invalid, cannot be loaded or is too old
+ * @throws {ConfigurationError} If mongodb-client-encryption is not installed
+ */
+export function inspectCryptSharedLib(libPath: string, mode: TEncryptionMode = "csfle"): ICryptSharedLibInfo {
+    const filePath = path.resolve(libPath);
+    validateCryptSharedLib(filePath);
+
+    let MongoCrypt: any;
+    let cryptoCallbacks: unknown;
+    try {
+        ({ MongoCrypt, cryptoCallbacks } = requireModule("mongodb-client-encryption"));
+    } catch (error: any) {
+        throw new ConfigurationError(
+            `Loading the crypt_shared library requires the mongodb-client-encryption package: ${error.message || String(error)}`,
+            { cause: error }
+        );
+    }
+
+    let versionInfo: { version: bigint; versionStr: string } | null;
+    try {
+        // The instance is only created to load the library; any KMS provider will do
+        const mongoCrypt = new MongoCrypt({
+            kmsProviders: BSON.serialize({ local: { key: Buffer.alloc(96) } }),
+            cryptoCallbacks,
+            cryptSharedLibPath: filePath,
+        });
+        versionInfo = mongoCrypt.cryptSharedLibVersionInfo;
+    } catch (error: any) {
+        throw new ValidationError(`Failed to load crypt_shared library ${filePath}: ${error.message || String(error)}`, {
+            code: "CRYPT_SHARED_INVALID",
+            cause: error,
+            context: { filePath },
+        });
+    }
+    if (!versionInfo) {
+        throw new ValidationError(`crypt_shared library ${filePath} did not report its version`, {
+            code: "CRYPT_SHARED_INVALID",
+            context: { filePath },
+        });
+    }
+
+    // The version packs major, minor, patch and a reserved part into 16 bits each
+    const [major, minor, patch] = [48n, 32n, 16n].map((shift) => Number((BigInt(versionInfo!.version) >> shift) & 0xFFFFn));
+    const [minMajor, minMinor] = minimumVersions[mode];
+    if (major < minMajor || (major === minMajor && minor < minMinor)) {
+        throw new ValidationError(
+            `crypt_shared library ${filePath} is version ${major}.${minor}.${patch}; ${mode} mode requires ${minMajor}.${minMinor} or later`,
+            { code: "CRYPT_SHARED_INVALID", context: { filePath } }
+        );
+    }
+
+    return {
+        path: filePath,
+        arch: process.arch,
+        version: `${major}.${minor}.${patch}`,
+        versionStr: versionInfo.versionStr,
+    };
+}
+
+/**
+ * Reads the architectures a shared library is built for from its header
+ *
+ * @param header - First bytes of the file
+ * @param platform - Platform the header format belongs to
+ * @returns Node.js architecture names, e.g. ["x64"]; empty if the header names none that is known
+ */
+function readArchitectures(header: Buffer, platform: NodeJS.Platform): string[] {
+    const known = (arch: string | undefined): string[] => arch === undefined ? [] : [arch];
+
+    if (platform === "linux") {
+        const machine = header[5] === 2 ? header.readUInt16BE(18) : header.readUInt16LE(18);
+        return known(elfMachines[machine]);
+    }
+
+    if (platform === "darwin") {
+        if (header.readUInt32BE(0) === 0xCAFEBABE) {
+            // Fat binary: big-endian list of 20-byte entries, each starting with its CPU type
+            const count = Math.min(header.readUInt32BE(4), Math.floor((HEADER_LENGTH - 8) / 20));
+            return Array.from({ length: count }, (_value, index) => machOCpuTypes[header.readUInt32BE(8 + index * 20)])
+                .filter((arch): arch is string => arch !== undefined);
+        }
+        const littleEndian = header[0] === 0xCE || header[0] === 0xCF;
+        return known(machOCpuTypes[littleEndian ? header.readUInt32LE(4) : header.readUInt32BE(4)]);
+    }
+
+    const peOffset = header.readUInt32LE(0x3C);
+    if (peOffset + 6 > HEADER_LENGTH || header.toString("latin1", peOffset, peOffset + 4) !== "PE\0\0") {
+        return [];
+    }
+    return known(peMachines[header.readUInt16LE(peOffset + 4)]);
 }
\ No newline at end of file
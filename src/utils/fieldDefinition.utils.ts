@@ -0,0 +1,233 @@
+import { EEncryptionAlgorithm } from '../enums/enums';
+import { TBsonType, TEncryptionMode, TQueryType } from '../types/schema';
+import { IFieldDefinition } from '../types/encryptionSchemaService';
+import { ValidationError } from '../errors/errors';
+import { deterministicSupportedTypes, equalityUnsupportedTypes, rangeSupportedTypes } from './schema.utils';
+
+const validBsonTypes = [
+    "double", "string", "object", "array", "binData", "undefined",
+    "objectId", "bool", "date", "null", "regex", "dbPointer",
+    "javascript", "symbol", "javascriptWithScope", "int", "timestamp",
+    "long", "decimal", "minKey", "maxKey", "decimal128"
+];
+
+const algorithmAliases: Record<string, EEncryptionAlgorithm> = {
+    deterministic: EEncryptionAlgorithm.DETERMINISTIC,
+    random: EEncryptionAlgorithm.RANDOM,
+    [EEncryptionAlgorithm.DETERMINISTIC]: EEncryptionAlgorithm.DETERMINISTIC,
+    [EEncryptionAlgorithm.RANDOM]: EEncryptionAlgorithm.RANDOM,
+};
+
+const rangeOptionKeys: Array<keyof IFieldDefinition> = ["min", "max", "sparsity", "trimFactor", "precision"];
+
+const fieldDefinitionKeys: Array<keyof IFieldDefinition> = [
+    "type", "algorithm", "queryable", "queryType", "contention", ...rangeOptionKeys, "kmsProvider"
+];
+
+/**
+ * Checks whether a simple schema entry is a field definition rather than a nested object
+ * 
+ * @param value - Schema entry
+ * @returns true if the entry is an object with a string `type`
+ */
+function isFieldDefinition(value: unknown): value is IFieldDefinition {
+    return typeof value === "object" && value !== null && typeof (value as IFieldDefinition).type === "string";
+}
+
+/**
+ * Checks that a field definition has no other keys than its options. An object with a string
+ * `type` is always a field definition, so a nested object with a subfield named `type` would
+ * otherwise lose its other subfields without notice.
+ * 
+ * @param definition - Field definition from the schema file
+ * @param fieldPath - Path to the field (for error messages)
+ * @throws {ValidationError} If the definition has a key that is not a field definition option
+ */
+function checkFieldDefinitionKeys(definition: IFieldDefinition, fieldPath: string): void {
+    const unknownKey = Object.keys(definition).find((key) => !(fieldDefinitionKeys as string[]).includes(key));
+    if (unknownKey !== undefined) {
+        throw new ValidationError(
+            `Invalid field '${fieldPath}': unknown field definition option '${unknownKey}'. ` +
+            `An object with a string 'type' is a field definition with the options ${fieldDefinitionKeys.join(", ")}. ` +
+            `For a nested object with a subfield named 'type', write that subfield as a definition, e.g. "type": { "type": "string" }`
+        );
+    }
+}
+
+/**
+ * Normalizes a simple schema entry for a leaf field into a field definition
+ * 
+ * @param fieldType - Type name or field definition
+ * @returns The field definition
+ */
+function toFieldDefinition(fieldType: string | IFieldDefinition): IFieldDefinition {
+    return typeof fieldType === "string" ? { type: fieldType } : fieldType;
+}
+
+/**
+ * Resolves a BSON type name case-insensitively to its canonical spelling
+ * 
+ * @param type - Type name from the schema file
+ * @param fieldPath - Path to the field (for error messages)
+ * @returns Canonical BSON type
+ * @throws {ValidationError} If the type is not a valid BSON type
+ */
+function resolveBsonType(type: string, fieldPath: string): TBsonType {
+    const bsonType = validBsonTypes.find((validType) => validType.toLowerCase() === String(type).toLowerCase());
+    if (!bsonType) {
+        throw new ValidationError(
+            `Invalid BSON type '${type}' for field '${fieldPath}'. Valid types are: ${validBsonTypes.join(", ")}`
+        );
+    }
+    return (bsonType === "decimal128" ? "decimal" : bsonType) as TBsonType;
+}
+
+/**
+ * Resolves the CSFLE algorithm for a field. An explicit `algorithm` wins, then `queryable`
+ * (deterministic when true, random when false), then a default based on the BSON type.
+ * Fields whose DEK is selected through a keyAltName pointer are always encrypted randomly.
+ * 
+ * @param definition - Field definition from the schema file
+ * @param fieldPath - Path to the field (for error messages)
+ * @param keyAltNameField - JSON pointer selecting the DEK per document, if any
+ * @returns The encryption algorithm
+ * @throws {ValidationError} If the options are unknown, invalid or contradict each other
+ */
+function resolveFieldAlgorithm(definition: IFieldDefinition, fieldPath: string, keyAltNameField?: string): EEncryptionAlgorithm {
+    checkFieldDefinitionKeys(definition, fieldPath);
+    const bsonType = resolveBsonType(definition.type, fieldPath);
+
+    if (definition.queryType !== undefined) {
+        throw new ValidationError(`Invalid field '${fieldPath}': queryType is only supported in queryable encryption mode`);
+    }
+    if (definition.queryable !== undefined && typeof definition.queryable !== "boolean") {
+        throw new ValidationError(`Invalid field '${fieldPath}': queryable must be a boolean`);
+    }
+
+    let algorithm: EEncryptionAlgorithm | undefined;
+    if (definition.algorithm !== undefined) {
+        algorithm = algorithmAliases[definition.algorithm];
+        if (!algorithm) {
+            throw new ValidationError(
+                `Invalid algorithm '${definition.algorithm}' for field '${fieldPath}'. Allowed values are: deterministic, random`
+            );
+        }
+        if (definition.queryable === true && algorithm === EEncryptionAlgorithm.RANDOM) {
+            throw new ValidationError(`Invalid field '${fieldPath}': queryable fields require deterministic encryption`);
+        }
+        if (definition.queryable === false && algorithm === EEncryptionAlgorithm.DETERMINISTIC) {
+            throw new ValidationError(`Invalid field '${fieldPath}': deterministic encryption contradicts queryable: false`);
+        }
+    } else if (definition.queryable !== undefined) {
+        algorithm = definition.queryable ? EEncryptionAlgorithm.DETERMINISTIC : EEncryptionAlgorithm.RANDOM;
+    } else if (keyAltNameField !== undefined) {
+        algorithm = EEncryptionAlgorithm.RANDOM;
+    } else {
+        algorithm = deterministicSupportedTypes.includes(bsonType)
+            ? EEncryptionAlgorithm.DETERMINISTIC
+            : EEncryptionAlgorithm.RANDOM;
+    }
+
+    if (algorithm === EEncryptionAlgorithm.DETERMINISTIC && keyAltNameField !== undefined) {
+        throw new ValidationError(
+            `Invalid field '${fieldPath}': fields keyed by keyAltNameField '${keyAltNameField}' require random encryption`
+        );
+    }
+
+    if (algorithm === EEncryptionAlgorithm.DETERMINISTIC && !deterministicSupportedTypes.includes(bsonType)) {
+        throw new ValidationError(
+            `Invalid field '${fieldPath}': bsonType '${bsonType}' is not supported with deterministic encryption. ` +
+            `Supported types for deterministic encryption are: ${deterministicSupportedTypes.join(", ")}`
+        );
+    }
+
+    return algorithm;
+}
+
+/**
+ * Resolves the Queryable Encryption query type for a field. `queryable: true` is shorthand
+ * for an equality query.
+ * 
+ * @param definition - Field definition from the schema file
+ * @param fieldPath - Path to the field (for error messages)
+ * @returns The query type, or undefined for an encrypted but unqueryable field
+ * @throws {ValidationError} If the options are unknown, invalid or contradict each other
+ */
+function resolveQueryType(definition: IFieldDefinition, fieldPath: string): TQueryType | undefined {
+    checkFieldDefinitionKeys(definition, fieldPath);
+    const bsonType = resolveBsonType(definition.type, fieldPath);
+
+    if (definition.algorithm !== undefined) {
+        throw new ValidationError(
+            `Invalid field '${fieldPath}': algorithm is not supported in queryable encryption mode, use queryType instead`
+        );
+    }
+    if (definition.queryable !== undefined && typeof definition.queryable !== "boolean") {
+        throw new ValidationError(`Invalid field '${fieldPath}': queryable must be a boolean`);
+    }
+    if (definition.queryable === false && definition.queryType !== undefined) {
+        throw new ValidationError(`Invalid field '${fieldPath}': queryType contradicts queryable: false`);
+    }
+
+    const queryType = definition.queryType ?? (definition.queryable ? "equality" : undefined);
+
+    switch (queryType) {
+        case undefined:
+            if (definition.contention !== undefined) {
+                throw new ValidationError(`Invalid field '${fieldPath}': contention requires a queryType`);
+            }
+            break;
+        case "equality":
+            if (equalityUnsupportedTypes.includes(bsonType)) {
+                throw new ValidationError(`Invalid field '${fieldPath}': bsonType '${bsonType}' does not support equality queries`);
+            }
+            break;
+        case "range":
+            if (!rangeSupportedTypes.includes(bsonType)) {
+                throw new ValidationError(
+                    `Invalid field '${fieldPath}': bsonType '${bsonType}' does not support range queries. ` +
+                    `Supported types for range queries are: ${rangeSupportedTypes.join(", ")}`
+                );
+            }
+            break;
+        default:
+            throw new ValidationError(
+                `Invalid queryType '${String(queryType)}' for field '${fieldPath}'. Allowed values are: equality, range`
+            );
+    }
+
+    if (queryType !== "range") {
+        const rangeOption = rangeOptionKeys.find((key) => definition[key] !== undefined);
+        if (rangeOption) {
+            throw new ValidationError(`Invalid field '${fieldPath}': ${rangeOption} requires queryType 'range'`);
+        }
+    }
+
+    return queryType;
+}
+
+/**
+ * Validates a field definition for the given encryption mode
+ * 
+ * @param definition - Field definition from the schema file
+ * @param fieldPath - Path to the field (for error messages)
+ * @param mode - Encryption mode the schema is generated for
+ * @param keyAltNameField - JSON pointer selecting the DEK per document, if any (CSFLE only)
+ * @throws {ValidationError} If the definition is invalid
+ */
+function validateFieldDefinition(definition: IFieldDefinition, fieldPath: string, mode: TEncryptionMode, keyAltNameField?: string): void {
+    if (mode === "queryable") {
+        resolveQueryType(definition, fieldPath);
+    } else {
+        resolveFieldAlgorithm(definition, fieldPath, keyAltNameField);
+    }
+}
+
+export {
+    isFieldDefinition,
+    toFieldDefinition,
+    resolveBsonType,
+    resolveFieldAlgorithm,
+    resolveQueryType,
+    validateFieldDefinition,
+};
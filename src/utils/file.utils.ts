@@ -1,6 +1,31 @@
-import { existsSync, writeFileSync, readFileSync } from "fs";
-import { randomBytes } from "crypto";
-import { ValidationError } from "../errors/errors";
+import { existsSync, writeFileSync, readFileSync, linkSync, rmSync } from "fs";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import path from "path";
+import { ConfigurationError, ValidationError } from "../errors/errors";
+import { ILocalKeyFileOptions } from "../types/utils";
+
+const MASTER_KEY_LENGTH = 96;
+const KEY_FILE_FORMAT = "mirage-local-key";
+const KEY_FILE_VERSION = 1;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+const KEY_FILE_MODE = 0o600;
+
+/**
+ * Contents of a passphrase-protected key file
+ */
+interface IEncryptedKeyFile {
+    format: typeof KEY_FILE_FORMAT;
+    version: number;
+    kdf: "scrypt";
+    N: number;
+    r: number;
+    p: number;
+    salt: string;
+    iv: string;
+    tag: string;
+    ciphertext: string;
+}
 
 
 /**
@@ -33,27 +58,217 @@ export function getMasterKey(): string {
  * If the key already exists at the given path, read and return it.
  * Otherwise, generate a new one, save it, and return it.
  * 
+ * New files are written with mode 0600 to a temporary file that is then linked into place, so
+ * a crash never leaves a partial key file and a key file another process created meanwhile is
+ * read rather than replaced. With a passphrase, the key is encrypted at rest with AES-256-GCM
+ * under a key derived with scrypt.
+ * 
  * @param filePath - Path to store/retrieve the key
+ * @param options - Optional passphrase protecting the key file
  * @returns The base64 encoded master key
- * @throws {ValidationError} If file operations fail
+ * @throws {ConfigurationError} If a passphrase is given but the existing key file is not passphrase-protected
+ * @throws {ValidationError} If file operations fail, the passphrase is wrong or missing, or the stored key is not 96 bytes
  */
-export function generateLocalKey(filePath: string = "local-master-key.txt"): string {
+export function generateLocalKey(filePath: string = "local-master-key.txt", options: ILocalKeyFileOptions = {}): string {
     try {
-        if (existsSync(filePath)) {
-            const content = readFileSync(filePath, "utf-8").trim();
-            if (!content) {
-                throw new ValidationError(`Master key file exists but is empty: ${filePath}`);
+        if (!existsSync(filePath)) {
+            const base64Key = getMasterKey();
+            const contents = options.passphrase === undefined
+                ? base64Key
+                : JSON.stringify(encryptMasterKey(base64Key, options.passphrase), null, 2);
+            if (createFileExclusively(filePath, contents)) {
+                return base64Key;
             }
-            return content;
         }
 
-        const base64Key = getMasterKey();
-        writeFileSync(filePath, base64Key);
-        return base64Key;
+        const content = readKeyFile(filePath);
+        if (options.passphrase !== undefined && !isProtectedKeyFile(content)) {
+            throw new ConfigurationError(
+                `Local key file ${filePath} already exists and is not passphrase-protected, so the passphrase would not be used. ` +
+                "Drop the passphrase, or move the key file away and protect the key with a new file.",
+                { context: { filePath } }
+            );
+        }
+        return parseKeyFile(filePath, content, options);
     } catch (error: any) {
-        if (error instanceof ValidationError) {
+        if (error instanceof ValidationError || error instanceof ConfigurationError) {
             throw error;
         }
-        throw new ValidationError(`Failed to generate or retrieve local key: ${error.message}`);
+        throw new ValidationError(`Failed to generate or retrieve local key: ${error.message}`, { cause: error });
+    }
+}
+
+/**
+ * Read a local master key file written by generateLocalKey, decrypting it if it is
+ * passphrase-protected. Use it for the key of a local KMS provider:
+ * `{ type: "local", local: { key: loadLocalKey("master.key", { passphrase }) } }`.
+ * 
+ * @param filePath - Path to the key file
+ * @param options - Passphrase, required for protected key files
+ * @returns The base64 encoded master key
+ * @throws {ValidationError} If the file cannot be read, the passphrase is wrong or missing, or the key is not 96 bytes
+ */
+export function loadLocalKey(filePath: string, options: ILocalKeyFileOptions = {}): string {
+    return parseKeyFile(filePath, readKeyFile(filePath), options);
+}
+
+/**
+ * Read a local key file
+ * 
+ * @param filePath - Path to the key file
+ * @returns The trimmed file contents
+ * @throws {ValidationError} If the file cannot be read or is empty
+ */
+function readKeyFile(filePath: string): string {
+    let content: string;
+    try {
+        content = readFileSync(filePath, "utf-8").trim();
+    } catch (error: any) {
+        throw new ValidationError(`Failed to read local key file ${filePath}: ${error.message}`, { cause: error });
+    }
+    if (!content) {
+        throw new ValidationError(`Master key file exists but is empty: ${filePath}`);
+    }
+    return content;
+}
+
+/**
+ * Check whether key file contents are passphrase-protected
+ * 
+ * @param content - Trimmed key file contents
+ * @returns true for a JSON key file written with a passphrase, false for a plain base64 key
+ */
+function isProtectedKeyFile(content: string): boolean {
+    return content.startsWith("{");
+}
+
+/**
+ * Extract the master key from key file contents, decrypting them if they are passphrase-protected
+ * 
+ * @param filePath - Path to the key file (for error messages)
+ * @param content - Trimmed key file contents
+ * @param options - Passphrase, required for protected key files
+ * @returns The base64 encoded master key
+ * @throws {ValidationError} If the passphrase is wrong or missing, or the key is not 96 bytes
+ */
+function parseKeyFile(filePath: string, content: string, options: ILocalKeyFileOptions): string {
+    const base64Key = isProtectedKeyFile(content)
+        ? decryptMasterKey(filePath, content, options.passphrase)
+        : content;
+
+    const key = Buffer.from(base64Key, "base64");
+    if (key.length !== MASTER_KEY_LENGTH || key.toString("base64") !== base64Key) {
+        throw new ValidationError(`Master key in ${filePath} must be ${MASTER_KEY_LENGTH} bytes of base64, got ${key.length} bytes`);
+    }
+    return base64Key;
+}
+
+/**
+ * Encrypt a master key with a passphrase
+ * 
+ * @param base64Key - Base64 encoded master key
+ * @param passphrase - Passphrase to derive the file key from
+ * @returns Key file contents
+ * @throws {ValidationError} If the passphrase is empty
+ */
+function encryptMasterKey(base64Key: string, passphrase: string): IEncryptedKeyFile {
+    validatePassphrase(passphrase);
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", deriveFileKey(passphrase, salt, SCRYPT_PARAMS), iv);
+    const ciphertext = Buffer.concat([cipher.update(base64Key, "utf-8"), cipher.final()]);
+
+    return {
+        format: KEY_FILE_FORMAT,
+        version: KEY_FILE_VERSION,
+        kdf: "scrypt",
+        ...SCRYPT_PARAMS,
+        salt: salt.toString("base64"),
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        ciphertext: ciphertext.toString("base64"),
+    };
+}
+
+/**
+ * Decrypt a passphrase-protected key file
+ * 
+ * @param filePath - Path to the key file (for error messages)
+ * @param content - Key file contents
+ * @param passphrase - Passphrase the file was written with
+ * @returns The base64 encoded master key
+ * @throws {ValidationError} If the file is malformed, the passphrase is missing or wrong
+ */
+function decryptMasterKey(filePath: string, content: string, passphrase: string | undefined): string {
+    let keyFile: IEncryptedKeyFile;
+    try {
+        keyFile = JSON.parse(content);
+    } catch (error: any) {
+        throw new ValidationError(`Invalid local key file ${filePath}: ${error.message}`);
+    }
+    if (keyFile.format !== KEY_FILE_FORMAT || keyFile.version !== KEY_FILE_VERSION || keyFile.kdf !== "scrypt") {
+        throw new ValidationError(`Unsupported local key file format in ${filePath}`);
+    }
+    if (passphrase === undefined) {
+        throw new ValidationError(`Local key file ${filePath} is passphrase-protected; a passphrase is required`);
+    }
+    validatePassphrase(passphrase);
+
+    try {
+        const fileKey = deriveFileKey(passphrase, Buffer.from(keyFile.salt, "base64"), keyFile);
+        const decipher = createDecipheriv("aes-256-gcm", fileKey, Buffer.from(keyFile.iv, "base64"));
+        decipher.setAuthTag(Buffer.from(keyFile.tag, "base64"));
+        return Buffer.concat([decipher.update(Buffer.from(keyFile.ciphertext, "base64")), decipher.final()]).toString("utf-8");
+    } catch {
+        throw new ValidationError(`Failed to decrypt local key file ${filePath}: wrong passphrase or corrupted file`);
+    }
+}
+
+/**
+ * Derive the AES-256 key protecting a key file
+ * 
+ * @param passphrase - Passphrase
+ * @param salt - Random salt stored in the file
+ * @param params - scrypt cost parameters stored in the file
+ * @returns 32-byte key
+ */
+function deriveFileKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+    return scryptSync(passphrase, salt, 32, { N: params.N, r: params.r, p: params.p, maxmem: SCRYPT_MAX_MEMORY });
+}
+
+/**
+ * Check that a passphrase is a non-empty string
+ * 
+ * @param passphrase - Passphrase to check
+ * @throws {ValidationError} If the passphrase is empty
+ */
+function validatePassphrase(passphrase: unknown): void {
+    if (typeof passphrase !== "string" || passphrase === "") {
+        throw new ValidationError("Local key file passphrase must be a non-empty string");
+    }
+}
+
+/**
+ * Create a file readable only by its owner unless it exists. The contents are written to a
+ * temporary file first and linked into place, which fails rather than replacing an existing file.
+ * 
+ * @param filePath - Destination path
+ * @param contents - File contents
+ * @returns true if the file was created, false if it already existed
+ */
+function createFileExclusively(filePath: string, contents: string): boolean {
+    const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomBytes(6).toString("hex")}.tmp`);
+    try {
+        writeFileSync(tempPath, contents, { mode: KEY_FILE_MODE, flag: "wx" });
+        linkSync(tempPath, filePath);
+        return true;
+    } catch (error: any) {
+        if (error.code === "EEXIST") {
+            return false;
+        }
+        throw error;
+    } finally {
+        rmSync(tempPath, { force: true });
     }
 }
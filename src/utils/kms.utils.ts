@@ -0,0 +1,516 @@
+import { AWSCredentials, ClientEncryptionDataKeyProvider, ClientEncryptionTlsOptions, CredentialProviders } from "mongodb";
+import {
+    IAwsKMSProvider,
+    IAzureKMSProvider,
+    IGcpKMSProvider,
+    IKMSProvider,
+    TKmsCredentialProvider,
+    TKmsCredentials,
+    TSecret
+} from "../types/kms";
+import { IKmsProviderConfig } from "../types/config";
+import { TMirageErrorCode } from "../types/errors";
+import { ConfigurationError, KMSError } from "../errors/errors";
+import { fileExists } from "./file.utils";
+import { isSecretSource, resolveSecret, resolveSecretSync, validateSecretSource } from "./secrets.utils";
+
+type TCloudKMSProvider = IAwsKMSProvider | IAzureKMSProvider | IGcpKMSProvider;
+type TCachedCredentials = { credentials: Record<string, any>; expiresAt: number };
+
+const supportedKmsProviderTypes = ["local", "aws", "azure", "gcp", "kmip"];
+const tlsFileOptions = ["tlsCAFile", "tlsCertificateKeyFile"] as const;
+
+/**
+ * Credentials are fetched again this long before they expire
+ */
+const CREDENTIAL_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Messages with which KMS services reject credentials or access, as passed on by libmongocrypt
+ */
+const KMS_AUTH_FAILURE_PATTERN = new RegExp([
+    "HTTP status=40[13]\\b",
+    "UnrecognizedClientException",
+    "InvalidSignatureException",
+    "AccessDeniedException",
+    "ExpiredTokenException",
+    "security token included in the request is invalid",
+    "invalid_client",
+    "unauthorized_client",
+    "AADSTS\\d+",
+    "invalid_grant",
+    "UNAUTHENTICATED",
+    "PERMISSION_DENIED",
+].join("|"));
+const KMS_UNAVAILABLE_PATTERN = /KMS request (failed|timed out)|HTTP status=5\d\d\b/;
+const networkErrorCodes = ["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "ETIMEDOUT", "EAI_AGAIN"];
+
+const credentialCache = new WeakMap<TKmsCredentialProvider<any>, TCachedCredentials>();
+const pendingCredentials = new WeakMap<TKmsCredentialProvider<any>, Promise<Record<string, any>>>();
+
+/**
+ * Returns the name the driver uses for a KMS provider: the provider type, or
+ * `type:name` for named providers (e.g. "aws:eu").
+ * 
+ * @param provider - The KMS provider configuration
+ * @returns The KMS provider name
+ */
+export function getKmsProviderName(provider: IKMSProvider): ClientEncryptionDataKeyProvider {
+    return provider.name === undefined ? provider.type : `${provider.type}:${provider.name}`;
+}
+
+/**
+ * Normalizes one or more KMS providers into a list and validates their names.
+ * The first provider is the default for new DEKs.
+ * 
+ * @param kmsProvider - A KMS provider or a list of KMS providers
+ * @returns The KMS providers as a non-empty list
+ * @throws {KMSError} If the list is empty, a provider is unsupported or incomplete, names are invalid or
+ * not unique, or a TLS file does not exist
+ */
+export function toKmsProviderList(kmsProvider: IKMSProvider | IKMSProvider[]): IKMSProvider[] {
+    const providers = Array.isArray(kmsProvider) ? kmsProvider : [kmsProvider];
+    if (providers.length === 0 || providers.some((provider) => !provider)) {
+        throw new KMSError("At least one KMS provider is required");
+    }
+
+    const names = new Set<string>();
+    for (const provider of providers) {
+        if (!supportedKmsProviderTypes.includes(provider.type)) {
+            throw new KMSError(`Unsupported KMS provider: ${String(provider.type)}`);
+        }
+        if (provider.name !== undefined && (typeof provider.name !== "string" || !/^[A-Za-z0-9_]+$/.test(provider.name))) {
+            throw new KMSError(
+                `Invalid KMS provider name '${String(provider.name)}' for ${provider.type}. Names may only contain letters, digits and underscores.`
+            );
+        }
+
+        const name = getKmsProviderName(provider);
+        if (provider.type === "kmip" && (!provider.kmip?.endpoint || provider.kmip.endpoint.trim() === "")) {
+            throw new KMSError(`KMS provider '${name}' requires kmip.endpoint`);
+        }
+        validateCredentialSource(provider, name);
+        for (const [field, secret] of getSecretFields(provider)) {
+            validateSecretSource(secret, `${field} of KMS provider '${name}'`);
+        }
+        for (const option of tlsFileOptions) {
+            const file = provider.tlsOptions?.[option];
+            if (file !== undefined && !fileExists(file)) {
+                throw new KMSError(`TLS file for KMS provider '${name}' does not exist: ${option} ${file}`);
+            }
+        }
+
+        if (names.has(name)) {
+            throw new KMSError(`Duplicate KMS provider '${name}'. Use distinct names for providers of the same type.`);
+        }
+        names.add(name);
+    }
+
+    return providers;
+}
+
+/**
+ * Builds the per-provider tlsOptions expected by the driver, keyed by provider name.
+ * Later providers win when two share a name.
+ * 
+ * @param providers - KMS provider configurations
+ * @returns TLS options for the providers that define them, or undefined if none do
+ * @throws {KMSError} If a key file password can't be resolved
+ */
+export function buildKmsTlsOptions(providers: IKMSProvider[]): Record<string, ClientEncryptionTlsOptions> | undefined {
+    const tlsOptions: Record<string, ClientEncryptionTlsOptions> = {};
+    for (const provider of resolveKmsProviderSecretsSync(providers)) {
+        if (provider.tlsOptions !== undefined) {
+            tlsOptions[getKmsProviderName(provider)] = { ...provider.tlsOptions } as ClientEncryptionTlsOptions;
+        }
+    }
+    return Object.keys(tlsOptions).length > 0 ? tlsOptions : undefined;
+}
+
+/**
+ * Resolves the kmsProviders configuration for ClientEncryption, keyed by provider name.
+ * Secret sources are resolved, credential providers are called as needed and their results are
+ * cached until shortly before they expire; "onDemand" providers are left empty for the driver to
+ * fill in. Later providers win when two share a name.
+ * 
+ * @param providers - KMS provider configurations
+ * @returns KMS providers configuration with current credentials
+ * @throws {KMSError} If a secret can't be resolved, or a credential provider fails or returns invalid credentials
+ */
+export async function resolveKmsProviders(providers: IKMSProvider[]): Promise<IKmsProviderConfig> {
+    const kmsProviders: IKmsProviderConfig = {};
+    for (const provider of await resolveKmsProviderSecrets(providers)) {
+        const name = getKmsProviderName(provider);
+        const credentialProvider = getCredentialProvider(provider);
+        kmsProviders[name] = credentialProvider === undefined
+            ? getConfiguredCredentials(provider)
+            : await fetchKmsCredentials(credentialProvider, name);
+    }
+    return kmsProviders;
+}
+
+/**
+ * Builds the kmsProviders and credentialProviders for automatic encryption. The driver
+ * refreshes credentials of "onDemand" providers and of an unnamed AWS provider with a credential
+ * provider by itself. Any other credential provider is called once here, because the encrypted
+ * client can't ask for new credentials later: it must be synchronous and return credentials
+ * without an expiration. Secret resolvers must be synchronous too.
+ * 
+ * @param providers - KMS provider configurations
+ * @returns kmsProviders and, if needed, credentialProviders for the autoEncryption options
+ * @throws {ConfigurationError} If a credential provider can't be refreshed by the driver but is asynchronous or
+ * returns expiring credentials
+ * @throws {KMSError} If a credential provider fails, or a secret resolver is asynchronous or fails
+ */
+export function buildAutoEncryptionKmsProviders(providers: IKMSProvider[]): {
+    kmsProviders: IKmsProviderConfig;
+    credentialProviders?: CredentialProviders;
+} {
+    const kmsProviders: IKmsProviderConfig = {};
+    let credentialProviders: CredentialProviders | undefined;
+
+    for (const provider of resolveKmsProviderSecretsSync(providers)) {
+        const name = getKmsProviderName(provider);
+        const credentialProvider = getCredentialProvider(provider);
+
+        if (credentialProvider === undefined) {
+            kmsProviders[name] = getConfiguredCredentials(provider);
+        } else if (name === "aws") {
+            kmsProviders[name as string] = {};
+            credentialProviders = {
+                aws: async () => toAwsCredentials(await fetchKmsCredentials(credentialProvider, name)),
+            };
+        } else {
+            const alternatives = `Use credentials that don't expire${provider.name === undefined ? ' or "onDemand"' : ""} instead`;
+            let result: TKmsCredentials<any> | Promise<TKmsCredentials<any>>;
+            try {
+                result = credentialProvider();
+            } catch (error: any) {
+                throw new KMSError(`Failed to fetch credentials for KMS provider '${name}': ${error.message || String(error)}`, {
+                    code: "KMS_CREDENTIALS_UNAVAILABLE",
+                    cause: error,
+                    context: { provider: name },
+                });
+            }
+            if (result instanceof Promise) {
+                result.catch(() => undefined);
+                throw new ConfigurationError(
+                    `KMS provider '${name}' has an asynchronous credential provider, which automatic encryption can't refresh. ` +
+                    `The driver only refreshes credentials of an unnamed AWS provider. ${alternatives}.`,
+                    { context: { provider: name } }
+                );
+            }
+            if (typeof result === "object" && result !== null && result.expiration !== undefined) {
+                throw new ConfigurationError(
+                    `KMS provider '${name}' has a credential provider that returned expiring credentials, which automatic encryption ` +
+                    `can't refresh. The driver only refreshes credentials of an unnamed AWS provider. ${alternatives}.`,
+                    { context: { provider: name } }
+                );
+            }
+            kmsProviders[name] = storeCredentials(credentialProvider, result, name);
+        }
+    }
+
+    return credentialProviders ? { kmsProviders, credentialProviders } : { kmsProviders };
+}
+
+/**
+ * Resolves the secret sources of KMS providers: static credentials, local master keys and TLS key
+ * file passwords. Resolver callbacks are awaited.
+ * 
+ * @param providers - KMS provider configurations
+ * @returns The providers with every secret as a string; providers without secret sources are returned as is
+ * @throws {KMSError} If a secret can't be resolved
+ */
+export async function resolveKmsProviderSecrets(providers: IKMSProvider[]): Promise<IKMSProvider[]> {
+    const resolved: IKMSProvider[] = [];
+    for (const provider of providers) {
+        const name = getKmsProviderName(provider);
+        const fields = getSecretFields(provider).filter(([, secret]) => isSecretSource(secret));
+        const values: string[] = [];
+        for (const [field, secret] of fields) {
+            values.push(await resolveSecret(secret, `${field} of KMS provider '${name}'`));
+        }
+        resolved.push(withSecretValues(provider, fields, values));
+    }
+    return resolved;
+}
+
+/**
+ * Resolves the secret sources of KMS providers without waiting
+ * 
+ * @param providers - KMS provider configurations
+ * @returns The providers with every secret as a string; providers without secret sources are returned as is
+ * @throws {KMSError} If a secret can't be resolved or has an asynchronous resolver
+ */
+export function resolveKmsProviderSecretsSync(providers: IKMSProvider[]): IKMSProvider[] {
+    return providers.map((provider) => {
+        const name = getKmsProviderName(provider);
+        const fields = getSecretFields(provider).filter(([, secret]) => isSecretSource(secret));
+        const values = fields.map(([field, secret]) => resolveSecretSync(secret, `${field} of KMS provider '${name}'`));
+        return withSecretValues(provider, fields, values);
+    });
+}
+
+/**
+ * Checks whether two kmsProviders configurations hold the same credentials
+ * 
+ * @param a - KMS providers configuration
+ * @param b - KMS providers configuration
+ * @returns true if both have the same providers with equal credential fields
+ */
+export function kmsProvidersEqual(a: IKmsProviderConfig, b: IKmsProviderConfig): boolean {
+    const names = Object.keys(a);
+    return names.length === Object.keys(b).length && names.every((name) => {
+        const fields = Object.keys(a[name] ?? {});
+        return b[name] !== undefined &&
+            fields.length === Object.keys(b[name]).length &&
+            fields.every((field) => a[name][field] === b[name][field]);
+    });
+}
+
+/**
+ * Classifies a driver error from a KMS request, following its cause chain
+ * 
+ * @param error - Error thrown by the driver, e.g. by createDataKey or encrypt
+ * @returns "KMS_AUTH_FAILED" if the KMS rejected the credentials, "KMS_UNAVAILABLE" if it
+ * couldn't be reached, or undefined for other errors
+ */
+export function getKmsErrorCode(error: unknown): TMirageErrorCode | undefined {
+    for (let current: any = error, depth = 0; current && depth < 5; current = current.cause, depth++) {
+        const message = typeof current.message === "string" ? current.message : String(current);
+        if (KMS_AUTH_FAILURE_PATTERN.test(message)) {
+            return "KMS_AUTH_FAILED";
+        }
+        if (KMS_UNAVAILABLE_PATTERN.test(message) || networkErrorCodes.includes(current.code)) {
+            return "KMS_UNAVAILABLE";
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Validates how a KMS provider gets its credentials
+ * 
+ * @param provider - The KMS provider configuration
+ * @param name - The KMS provider name (for error messages)
+ * @throws {KMSError} If the credential configuration is missing, ambiguous or unsupported
+ */
+function validateCredentialSource(provider: IKMSProvider, name: string): void {
+    if (!isCloudKmsProvider(provider)) {
+        if ("credentials" in provider && provider.credentials !== undefined) {
+            throw new KMSError(`KMS provider '${name}' does not support credential providers`);
+        }
+        return;
+    }
+
+    const staticCredentials = getStaticCredentials(provider);
+    const source = provider.credentials;
+    if ((staticCredentials === undefined) === (source === undefined)) {
+        throw new KMSError(`KMS provider '${name}' requires exactly one of ${provider.type} or credentials`);
+    }
+    if (source === "onDemand" && provider.name !== undefined) {
+        throw new KMSError(`KMS provider '${name}': on-demand credentials are only supported for unnamed providers`);
+    }
+    if (source !== undefined && source !== "onDemand" && typeof source !== "function") {
+        throw new KMSError(`KMS provider '${name}': credentials must be "onDemand" or a function`);
+    }
+}
+
+/**
+ * Checks whether a KMS provider is a cloud provider that supports credential providers
+ * 
+ * @param provider - The KMS provider configuration
+ * @returns true for AWS, Azure and GCP providers
+ */
+function isCloudKmsProvider(provider: IKMSProvider): provider is TCloudKMSProvider {
+    return provider.type === "aws" || provider.type === "azure" || provider.type === "gcp";
+}
+
+/**
+ * Lists the fields of a KMS provider that may hold a secret: its static credentials or local
+ * master key, and the TLS key file password
+ * 
+ * @param provider - The KMS provider configuration
+ * @returns Dotted field paths (e.g. "aws.secretAccessKey") with their values
+ */
+function getSecretFields(provider: IKMSProvider): Array<[string, TSecret]> {
+    const fields: Array<[string, TSecret]> = [];
+    for (const [field, value] of Object.entries(getStaticCredentials(provider) ?? {})) {
+        if (value !== undefined) {
+            fields.push([`${provider.type}.${field}`, value]);
+        }
+    }
+    if (provider.tlsOptions?.tlsCertificateKeyFilePassword !== undefined) {
+        fields.push(["tlsOptions.tlsCertificateKeyFilePassword", provider.tlsOptions.tlsCertificateKeyFilePassword]);
+    }
+    return fields;
+}
+
+/**
+ * Returns the static credentials of a KMS provider, or the master key of a local provider
+ * 
+ * @param provider - The KMS provider configuration
+ * @returns Credential fields that may be secret sources, or undefined if the provider has none
+ */
+function getStaticCredentials(provider: IKMSProvider): Record<string, TSecret | undefined> | undefined {
+    switch (provider.type) {
+        case "local":
+            return provider.local;
+        case "aws":
+            return provider.aws;
+        case "azure":
+            return provider.azure;
+        case "gcp":
+            return provider.gcp;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Copies a KMS provider with resolved secrets in place of their sources
+ * 
+ * @param provider - The KMS provider configuration
+ * @param fields - Secret fields to replace, as returned by getSecretFields
+ * @param values - Resolved values, in the same order
+ * @returns The copy, or the provider itself if there is nothing to replace
+ */
+function withSecretValues(provider: IKMSProvider, fields: Array<[string, TSecret]>, values: string[]): IKMSProvider {
+    if (fields.length === 0) {
+        return provider;
+    }
+
+    const resolved: any = { ...provider };
+    fields.forEach(([field], index) => {
+        const [group, key] = field.split(".");
+        resolved[group] = { ...resolved[group], [key]: values[index] };
+    });
+    return resolved;
+}
+
+/**
+ * Returns the credential provider callback of a KMS provider
+ * 
+ * @param provider - The KMS provider configuration
+ * @returns The callback, or undefined for static or "onDemand" credentials
+ */
+function getCredentialProvider(provider: IKMSProvider): TKmsCredentialProvider<any> | undefined {
+    return isCloudKmsProvider(provider) && typeof provider.credentials === "function" ? provider.credentials : undefined;
+}
+
+/**
+ * Returns the credentials configured directly on a KMS provider
+ * 
+ * @param provider - The KMS provider configuration
+ * @returns Static credentials, or an empty object for "onDemand" providers
+ * @throws {KMSError} If the provider type is not supported
+ */
+function getConfiguredCredentials(provider: IKMSProvider): Record<string, any> {
+    switch (provider.type) {
+        case "local":
+            return { key: provider.local.key };
+        case "kmip":
+            return { endpoint: provider.kmip.endpoint };
+        case "aws":
+            return provider.credentials === "onDemand" ? {} : { ...provider.aws };
+        case "azure":
+            return provider.credentials === "onDemand" ? {} : { ...provider.azure };
+        case "gcp":
+            return provider.credentials === "onDemand" ? {} : { ...provider.gcp };
+        default:
+            throw new KMSError(`Unsupported KMS provider: ${String((provider as { type?: unknown }).type)}`);
+    }
+}
+
+/**
+ * Calls a credential provider, or returns its cached credentials if they don't expire soon.
+ * Concurrent calls share one request.
+ * 
+ * @param credentialProvider - Credential provider callback
+ * @param name - The KMS provider name (for error messages)
+ * @returns Credentials without their expiration
+ * @throws {KMSError} If the credential provider fails or returns invalid credentials
+ */
+async function fetchKmsCredentials(credentialProvider: TKmsCredentialProvider<any>, name: string): Promise<Record<string, any>> {
+    const cached = readCachedCredentials(credentialProvider);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    let pending = pendingCredentials.get(credentialProvider);
+    if (pending === undefined) {
+        pending = Promise.resolve()
+            .then(() => credentialProvider())
+            .then((result) => storeCredentials(credentialProvider, result, name))
+            .finally(() => pendingCredentials.delete(credentialProvider));
+        pendingCredentials.set(credentialProvider, pending);
+    }
+
+    try {
+        return await pending;
+    } catch (error: any) {
+        if (error instanceof KMSError) {
+            throw error;
+        }
+        throw new KMSError(`Failed to fetch credentials for KMS provider '${name}': ${error.message || String(error)}`, {
+            code: "KMS_CREDENTIALS_UNAVAILABLE",
+            cause: error,
+            context: { provider: name },
+        });
+    }
+}
+
+/**
+ * Picks the fields the driver expects from credentials returned by an AWS credential provider
+ * 
+ * @param credentials - Credentials without their expiration
+ * @returns AWS credentials for credentialProviders.aws
+ */
+function toAwsCredentials({ accessKeyId, secretAccessKey, sessionToken }: Record<string, any>): AWSCredentials {
+    return sessionToken === undefined ? { accessKeyId, secretAccessKey } : { accessKeyId, secretAccessKey, sessionToken };
+}
+
+/**
+ * Returns cached credentials that don't expire within the refresh window
+ * 
+ * @param credentialProvider - Credential provider callback
+ * @returns The cached credentials, or undefined
+ */
+function readCachedCredentials(credentialProvider: TKmsCredentialProvider<any>): Record<string, any> | undefined {
+    const cached = credentialCache.get(credentialProvider);
+    if (cached !== undefined && cached.expiresAt - CREDENTIAL_REFRESH_WINDOW_MS > Date.now()) {
+        return cached.credentials;
+    }
+    return undefined;
+}
+
+/**
+ * Validates credentials returned by a credential provider and caches them if they expire
+ * 
+ * @param credentialProvider - Credential provider callback
+ * @param result - Credentials returned by the callback
+ * @param name - The KMS provider name (for error messages)
+ * @returns Credentials without their expiration
+ * @throws {KMSError} If the credentials are not an object or the expiration is not a valid Date
+ */
+function storeCredentials(credentialProvider: TKmsCredentialProvider<any>, result: TKmsCredentials<any>, name: string): Record<string, any> {
+    if (typeof result !== "object" || result === null) {
+        throw new KMSError(`Credential provider for KMS provider '${name}' must return an object`, {
+            code: "KMS_CREDENTIALS_UNAVAILABLE",
+            context: { provider: name },
+        });
+    }
+
+    const { expiration, ...credentials } = result;
+    if (expiration !== undefined) {
+        if (!(expiration instanceof Date) || Number.isNaN(expiration.getTime())) {
+            throw new KMSError(`Credential provider for KMS provider '${name}' returned an invalid expiration`, {
+                code: "KMS_CREDENTIALS_UNAVAILABLE",
+                context: { provider: name },
+            });
+        }
+        credentialCache.set(credentialProvider, { credentials, expiresAt: expiration.getTime() });
+    }
+    return credentials;
+}
@@ -0,0 +1,121 @@
+import { Binary, Document } from "mongodb";
+import { EEncryptionAlgorithm } from "../enums/enums";
+import { ICollectionEncryptionSchema, IEncryptDefinition, TProperties } from "../types/schema";
+import { ICiphertextInfo, IMigrationResult } from "../types/migrationService";
+
+// CSFLE ciphertext: blob subtype (1 deterministic, 2 random), key UUID (16 bytes), original BSON type, payload
+const DETERMINISTIC_BLOB_SUBTYPE = 1;
+const RANDOM_BLOB_SUBTYPE = 2;
+const CIPHERTEXT_HEADER_LENGTH = 18;
+
+const bsonTypeNames: Record<number, string> = {
+    0x01: "double",
+    0x02: "string",
+    0x03: "object",
+    0x04: "array",
+    0x05: "binData",
+    0x07: "objectId",
+    0x08: "bool",
+    0x09: "date",
+    0x0b: "regex",
+    0x0d: "javascript",
+    0x0e: "symbol",
+    0x0f: "javascriptWithScope",
+    0x10: "int",
+    0x11: "timestamp",
+    0x12: "long",
+    0x13: "decimal",
+};
+
+/**
+ * Collects every encrypted field in a CSFLE collection schema with its encrypt definition
+ * 
+ * @param schema - Collection schema from the schemaMap
+ * @param parentPath - Path of the enclosing object for nested fields
+ * @returns Dotted paths and encrypt definitions of the encrypted fields
+ */
+export function collectEncryptedFields(schema: ICollectionEncryptionSchema, parentPath = ""): Array<[string, IEncryptDefinition]> {
+    return Object.entries(schema.properties ?? {}).flatMap(([fieldName, property]: [string, TProperties]): Array<[string, IEncryptDefinition]> => {
+        const path = parentPath ? `${parentPath}.${fieldName}` : fieldName;
+        return "encrypt" in property ? [[path, property.encrypt]] : collectEncryptedFields(property, path);
+    });
+}
+
+/**
+ * Collects the dotted paths of every encrypted field in a CSFLE collection schema
+ * 
+ * @param schema - Collection schema from the schemaMap
+ * @returns Dotted paths of the encrypted fields
+ */
+export function collectEncryptedPaths(schema: ICollectionEncryptionSchema): string[] {
+    return collectEncryptedFields(schema).map(([path]) => path);
+}
+
+/**
+ * Reads the value at a dotted path of a document
+ * 
+ * @param document - Document to read
+ * @param path - Dotted path, e.g. "address.city"
+ * @returns The value, or undefined if any part of the path is missing
+ */
+export function getValueAtPath(document: Document, path: string): unknown {
+    return path.split(".").reduce<unknown>(
+        (value, key) => (value !== null && typeof value === "object" ? (value as Document)[key] : undefined),
+        document
+    );
+}
+
+/**
+ * Checks whether a value is ciphertext (BSON Binary subtype 6)
+ * 
+ * @param value - Value read with a client without auto-encryption
+ * @returns true if the value is encrypted
+ */
+export function isEncryptedValue(value: unknown): boolean {
+    return value instanceof Binary && value.sub_type === Binary.SUBTYPE_ENCRYPTED;
+}
+
+/**
+ * Reads the header of a CSFLE ciphertext, which records how the value was encrypted. This lets a
+ * re-key compare existing data with a new schema without knowing the schema it was written with.
+ * 
+ * @param value - Value read with a client without auto-encryption
+ * @returns Algorithm, DEK id and original BSON type, or undefined if the value is not CSFLE ciphertext
+ */
+export function describeCiphertext(value: unknown): ICiphertextInfo | undefined {
+    if (!isEncryptedValue(value)) {
+        return undefined;
+    }
+
+    const bytes = Buffer.from((value as Binary).value());
+    if (bytes.length < CIPHERTEXT_HEADER_LENGTH ||
+        (bytes[0] !== DETERMINISTIC_BLOB_SUBTYPE && bytes[0] !== RANDOM_BLOB_SUBTYPE)) {
+        return undefined;
+    }
+
+    return {
+        algorithm: bytes[0] === DETERMINISTIC_BLOB_SUBTYPE ? EEncryptionAlgorithm.DETERMINISTIC : EEncryptionAlgorithm.RANDOM,
+        keyId: new Binary(bytes.subarray(1, 17), Binary.SUBTYPE_UUID),
+        bsonType: bsonTypeNames[bytes[17]] ?? "unknown",
+    };
+}
+
+/**
+ * Formats the result of a migration as a one-paragraph summary
+ * 
+ * @param result - Result returned by a MigrationService migration
+ * @returns Human-readable summary
+ */
+export function formatMigrationSummary(result: IMigrationResult): string {
+    const lines = [
+        `${result.migrationId} on ${result.namespace}${result.resumed ? " (resumed)" : ""}: ` +
+        `${result.converted} converted, ${result.skipped} skipped, ${result.failed} failed in ${(result.durationMs / 1000).toFixed(1)}s`,
+    ];
+    for (const failure of result.failures) {
+        lines.push(`  failed ${JSON.stringify(failure._id)}: ${failure.error}`);
+    }
+    if (result.failed > result.failures.length) {
+        lines.push(`  ... and ${result.failed - result.failures.length} more`);
+    }
+    return lines.join("\n");
+}
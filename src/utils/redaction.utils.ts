@@ -0,0 +1,36 @@
+const REDACTED = "[REDACTED]";
+
+/**
+ * Shorter secrets are not redacted, as they would match unrelated text
+ */
+const MIN_REDACTED_LENGTH = 8;
+
+const registeredSecrets = new Set<string>();
+
+/**
+ * Registers a secret value so that it is redacted from error messages and from text passed to redactSecrets.
+ * Secrets resolved from a secret source are registered automatically.
+ * 
+ * @param value - Secret value
+ */
+export function registerSecret(value: string): void {
+    if (typeof value === "string" && value.length >= MIN_REDACTED_LENGTH) {
+        registeredSecrets.add(value);
+    }
+}
+
+/**
+ * Replaces every registered secret in a text with "[REDACTED]", e.g. before logging it
+ * 
+ * @param text - Text that may contain secrets
+ * @returns The text without registered secrets
+ */
+export function redactSecrets(text: string): string {
+    if (registeredSecrets.size === 0 || typeof text !== "string") {
+        return text;
+    }
+
+    // Longest first, so a secret containing another one is redacted as a whole
+    const secrets = [...registeredSecrets].sort((a, b) => b.length - a.length);
+    return secrets.reduce((redacted, secret) => redacted.split(secret).join(REDACTED), text);
+}
@@ -1,6 +1,16 @@
+import { Binary } from 'mongodb';
 import { EEncryptionAlgorithm } from '../enums/enums';
-import { ICollectionEncryptionSchema, IEncryptionSchema, TBsonType, IEncryptDefinition, IEncryptedField } from '../types/schema';
-import { SchemaError, ValidationError } from '../errors/errors';
+import {
+    IEncryptionSchema,
+    TBsonType,
+    IEncryptedFieldsMap,
+    IQueryableEncryptionQuery,
+    ISchemaValidationIssue,
+    ISchemaValidationReport,
+    TSchemaIssueSeverity
+} from '../types/schema';
+import { IMirageErrorContext, TMirageErrorCode } from '../types/errors';
+import { SchemaError } from '../errors/errors';
 
 const deterministicSupportedTypes: TBsonType[] = [
     "string",
@@ -11,144 +21,503 @@ const deterministicSupportedTypes: TBsonType[] = [
     "uuid" as TBsonType, // Adding as TBsonType since uuid may not be in TBsonType
 ];
 
+const rangeSupportedTypes: TBsonType[] = [
+    "int",
+    "long",
+    "double",
+    "decimal",
+    "date",
+];
+
+const equalityUnsupportedTypes: TBsonType[] = [
+    "double",
+    "decimal",
+    "array",
+    "object" as TBsonType,
+];
+
+/**
+ * Keys allowed in a CSFLE schema node
+ */
+const allowedSchemaKeys = [
+    "bsonType",
+    "properties",
+    "patternProperties",
+    "encrypt",
+    "encryptMetadata",
+    "description",
+    "title",
+    "required",
+];
+
+const allowedEncryptKeys = ["bsonType", "algorithm", "keyId"];
+const allowedEncryptMetadataKeys = ["keyId", "algorithm"];
+const encryptionAlgorithms: string[] = Object.values(EEncryptionAlgorithm);
+
+/**
+ * Encryption settings a field inherits from the `encryptMetadata` of its enclosing objects
+ */
+interface IInheritedEncryptMetadata {
+    keyId?: unknown;
+    algorithm?: unknown;
+}
+
+/**
+ * Position of a schema node, as a JSON path for reports and as a field name for messages
+ */
+interface ISchemaNodeLocation {
+    path: string;
+    field: string;
+    isCollectionRoot: boolean;
+    insideId: boolean;
+}
+
 /**
  * Validates a MongoDB Client-Side Field Level Encryption (CSFLE) schema
  * 
  * @param schemaObj - The schema to validate
- * @param collectionName - The collection name for context in error messages
+ * @param _collectionName - Deprecated and ignored; messages name the namespaces of the schema
  * @returns true if the schema is valid
- * @throws {SchemaError} If the schema is invalid
+ * @throws {SchemaError} If the schema has errors, listing all of them
  */
-function validateCSFLESchema(schemaObj: IEncryptionSchema, collectionName: string = "root"): boolean {
-    try {
-        if (!schemaObj || typeof schemaObj !== "object" || Object.keys(schemaObj).length === 0) {
-            throw new SchemaError("Schema cannot be empty");
-        }
+function validateCSFLESchema(schemaObj: IEncryptionSchema, _collectionName?: string): boolean {
+    const { errors } = validateSchemaDetailed(schemaObj);
+
+    if (errors.length === 1) {
+        throw new SchemaError(errors[0].message, { code: errors[0].code });
+    }
+    if (errors.length > 1) {
+        throw new SchemaError(`Schema has ${errors.length} errors:\n${errors.map((error) => `- ${error.message}`).join("\n")}`);
+    }
+    return true;
+}
 
-        for (const [_, schema] of Object.entries(schemaObj)) {
+/**
+ * Validates a MongoDB CSFLE schema and collects every problem instead of stopping at the first one
+ * 
+ * @param schemaObj - The schema to validate, keyed by namespace
+ * @returns Errors and warnings with the JSON path of the value they are about
+ */
+function validateSchemaDetailed(schemaObj: IEncryptionSchema): ISchemaValidationReport {
+    const issues: ISchemaValidationIssue[] = [];
+
+    if (!schemaObj || typeof schemaObj !== "object" || Object.keys(schemaObj).length === 0) {
+        addIssue(issues, "error", "SCHEMA_INVALID", "$", "Schema cannot be empty");
+    } else {
+        for (const [namespace, schema] of Object.entries(schemaObj)) {
+            const path = jsonPath("$", namespace);
             if (typeof schema !== "object" || schema === null) {
-                throw new SchemaError(
-                    `Schema for '${collectionName}' must be a non-null object.`
-                );
+                addIssue(issues, "error", "SCHEMA_INVALID", path, `Schema for '${namespace}' must be a non-null object.`);
+                continue;
+            }
+
+            validateNode(schema, { path, field: namespace, isCollectionRoot: true, insideId: false }, {}, issues);
+        }
+    }
+
+    const errors = issues.filter((issue) => issue.severity === "error");
+    return {
+        valid: errors.length === 0,
+        errors,
+        warnings: issues.filter((issue) => issue.severity === "warning"),
+    };
+}
+
+/**
+ * Recursively validates a schema node
+ * 
+ * @param obj - The node to validate
+ * @param location - Where the node is
+ * @param inherited - encryptMetadata of the enclosing objects
+ * @param issues - Collected issues
+ */
+function validateNode(obj: any, location: ISchemaNodeLocation, inherited: IInheritedEncryptMetadata, issues: ISchemaValidationIssue[]): void {
+    const { path, field } = location;
+
+    if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+        addIssue(issues, "error", "SCHEMA_INVALID", path, `Invalid schema at '${field}': must be an object definition.`);
+        return;
+    }
+
+    for (const key of Object.keys(obj)) {
+        if (!allowedSchemaKeys.includes(key)) {
+            addIssue(issues, "error", "SCHEMA_UNKNOWN_KEYWORD", jsonPath(path, key),
+                `Invalid key '${key}' found at '${field}'. Allowed keys are: ${allowedSchemaKeys.join(", ")}`);
+        }
+    }
+
+    let metadata = inherited;
+    if (obj.encryptMetadata !== undefined) {
+        metadata = validateEncryptMetadata(obj.encryptMetadata, jsonPath(path, "encryptMetadata"), field, inherited, issues);
+        if (obj.encrypt !== undefined) {
+            addIssue(issues, "warning", "SCHEMA_INVALID", jsonPath(path, "encryptMetadata"),
+                `encryptMetadata at '${field}' has no effect next to encrypt. Move it to an enclosing object.`);
+        }
+    }
+
+    if (obj.encrypt !== undefined) {
+        validateEncrypt(obj.encrypt, jsonPath(path, "encrypt"), field, metadata, issues);
+        if (location.insideId) {
+            addIssue(issues, "error", "SCHEMA_ENCRYPTED_ID", jsonPath(path, "encrypt"),
+                `Invalid schema at '${field}': _id and its subfields cannot be encrypted.`);
+        }
+    }
+
+    if (obj.properties !== undefined) {
+        if (obj.bsonType !== "object") {
+            addIssue(issues, "error", "SCHEMA_INVALID_TYPE", jsonPath(path, "bsonType"),
+                `Invalid schema at '${field}': fields with 'properties' must have bsonType 'object'.`);
+        }
+        if (typeof obj.properties !== "object" || obj.properties === null || Array.isArray(obj.properties)) {
+            addIssue(issues, "error", "SCHEMA_INVALID", jsonPath(path, "properties"), `Invalid schema at '${field}': 'properties' must be an object.`);
+        } else if (Object.keys(obj.properties).length === 0) {
+            addIssue(issues, "error", "SCHEMA_INVALID", jsonPath(path, "properties"), `Invalid schema at '${field}': 'properties' must not be empty.`);
+        } else {
+            for (const [key, value] of Object.entries(obj.properties)) {
+                validateNode(value, {
+                    path: jsonPath(jsonPath(path, "properties"), key),
+                    field: `${field}.${key}`,
+                    isCollectionRoot: false,
+                    insideId: location.insideId || (location.isCollectionRoot && key === "_id"),
+                }, metadata, issues);
             }
+        }
+    }
 
-            recursiveValidate(schema, collectionName);
+    if (obj.patternProperties !== undefined) {
+        if (obj.bsonType !== "object") {
+            addIssue(issues, "error", "SCHEMA_INVALID_TYPE", jsonPath(path, "patternProperties"),
+                `Invalid schema at '${field}': 'patternProperties' must be inside bsonType 'object'.`);
+        }
+        if (typeof obj.patternProperties !== "object" || obj.patternProperties === null || Array.isArray(obj.patternProperties)) {
+            addIssue(issues, "error", "SCHEMA_INVALID", jsonPath(path, "patternProperties"), `Invalid schema at '${field}': 'patternProperties' must be an object.`);
+            return;
         }
 
-        return true;
-    } catch (error: any) {
-        if (error instanceof SchemaError) {
-            throw error;
+        for (const [pattern, value] of Object.entries(obj.patternProperties)) {
+            const patternPath = jsonPath(jsonPath(path, "patternProperties"), pattern);
+            let matchesId = false;
+            try {
+                matchesId = new RegExp(pattern).test("_id");
+            } catch (error: any) {
+                addIssue(issues, "error", "SCHEMA_INVALID_PATTERN", patternPath,
+                    `Invalid patternProperties regex '${pattern}' at '${field}': ${error.message}`);
+            }
+
+            validateNode(value, {
+                path: patternPath,
+                field: `${field}{${pattern}}`,
+                isCollectionRoot: false,
+                insideId: location.insideId || (location.isCollectionRoot && matchesId),
+            }, metadata, issues);
         }
-        throw new SchemaError(`Schema validation failed: ${error.message}`);
     }
 }
 
 /**
- * Validates an encrypt definition for a field
+ * Validates an encrypt definition for a field, taking inherited encryptMetadata into account
  * 
- * @param field - Field name
  * @param encryptDef - Encrypt definition to validate
- * @throws {SchemaError} If the encrypt definition is invalid
+ * @param path - JSON path of the encrypt definition
+ * @param field - Field name
+ * @param inherited - encryptMetadata of the enclosing objects
+ * @param issues - Collected issues
  */
-function validateEncrypt(field: string, encryptDef: IEncryptDefinition): void {
-    if (typeof encryptDef !== "object") {
-        throw new SchemaError(`Invalid encrypt definition for field '${field}'.`);
+function validateEncrypt(encryptDef: any, path: string, field: string, inherited: IInheritedEncryptMetadata, issues: ISchemaValidationIssue[]): void {
+    if (typeof encryptDef !== "object" || encryptDef === null || Array.isArray(encryptDef)) {
+        addIssue(issues, "error", "SCHEMA_INVALID", path, `Invalid encrypt definition for field '${field}'.`);
+        return;
     }
 
-    if (!encryptDef.bsonType) {
-        throw new SchemaError(`Missing bsonType for encrypted field '${field}'.`);
+    for (const key of Object.keys(encryptDef)) {
+        if (!allowedEncryptKeys.includes(key)) {
+            addIssue(issues, "error", "SCHEMA_UNKNOWN_KEYWORD", jsonPath(path, key),
+                `Invalid key '${key}' in encrypt definition for field '${field}'. Allowed keys are: ${allowedEncryptKeys.join(", ")}`);
+        }
     }
-    if (!encryptDef.algorithm) {
-        throw new SchemaError(`Missing algorithm for encrypted field '${field}'.`);
+
+    const bsonType: TBsonType | undefined = encryptDef.bsonType;
+    if (!bsonType) {
+        addIssue(issues, "error", "SCHEMA_INVALID_TYPE", path, `Missing bsonType for encrypted field '${field}'.`);
     }
 
-    const bsonType = encryptDef.bsonType;
-    const algorithm = encryptDef.algorithm;
+    const algorithm = encryptDef.algorithm ?? inherited.algorithm;
+    if (!algorithm) {
+        addIssue(issues, "error", "SCHEMA_INVALID_ALGORITHM", path, `Missing algorithm for encrypted field '${field}'. Set it here or in the encryptMetadata of an enclosing object.`);
+    } else if (encryptDef.algorithm !== undefined) {
+        validateAlgorithm(encryptDef.algorithm, jsonPath(path, "algorithm"), field, issues);
+    }
 
-    if (
-        algorithm === EEncryptionAlgorithm.DETERMINISTIC &&
-        !deterministicSupportedTypes.includes(bsonType)
-    ) {
-        throw new SchemaError(
-            `Invalid schema for '${field}': bsonType '${bsonType}' is not supported with Deterministic algorithm. ` +
-            `Supported types for deterministic encryption are: ${deterministicSupportedTypes.join(", ")}`
-        );
+    const keyId = encryptDef.keyId ?? inherited.keyId;
+    if (keyId === undefined) {
+        addIssue(issues, "error", "SCHEMA_INVALID_KEY_ID", path, `Missing keyId for encrypted field '${field}'. Set it here or in the encryptMetadata of an enclosing object.`);
+    } else if (encryptDef.keyId !== undefined) {
+        validateKeyId(encryptDef.keyId, jsonPath(path, "keyId"), field, issues);
     }
-}
 
+    if (algorithm === EEncryptionAlgorithm.DETERMINISTIC) {
+        if (bsonType && !deterministicSupportedTypes.includes(bsonType)) {
+            addIssue(issues, "error", "SCHEMA_INVALID_TYPE", jsonPath(path, "bsonType"),
+                `Invalid schema for '${field}': bsonType '${bsonType}' is not supported with Deterministic algorithm. ` +
+                `Supported types for deterministic encryption are: ${deterministicSupportedTypes.join(", ")}`
+            );
+        }
+        if (isKeyIdPointer(keyId)) {
+            addIssue(issues, "error", "SCHEMA_INVALID_KEY_ID", encryptDef.keyId !== undefined ? jsonPath(path, "keyId") : path,
+                `Invalid schema for '${field}': keyId pointers require the Random algorithm.`);
+        }
+    }
+}
 
 /**
- * Recursively validates a schema object
+ * Validates the encryptMetadata of an object and merges it with the metadata it inherits
  * 
- * @param obj - The object to validate
- * @param parentPath - Path for context in error messages
- * @throws {SchemaError} If the schema is invalid
+ * @param metadata - encryptMetadata to validate
+ * @param path - JSON path of the encryptMetadata
+ * @param field - Field name
+ * @param inherited - encryptMetadata of the enclosing objects
+ * @param issues - Collected issues
+ * @returns The metadata fields below this object inherit
  */
-function recursiveValidate(obj: any, parentPath: string): void {
-    if (typeof obj !== "object" || obj === null) {
-        throw new SchemaError(
-            `Invalid schema at '${parentPath}': must be an object definition.`
-        );
+function validateEncryptMetadata(metadata: any, path: string, field: string, inherited: IInheritedEncryptMetadata,
+    issues: ISchemaValidationIssue[]): IInheritedEncryptMetadata {
+    if (typeof metadata !== "object" || metadata === null || Array.isArray(metadata)) {
+        addIssue(issues, "error", "SCHEMA_INVALID", path, `Invalid encryptMetadata at '${field}': must be an object.`);
+        return inherited;
     }
 
-    if (obj.properties) {
-        if (obj.bsonType !== "object") {
-            throw new SchemaError(
-                `Invalid schema at '${parentPath}': fields with 'properties' must have bsonType 'object'.`
-            );
-        }
-        if (Object.keys(obj.properties).length === 0) {
-            throw new SchemaError(
-                `Invalid schema at '${parentPath}': 'properties' must not be empty.`
-            );
+    for (const key of Object.keys(metadata)) {
+        if (!allowedEncryptMetadataKeys.includes(key)) {
+            addIssue(issues, "error", "SCHEMA_UNKNOWN_KEYWORD", jsonPath(path, key),
+                `Invalid key '${key}' in encryptMetadata at '${field}'. Allowed keys are: ${allowedEncryptMetadataKeys.join(", ")}`);
         }
     }
 
-    // If encrypt exists, validate it
-    if (obj.encrypt) {
-        validateEncrypt(parentPath, obj.encrypt);
+    if (metadata.algorithm !== undefined) {
+        validateAlgorithm(metadata.algorithm, jsonPath(path, "algorithm"), field, issues);
+    }
+    if (metadata.keyId !== undefined) {
+        validateKeyId(metadata.keyId, jsonPath(path, "keyId"), field, issues);
+    }
+
+    const merged: IInheritedEncryptMetadata = {
+        keyId: metadata.keyId ?? inherited.keyId,
+        algorithm: metadata.algorithm ?? inherited.algorithm,
+    };
+    if ((metadata.keyId !== undefined || metadata.algorithm !== undefined) &&
+        merged.algorithm === EEncryptionAlgorithm.DETERMINISTIC && isKeyIdPointer(merged.keyId)) {
+        addIssue(issues, "error", "SCHEMA_INVALID_KEY_ID", path, `Invalid encryptMetadata at '${field}': keyId pointers require the Random algorithm.`);
+    }
+    return merged;
+}
+
+/**
+ * Validates an encryption algorithm name
+ * 
+ * @param algorithm - Algorithm to validate
+ * @param path - JSON path of the algorithm
+ * @param field - Field name
+ * @param issues - Collected issues
+ */
+function validateAlgorithm(algorithm: unknown, path: string, field: string, issues: ISchemaValidationIssue[]): void {
+    if (typeof algorithm !== "string" || !encryptionAlgorithms.includes(algorithm)) {
+        addIssue(issues, "error", "SCHEMA_INVALID_ALGORITHM", path,
+            `Invalid algorithm '${String(algorithm)}' for '${field}'. Allowed values are: ${encryptionAlgorithms.join(", ")}`);
     }
+}
 
-    // Recurse into properties
-    if (obj.properties) {
-        for (const [key, value] of Object.entries(obj.properties)) {
-            recursiveValidate(value, `${parentPath}.${key}`);
+/**
+ * Validates a keyId: either DEK ids as UUID Binary values, or a JSON pointer to a keyAltName
+ * 
+ * @param keyId - keyId to validate
+ * @param path - JSON path of the keyId
+ * @param field - Field name
+ * @param issues - Collected issues
+ */
+function validateKeyId(keyId: unknown, path: string, field: string, issues: ISchemaValidationIssue[]): void {
+    if (typeof keyId === "string") {
+        if (!keyId.startsWith("/")) {
+            addIssue(issues, "error", "SCHEMA_INVALID_KEY_ID", path,
+                `Invalid schema for '${field}': keyId '${keyId}' must be a JSON pointer such as "/tenantId".`);
         }
+        return;
     }
 
-    // Recurse into patternProperties
-    if (obj.patternProperties) {
-        if (obj.bsonType !== "object") {
-            throw new SchemaError(
-                `Invalid schema at '${parentPath}': 'patternProperties' must be inside bsonType 'object'.`
-            );
+    if (!Array.isArray(keyId)) {
+        addIssue(issues, "error", "SCHEMA_INVALID_KEY_ID", path, `Invalid keyId for '${field}': must be an array of DEK ids or a JSON pointer.`);
+        return;
+    }
+    if (keyId.length === 0) {
+        addIssue(issues, "warning", "SCHEMA_INVALID_KEY_ID", path, `keyId for '${field}' is empty. It must hold a DEK id before the schema is used.`);
+    }
+    keyId.forEach((id, index) => {
+        if (!(id instanceof Binary) || id.sub_type !== Binary.SUBTYPE_UUID || id.length() !== 16) {
+            addIssue(issues, "error", "SCHEMA_INVALID_KEY_ID", jsonPath(path, index),
+                `Invalid keyId for '${field}': DEK ids must be UUID Binary values (subtype 4).`);
         }
-        for (const [pattern, value] of Object.entries(obj.patternProperties)) {
-            recursiveValidate(value, `${parentPath}{${pattern}}`);
+    });
+}
+
+/**
+ * Checks whether a keyId is a JSON pointer to a keyAltName rather than DEK ids
+ * 
+ * @param keyId - keyId to check
+ * @returns true for strings starting with "/"
+ */
+function isKeyIdPointer(keyId: unknown): boolean {
+    return typeof keyId === "string" && keyId.startsWith("/");
+}
+
+/**
+ * Appends a JSON path segment, using bracket notation for keys that are not identifiers
+ * 
+ * @param parent - Parent path
+ * @param key - Property name or array index
+ * @returns The child path
+ */
+function jsonPath(parent: string, key: string | number): string {
+    if (typeof key === "number") {
+        return `${parent}[${key}]`;
+    }
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Records a validation issue
+ * 
+ * @param issues - Collected issues
+ * @param severity - Whether the issue makes the schema invalid
+ * @param code - Error code of the issue
+ * @param path - JSON path of the offending value
+ * @param message - Description of the issue
+ */
+function addIssue(issues: ISchemaValidationIssue[], severity: TSchemaIssueSeverity, code: TMirageErrorCode, path: string, message: string): void {
+    issues.push({ path, severity, code, message });
+}
+
+/**
+ * Validates a MongoDB Queryable Encryption encryptedFieldsMap
+ * 
+ * @param encryptedFieldsMap - The encryptedFieldsMap to validate
+ * @returns true if the encryptedFieldsMap is valid
+ * @throws {SchemaError} If the encryptedFieldsMap is invalid
+ */
+function validateEncryptedFieldsMap(encryptedFieldsMap: IEncryptedFieldsMap): boolean {
+    if (!encryptedFieldsMap || typeof encryptedFieldsMap !== "object" || Object.keys(encryptedFieldsMap).length === 0) {
+        throw new SchemaError("encryptedFieldsMap cannot be empty");
+    }
+
+    for (const [namespace, encryptedFields] of Object.entries(encryptedFieldsMap)) {
+        if (!encryptedFields || !Array.isArray(encryptedFields.fields)) {
+            throw new SchemaError(`Encrypted fields for '${namespace}' must contain a 'fields' array.`, { context: { namespace } });
+        }
+
+        const paths = new Set<string>();
+        for (const field of encryptedFields.fields) {
+            if (!field || !field.path) {
+                throw new SchemaError(`Missing path for encrypted field in '${namespace}'.`, { context: { namespace } });
+            }
+
+            const fieldPath = `${namespace}.${field.path}`;
+            const context = { namespace, fieldPath: field.path };
+            if (paths.has(field.path)) {
+                throw new SchemaError(`Duplicate encrypted field '${fieldPath}'.`, { code: "SCHEMA_DUPLICATE_FIELD", context });
+            }
+            paths.add(field.path);
+
+            if (!field.bsonType) {
+                throw new SchemaError(`Missing bsonType for encrypted field '${fieldPath}'.`, { code: "SCHEMA_INVALID_TYPE", context });
+            }
+            if (!field.keyId) {
+                throw new SchemaError(`Missing keyId for encrypted field '${fieldPath}'.`, { code: "SCHEMA_INVALID_KEY_ID", context });
+            }
+
+            if (field.queries) {
+                const queries = Array.isArray(field.queries) ? field.queries : [field.queries];
+                for (const query of queries) {
+                    validateQuery(fieldPath, field.bsonType, query, context);
+                }
+            }
         }
     }
 
-    // Define allowed keys
-    const allowedKeys = [
-        "bsonType",
-        "properties",
-        "patternProperties",
-        "encrypt",
-        "encryptMetadata",
-        "description",
-        "title",
-        "required",
-    ];
+    return true;
+}
 
-    // Detect invalid keys
-    for (const key of Object.keys(obj)) {
-        if (!allowedKeys.includes(key)) {
+/**
+ * Validates a Queryable Encryption query definition for a field
+ * 
+ * @param field - Field path
+ * @param bsonType - BSON type of the field
+ * @param query - Query definition to validate
+ * @param context - Namespace and field path for the error
+ * @throws {SchemaError} If the query definition is invalid
+ */
+function validateQuery(field: string, bsonType: TBsonType, query: IQueryableEncryptionQuery, context: IMirageErrorContext): void {
+    switch (query.queryType) {
+        case "equality":
+            if (equalityUnsupportedTypes.includes(bsonType)) {
+                throw new SchemaError(
+                    `Invalid encrypted field '${field}': bsonType '${bsonType}' does not support equality queries.`,
+                    { code: "SCHEMA_INVALID_TYPE", context }
+                );
+            }
+            break;
+        case "range":
+            if (!rangeSupportedTypes.includes(bsonType)) {
+                throw new SchemaError(
+                    `Invalid encrypted field '${field}': bsonType '${bsonType}' does not support range queries. ` +
+                    `Supported types for range queries are: ${rangeSupportedTypes.join(", ")}`,
+                    { code: "SCHEMA_INVALID_TYPE", context }
+                );
+            }
+            if ((bsonType === "double" || bsonType === "decimal") && query.precision !== undefined &&
+                (query.min === undefined || query.max === undefined)) {
+                throw new SchemaError(`Invalid encrypted field '${field}': precision requires both min and max.`, { code: "SCHEMA_INVALID_QUERY", context });
+            }
+            break;
+        default:
             throw new SchemaError(
-                `Invalid key '${key}' found at '${parentPath}'. Allowed keys are: ${allowedKeys.join(", ")}`
+                `Invalid queryType '${String(query.queryType)}' for encrypted field '${field}'. Allowed values are: equality, range`,
+                { code: "SCHEMA_INVALID_QUERY", context }
             );
-        }
     }
+
+    if (query.contention !== undefined && (!Number.isInteger(query.contention) || query.contention < 0)) {
+        throw new SchemaError(`Invalid contention for encrypted field '${field}': must be a non-negative integer.`, {
+            code: "SCHEMA_INVALID_QUERY",
+            context,
+        });
+    }
+}
+
+/**
+ * Collects the distinct DEK ids a CSFLE schema or encryptedFieldsMap refers to. JSON pointer keyIds
+ * of per-tenant collections are skipped, as their DEKs are only known at write time.
+ * 
+ * @param schema - CSFLE schema or encryptedFieldsMap, keyed by namespace
+ * @returns DEK ids, in order of first use
+ */
+function collectSchemaKeyIds(schema: IEncryptionSchema | IEncryptedFieldsMap): Binary[] {
+    const keyIds = new Map<string, Binary>();
+
+    const visit = (value: unknown): void => {
+        if (Array.isArray(value)) {
+            value.forEach(visit);
+        } else if (value !== null && typeof value === "object" && !(value instanceof Binary)) {
+            for (const [key, child] of Object.entries(value)) {
+                if (key === "keyId") {
+                    [child].flat().filter((id): id is Binary => id instanceof Binary)
+                        .forEach((id) => keyIds.set(Buffer.from(id.buffer).toString("hex"), id));
+                } else {
+                    visit(child);
+                }
+            }
+        }
+    };
+    visit(schema);
+
+    return [...keyIds.values()];
 }
 
-export { validateCSFLESchema };
\ No newline at end of file
+export { validateCSFLESchema, validateSchemaDetailed, validateEncryptedFieldsMap, collectSchemaKeyIds, deterministicSupportedTypes, rangeSupportedTypes, equalityUnsupportedTypes };
\ No newline at end of file
@@ -0,0 +1,303 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import path from "path";
+import { pathToFileURL } from "url";
+import { compileFunction } from "vm";
+import { isMap, isScalar, isSeq, LineCounter, Node, parseDocument } from "yaml";
+import { ISchemaSource, ISourcePosition, TSchemaLoader, TSimpleSchema } from "../types/encryptionSchemaService";
+import { ValidationError } from "../errors/errors";
+
+const YAML_EXTENSIONS = [".yaml", ".yml"];
+const MODULE_EXTENSIONS = [".js", ".cjs", ".mjs"];
+const TYPESCRIPT_EXTENSIONS = [".ts", ".cts", ".mts"];
+
+const requireModule = createRequire(__filename);
+
+/**
+ * Loads a schema file in the simple format. The format is chosen by extension: YAML for .yaml/.yml,
+ * a module for .js/.cjs/.mjs/.ts/.cts/.mts, and JSON otherwise. A custom loader replaces the
+ * built-in ones.
+ * 
+ * @param filePath - Path to the schema file
+ * @param loader - Optional custom loader
+ * @returns The collections with a lookup for their positions in the file
+ * @throws {ValidationError} If the file cannot be read, parsed or is not a schema array
+ */
+export async function loadSchemaSource(filePath: string, loader?: TSchemaLoader): Promise<ISchemaSource> {
+    const extension = path.extname(filePath).toLowerCase();
+
+    if (loader !== undefined) {
+        return toModuleSource(filePath, await runLoader(filePath, () => loader(filePath)));
+    }
+    if (MODULE_EXTENSIONS.includes(extension) || TYPESCRIPT_EXTENSIONS.includes(extension)) {
+        return toModuleSource(filePath, await runLoader(filePath, () => loadSchemaModule(filePath, extension)));
+    }
+
+    const text = readSchemaText(filePath);
+    return YAML_EXTENSIONS.includes(extension)
+        ? parseYamlSchema(filePath, text)
+        : parseJsonSchema(filePath, text);
+}
+
+/**
+ * Prefixes a message with the file and, when known, the line and column of a schema entry
+ * 
+ * @param source - Loaded schema file
+ * @param entryPath - Path to the entry, e.g. [0, "users", "ssn"]
+ * @param message - Error message
+ * @returns Message in the form "file:line:column: message"
+ */
+export function formatSchemaError(source: ISchemaSource, entryPath: Array<string | number>, message: string): string {
+    return formatLocation(source.filePath, source.locate(entryPath), message);
+}
+
+/**
+ * Formats a message with a file and an optional position
+ * 
+ * @param filePath - Path to the schema file
+ * @param position - Position in the file, if known
+ * @param message - Error message
+ * @returns Message prefixed with the location
+ */
+function formatLocation(filePath: string, position: ISourcePosition | undefined, message: string): string {
+    return position === undefined
+        ? `${filePath}: ${message}`
+        : `${filePath}:${position.line}:${position.column}: ${message}`;
+}
+
+/**
+ * Reads a schema file as text
+ * 
+ * @param filePath - Path to the schema file
+ * @returns File contents
+ * @throws {ValidationError} If the file cannot be read
+ */
+function readSchemaText(filePath: string): string {
+    try {
+        return readFileSync(filePath, "utf-8");
+    } catch (error: any) {
+        throw new ValidationError(`Failed to read schema file ${filePath}: ${error.message || String(error)}`);
+    }
+}
+
+/**
+ * Parses a JSON schema file. JSON is also valid YAML, so the YAML parser supplies positions.
+ * 
+ * @param filePath - Path to the schema file
+ * @param text - File contents
+ * @returns Loaded schema file
+ * @throws {ValidationError} If the JSON is invalid or not an array
+ */
+function parseJsonSchema(filePath: string, text: string): ISchemaSource {
+    let collections: unknown;
+    try {
+        collections = JSON.parse(text);
+    } catch (error: any) {
+        const offset = /at position (\d+)/.exec(error.message)?.[1];
+        const position = toPosition(text, offset === undefined ? text.length : Number(offset));
+        throw new ValidationError(formatLocation(filePath, position, `Invalid JSON in schema file: ${error.message}`));
+    }
+
+    const lineCounter = new LineCounter();
+    const document = parseDocument(text, { lineCounter });
+    return toSource(filePath, collections, (entryPath) => locateNode(document.contents, entryPath, lineCounter));
+}
+
+/**
+ * Parses a YAML schema file
+ * 
+ * @param filePath - Path to the schema file
+ * @param text - File contents
+ * @returns Loaded schema file
+ * @throws {ValidationError} If the YAML is invalid or not a sequence
+ */
+function parseYamlSchema(filePath: string, text: string): ISchemaSource {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(text, { lineCounter, prettyErrors: false });
+
+    const [error] = document.errors;
+    if (error) {
+        const position = lineCounter.linePos(error.pos[0]);
+        throw new ValidationError(formatLocation(filePath, { line: position.line, column: position.col }, `Invalid YAML in schema file: ${error.message}`));
+    }
+
+    return toSource(filePath, document.toJS(), (entryPath) => locateNode(document.contents, entryPath, lineCounter));
+}
+
+/**
+ * Wraps parsed collections in a schema source after checking they form an array
+ * 
+ * @param filePath - Path to the schema file
+ * @param collections - Parsed file contents
+ * @param locate - Position lookup for entries in the file
+ * @returns Loaded schema file
+ * @throws {ValidationError} If the contents are not an array
+ */
+function toSource(filePath: string, collections: unknown, locate: ISchemaSource["locate"]): ISchemaSource {
+    const source: ISchemaSource = { filePath, collections: collections as TSimpleSchema, locate };
+    if (!Array.isArray(collections)) {
+        throw new ValidationError(formatSchemaError(source, [], "Schema file must contain an array of collections"));
+    }
+    return source;
+}
+
+/**
+ * Wraps the output of a module or custom loader, which carries no positions
+ * 
+ * @param filePath - Path to the schema file
+ * @param collections - Loader output
+ * @returns Loaded schema file
+ * @throws {ValidationError} If the output is not an array
+ */
+function toModuleSource(filePath: string, collections: unknown): ISchemaSource {
+    return toSource(filePath, collections, () => undefined);
+}
+
+/**
+ * Runs a loader, wrapping its failures with the file name
+ * 
+ * @param filePath - Path to the schema file
+ * @param load - Loader to run
+ * @returns Loader output
+ * @throws {ValidationError} If the loader fails
+ */
+async function runLoader(filePath: string, load: () => unknown): Promise<unknown> {
+    try {
+        return await load();
+    } catch (error: any) {
+        if (error instanceof ValidationError) {
+            throw error;
+        }
+        throw new ValidationError(formatLocation(filePath, undefined, `Failed to load schema: ${error.message || String(error)}`));
+    }
+}
+
+/**
+ * Loads a JavaScript or TypeScript schema module. The default export (or module.exports) is
+ * either the schema array or a function, possibly async, returning it.
+ * 
+ * @param filePath - Path to the module
+ * @param extension - Lower-cased file extension
+ * @returns The module's schema
+ */
+async function loadSchemaModule(filePath: string, extension: string): Promise<unknown> {
+    const absolutePath = path.resolve(filePath);
+
+    let exported: any;
+    if (extension === ".mjs") {
+        exported = await import(pathToFileURL(absolutePath).href);
+    } else if (TYPESCRIPT_EXTENSIONS.includes(extension) && !hasRequireHook(extension)) {
+        exported = compileTypeScriptModule(absolutePath);
+    } else {
+        // Drop any cached copy so an edited schema file is picked up
+        delete requireModule.cache[absolutePath];
+        exported = requireModule(absolutePath);
+    }
+
+    const schema = exported !== null && typeof exported === "object" && "default" in exported ? exported.default : exported;
+    return typeof schema === "function" ? await schema() : schema;
+}
+
+/**
+ * Checks whether a loader such as ts-node or tsx already handles an extension
+ * 
+ * @param extension - File extension
+ * @returns true if require() can load the extension
+ */
+function hasRequireHook(extension: string): boolean {
+    return requireModule.extensions[extension] !== undefined;
+}
+
+/**
+ * Transpiles a TypeScript module with the optional `typescript` package and evaluates it
+ * 
+ * @param filePath - Absolute path to the module
+ * @returns The module's exports
+ * @throws {ValidationError} If typescript is not installed or the module has syntax errors
+ */
+function compileTypeScriptModule(filePath: string): unknown {
+    let ts: typeof import("typescript");
+    try {
+        ts = requireModule("typescript");
+    } catch {
+        throw new ValidationError(
+            `${filePath}: Loading TypeScript schema files requires the typescript package, or run under ts-node or tsx`
+        );
+    }
+
+    const text = readSchemaText(filePath);
+    const output = ts.transpileModule(text, {
+        fileName: filePath,
+        reportDiagnostics: true,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    });
+
+    const [diagnostic] = output.diagnostics ?? [];
+    if (diagnostic) {
+        const position = diagnostic.file && diagnostic.start !== undefined
+            ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+            : undefined;
+        throw new ValidationError(formatLocation(
+            filePath,
+            position && { line: position.line + 1, column: position.character + 1 },
+            ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+        ));
+    }
+
+    // Evaluate as a CommonJS module whose require() resolves relative to the schema file
+    const schemaModule: { exports: unknown } = { exports: {} };
+    const evaluate = compileFunction(output.outputText, ["exports", "require", "module", "__filename", "__dirname"], { filename: filePath });
+    evaluate(schemaModule.exports, createRequire(filePath), schemaModule, filePath, path.dirname(filePath));
+    return schemaModule.exports;
+}
+
+/**
+ * Finds the position of an entry in a parsed YAML or JSON document. Map entries resolve to their
+ * key; when the path does not exist, the closest existing parent is returned.
+ * 
+ * @param root - Document root node
+ * @param entryPath - Path to the entry
+ * @param lineCounter - Line counter filled in while parsing
+ * @returns 1-based position, or undefined for an empty document
+ */
+function locateNode(root: unknown, entryPath: Array<string | number>, lineCounter: LineCounter): ISourcePosition | undefined {
+    let node = root as Node | null | undefined;
+    let offset = node?.range?.[0];
+
+    for (const segment of entryPath) {
+        if (isSeq(node) && typeof segment === "number") {
+            node = node.items[segment] as Node | undefined;
+            offset = node?.range?.[0] ?? offset;
+        } else if (isMap(node)) {
+            const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === String(segment));
+            if (!pair) {
+                break;
+            }
+            offset = (pair.key as Node).range?.[0] ?? offset;
+            node = pair.value as Node | null;
+        } else {
+            break;
+        }
+        if (!node) {
+            break;
+        }
+    }
+
+    if (offset === undefined) {
+        return undefined;
+    }
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+}
+
+/**
+ * Converts a character offset into a 1-based line and column
+ * 
+ * @param text - Text the offset points into
+ * @param offset - Character offset
+ * @returns 1-based position
+ */
+function toPosition(text: string, offset: number): ISourcePosition {
+    const lines = text.slice(0, offset).split("\n");
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import { readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { Binary, BSON } from "mongodb";
+import { ISchemaLock, TSchemaLoader } from "../types/encryptionSchemaService";
+import { TEncryptionMode } from "../types/schema";
+import { ConfigurationError, ValidationError } from "../errors/errors";
+import { collectSchemaKeyIds } from "./schema.utils";
+import { loadSchemaSource } from "./schemaLoader.utils";
+
+const LOCK_FILE_FORMAT = "mirage-schema-lock";
+const LOCK_FILE_VERSION = 1;
+
+/**
+ * Computes the SHA-256 of a schema, as recorded in its lock file. The schema is loaded as it is for
+ * generation and hashed as canonical Extended JSON, so changes to modules a .js or .ts schema
+ * imports, or to what a custom loader returns, make the lock stale too.
+ * 
+ * @param schemaFilePath - Path to the schema file
+ * @param loader - Optional loader that reads the file into the simple schema format
+ * @returns Hex digest of the loaded schema
+ * @throws {ValidationError} If the schema cannot be loaded or serialized
+ */
+export async function hashSchemaFile(schemaFilePath: string, loader?: TSchemaLoader): Promise<string> {
+    const { collections } = await loadSchemaSource(schemaFilePath, loader);
+    let canonical: string;
+    try {
+        canonical = BSON.EJSON.stringify(collections, undefined, undefined, { relaxed: false });
+    } catch (error: any) {
+        throw new ValidationError(`Failed to serialize schema ${schemaFilePath}: ${error.message}`, { cause: error });
+    }
+    return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Writes a schema lock as canonical Extended JSON, so DEK ids keep their Binary subtype.
+ * The lock is written to a temporary file next to it and renamed over it, so readers never see a partial lock.
+ * 
+ * @param lockFilePath - Path to the lock file
+ * @param lock - Lock generated by EncryptionSchemaService.generateSchemaLock
+ * @throws {ValidationError} If the file cannot be written
+ */
+export function writeSchemaLock(lockFilePath: string, lock: ISchemaLock): void {
+    const tempFilePath = `${lockFilePath}.${process.pid}.tmp`;
+    try {
+        writeFileSync(tempFilePath, `${BSON.EJSON.stringify(lock, undefined, 2, { relaxed: false })}\n`);
+        renameSync(tempFilePath, lockFilePath);
+    } catch (error: any) {
+        rmSync(tempFilePath, { force: true });
+        throw new ValidationError(`Failed to write schema lock file ${lockFilePath}: ${error.message}`, { cause: error });
+    }
+}
+
+/**
+ * Reads a schema lock file
+ * 
+ * @param lockFilePath - Path to the lock file
+ * @returns The lock, with DEK ids as Binary values
+ * @throws {ValidationError} If the file cannot be read or is not a schema lock
+ */
+export function readSchemaLock(lockFilePath: string): ISchemaLock {
+    let lock: any;
+    try {
+        lock = BSON.EJSON.parse(readFileSync(lockFilePath, "utf-8"), { relaxed: false });
+    } catch (error: any) {
+        throw new ValidationError(`Invalid schema lock file ${lockFilePath}: ${error.message}`, { cause: error });
+    }
+
+    // Canonical Extended JSON parses every number as a BSON wrapper, e.g. Int32
+    if (lock === null || typeof lock !== "object" || lock.format !== LOCK_FILE_FORMAT || Number(lock.version) !== LOCK_FILE_VERSION) {
+        throw new ValidationError(`Unsupported schema lock file format in ${lockFilePath}`);
+    }
+    if ((lock.mode !== "csfle" && lock.mode !== "queryable") || typeof lock.sourceHash !== "string" ||
+        lock.schema === null || typeof lock.schema !== "object") {
+        throw new ValidationError(`Invalid schema lock file ${lockFilePath}: mode, sourceHash and schema are required`);
+    }
+    return { ...lock, version: LOCK_FILE_VERSION };
+}
+
+/**
+ * Checks that a lock file was generated from the current schema for the given mode
+ * 
+ * @param lock - Lock read from the lock file
+ * @param lockFilePath - Path to the lock file (for error messages)
+ * @param schemaFilePath - Path to the schema file
+ * @param mode - Encryption mode the schema is needed for
+ * @param loader - Optional loader the lock was generated with
+ * @throws {ConfigurationError} If the lock is for another mode or the schema changed since it was generated
+ * @throws {ValidationError} If the schema cannot be loaded
+ */
+export async function checkSchemaLock(
+    lock: ISchemaLock,
+    lockFilePath: string,
+    schemaFilePath: string,
+    mode: TEncryptionMode,
+    loader?: TSchemaLoader
+): Promise<void> {
+    if (lock.mode !== mode) {
+        throw new ConfigurationError(`Schema lock file ${lockFilePath} was generated for ${lock.mode} mode, not ${mode}`, {
+            context: { filePath: lockFilePath },
+        });
+    }
+    if (lock.sourceHash !== await hashSchemaFile(schemaFilePath, loader)) {
+        throw new ConfigurationError(
+            `Schema file ${schemaFilePath} changed since ${lockFilePath} was generated. ` +
+            "Regenerate the lock file with `mirage schema lock` or by deleting it.",
+            { code: "SCHEMA_LOCK_STALE", context: { filePath: lockFilePath } }
+        );
+    }
+}
+
+/**
+ * Collects the distinct DEK ids a locked schema refers to, as collectSchemaKeyIds does
+ * 
+ * @param lock - Schema lock
+ * @returns DEK ids, in order of first use
+ */
+export function collectSchemaLockKeyIds(lock: ISchemaLock): Binary[] {
+    return collectSchemaKeyIds(lock.schema);
+}
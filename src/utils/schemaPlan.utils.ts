@@ -0,0 +1,81 @@
+import { Binary } from "mongodb";
+import { EEncryptionAlgorithm } from "../enums/enums";
+import { IPlannedField, ISchemaPlan, TPlannedDEKAction } from "../types/encryptionSchemaService";
+
+const actionSymbols: Record<TPlannedDEKAction, string> = {
+    existing: "=",
+    create: "+",
+    perTenant: "~",
+};
+
+/**
+ * Formats a schema plan as plain text for review, e.g. in a pull request. Fields are grouped by
+ * collection and marked "=" (DEK exists), "+" (DEK will be created) or "~" (per-tenant DEKs);
+ * orphaned key vault entries are marked "-".
+ * 
+ * @param plan - Plan returned by EncryptionSchemaService.plan
+ * @returns Human-readable plan
+ */
+export function formatSchemaPlan(plan: ISchemaPlan): string {
+    const lines: string[] = [`Schema plan (${plan.mode})`];
+
+    const collections = [...new Set(plan.fields.map((field) => field.collection))];
+    for (const collection of collections) {
+        lines.push("", collection);
+        for (const field of plan.fields.filter((planned) => planned.collection === collection)) {
+            lines.push(`  ${actionSymbols[field.action]} ${field.path}  ${field.bsonType}  ${describeEncryption(field)}  ${describeDEK(field)}`);
+        }
+    }
+
+    if (plan.orphanedKeys.length > 0) {
+        lines.push("", "Key vault entries matching no field");
+        for (const key of plan.orphanedKeys) {
+            lines.push(`  - ${key.keyAltNames.join(", ")}  ${formatKeyId(key.keyId)}  ${key.kmsProvider}`);
+        }
+    }
+
+    const { existing, create, perTenant, orphaned } = plan.summary;
+    lines.push("", `Plan: ${create} to create, ${existing} existing, ${perTenant} per-tenant, ${orphaned} orphaned.`);
+
+    return lines.join("\n");
+}
+
+/**
+ * Describes how a field is encrypted
+ * 
+ * @param field - Planned field
+ * @returns Algorithm in CSFLE mode, query type in queryable mode
+ */
+function describeEncryption(field: IPlannedField): string {
+    if (field.algorithm !== undefined) {
+        return field.algorithm === EEncryptionAlgorithm.DETERMINISTIC ? "deterministic" : "random";
+    }
+    return field.queryType ?? "unqueryable";
+}
+
+/**
+ * Describes what happens to a field's DEK
+ * 
+ * @param field - Planned field
+ * @returns Description of the DEK action
+ */
+function describeDEK(field: IPlannedField): string {
+    switch (field.action) {
+        case "existing":
+            return `DEK ${field.keyAltName} exists (${formatKeyId(field.keyId!)})`;
+        case "create":
+            return `DEK ${field.keyAltName} will be created with ${field.kmsProvider}`;
+        case "perTenant":
+            return `per-tenant DEKs selected by ${field.keyAltName}`;
+    }
+}
+
+/**
+ * Formats a DEK id for display
+ * 
+ * @param keyId - DEK id
+ * @returns UUID string, or hex for non-UUID ids
+ */
+function formatKeyId(keyId: Binary): string {
+    return keyId.sub_type === Binary.SUBTYPE_UUID ? keyId.toUUID().toHexString() : keyId.toString("hex");
+}
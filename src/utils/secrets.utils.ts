@@ -0,0 +1,159 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { TSecret, TSecretSource } from "../types/kms";
+import { KMSError } from "../errors/errors";
+import { registerSecret } from "./redaction.utils";
+
+const DEFAULT_SECRET_MOUNT = "/run/secrets";
+const secretSourceKeys = ["fromEnv", "fromFile", "fromSecret"] as const;
+
+/**
+ * Checks whether a value is a secret source rather than a plain secret
+ * 
+ * @param value - Value to check
+ * @returns true for `{ fromEnv }`, `{ fromFile }` and `{ fromSecret }` objects and resolver callbacks
+ */
+export function isSecretSource(value: unknown): value is TSecretSource {
+    if (typeof value === "function") {
+        return true;
+    }
+    return value !== null && typeof value === "object" && secretSourceKeys.some((key) => key in value);
+}
+
+/**
+ * Validates a secret source without reading it. Plain secrets are not checked.
+ * 
+ * @param secret - Secret or secret source
+ * @param label - What the secret is for (for error messages)
+ * @throws {KMSError} If the source names more than one location, or an empty or invalid one
+ */
+export function validateSecretSource(secret: unknown, label: string): void {
+    if (!isSecretSource(secret) || typeof secret === "function") {
+        return;
+    }
+
+    const keys = secretSourceKeys.filter((key) => key in secret);
+    if (keys.length > 1) {
+        throw new KMSError(`${label} must have exactly one of ${secretSourceKeys.join(", ")}`);
+    }
+
+    // Configuration files aren't type-checked, so the values are checked as unknown
+    const location: unknown = "fromEnv" in secret ? secret.fromEnv : "fromFile" in secret ? secret.fromFile : secret.fromSecret;
+    if (typeof location !== "string" || location.trim() === "") {
+        throw new KMSError(`${label}: ${keys[0]} must be a non-empty string`);
+    }
+    if ("fromSecret" in secret) {
+        if (location.includes("/") || location.includes("\\") || location === "." || location === "..") {
+            throw new KMSError(`${label}: fromSecret must be a secret name, not a path. Use fromFile for paths`);
+        }
+        const mountPath: unknown = secret.mountPath;
+        if (mountPath !== undefined && (typeof mountPath !== "string" || mountPath.trim() === "")) {
+            throw new KMSError(`${label}: mountPath must be a non-empty string`);
+        }
+    }
+}
+
+/**
+ * Resolves a secret. Resolver callbacks are awaited.
+ * 
+ * @param secret - Secret or secret source
+ * @param label - What the secret is for (for error messages)
+ * @returns The secret value; plain secrets are returned as is
+ * @throws {KMSError} If the source cannot be read, or returns an empty or non-string value
+ */
+export async function resolveSecret(secret: TSecret, label: string): Promise<string> {
+    if (typeof secret !== "function") {
+        return resolveSecretSync(secret, label);
+    }
+
+    let value: unknown;
+    try {
+        value = await secret();
+    } catch (error: any) {
+        throw new KMSError(`Failed to resolve ${label}: ${error.message || String(error)}`, { code: "KMS_SECRET_UNRESOLVED", cause: error });
+    }
+    return acceptSecret(value, label);
+}
+
+/**
+ * Resolves a secret without waiting. Resolver callbacks must return their value synchronously.
+ * 
+ * @param secret - Secret or secret source
+ * @param label - What the secret is for (for error messages)
+ * @returns The secret value; plain secrets are returned as is
+ * @throws {KMSError} If the source cannot be read, a resolver is asynchronous, or the value is empty or not a string
+ */
+export function resolveSecretSync(secret: TSecret, label: string): string {
+    if (!isSecretSource(secret)) {
+        return secret;
+    }
+
+    if (typeof secret === "function") {
+        let value: unknown;
+        try {
+            value = secret();
+        } catch (error: any) {
+            throw new KMSError(`Failed to resolve ${label}: ${error.message || String(error)}`, { code: "KMS_SECRET_UNRESOLVED", cause: error });
+        }
+        if (value instanceof Promise) {
+            value.catch(() => undefined);
+            throw new KMSError(
+                `${label} has an asynchronous resolver, which can't be awaited here. ` +
+                "Use initializeWithFile, or await the secret yourself and pass its value.",
+                { code: "KMS_SECRET_UNRESOLVED" }
+            );
+        }
+        return acceptSecret(value, label);
+    }
+
+    validateSecretSource(secret, label);
+    if ("fromEnv" in secret) {
+        const value = process.env[secret.fromEnv];
+        if (!value) {
+            throw new KMSError(`Failed to resolve ${label}: environment variable ${secret.fromEnv} is not set`, { code: "KMS_SECRET_UNRESOLVED" });
+        }
+        return acceptSecret(value, label);
+    }
+    if ("fromFile" in secret) {
+        return acceptSecret(readSecretFile(secret.fromFile, label), label);
+    }
+    return acceptSecret(readSecretFile(path.join(secret.mountPath ?? DEFAULT_SECRET_MOUNT, secret.fromSecret), label), label);
+}
+
+/**
+ * Reads a secret file, dropping the trailing line break most tools write
+ * 
+ * @param filePath - Path to the secret file
+ * @param label - What the secret is for (for error messages)
+ * @returns The file contents
+ * @throws {KMSError} If the file cannot be read
+ */
+function readSecretFile(filePath: string, label: string): string {
+    try {
+        return readFileSync(filePath, "utf-8").replace(/\r?\n$/, "");
+    } catch (error: any) {
+        throw new KMSError(`Failed to resolve ${label}: cannot read ${filePath}: ${error.code || error.message || String(error)}`, {
+            code: "KMS_SECRET_UNRESOLVED",
+            cause: error,
+            context: { filePath },
+        });
+    }
+}
+
+/**
+ * Checks a resolved secret and registers it for redaction
+ * 
+ * @param value - Resolved value
+ * @param label - What the secret is for (for error messages)
+ * @returns The secret
+ * @throws {KMSError} If the value is empty or not a string
+ */
+function acceptSecret(value: unknown, label: string): string {
+    if (typeof value !== "string" || value === "") {
+        throw new KMSError(`Failed to resolve ${label}: the secret source returned ${value === "" ? "an empty string" : "no string"}`, {
+            code: "KMS_SECRET_UNRESOLVED",
+        });
+    }
+    registerSecret(value);
+    return value;
+}
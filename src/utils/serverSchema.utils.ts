@@ -0,0 +1,153 @@
+import { Binary, Document } from "mongodb";
+import { ICollectionEncryptionSchema } from "../types/schema";
+import {
+    IServerSchemaDifference,
+    IServerSchemaDrift,
+    IServerSchemaOptions,
+    TServerSchemaStatus
+} from "../types/encryption";
+
+const statusLabels: Record<TServerSchemaStatus, string> = {
+    inSync: "in sync",
+    missingCollection: "collection does not exist",
+    missingValidator: "no $jsonSchema validator",
+    drifted: "validator differs from the local schema",
+};
+
+/**
+ * Builds the server-side validator for a collection from its CSFLE schema
+ * 
+ * @param schema - Collection schema from the schemaMap
+ * @returns Validator document for createCollection or collMod
+ */
+export function buildServerValidator(schema: ICollectionEncryptionSchema): Document {
+    return { $jsonSchema: schema };
+}
+
+/**
+ * Compares a collection's server-side validator with its local CSFLE schema. Key order is
+ * ignored and DEK ids are compared by their bytes.
+ * 
+ * @param namespace - Collection namespace ("database.collection")
+ * @param schema - Collection schema from the schemaMap
+ * @param collectionInfo - The collection's listCollections entry, or undefined if it does not exist
+ * @param options - Expected validation level and action
+ * @returns Drift between the two
+ */
+export function compareServerSchema(
+    namespace: string,
+    schema: ICollectionEncryptionSchema,
+    collectionInfo: Document | undefined,
+    options: IServerSchemaOptions = {}
+): IServerSchemaDrift {
+    if (!collectionInfo) {
+        return { namespace, status: "missingCollection", differences: [] };
+    }
+
+    const collectionOptions = collectionInfo.options ?? {};
+    if (collectionOptions.validator?.$jsonSchema === undefined) {
+        return { namespace, status: "missingValidator", differences: [] };
+    }
+
+    const differences = [
+        ...diffValues(buildServerValidator(schema), collectionOptions.validator, "validator"),
+        ...diffValues(options.validationLevel ?? "strict", collectionOptions.validationLevel ?? "strict", "validationLevel"),
+        ...diffValues(options.validationAction ?? "error", collectionOptions.validationAction ?? "error", "validationAction"),
+    ];
+
+    return { namespace, status: differences.length === 0 ? "inSync" : "drifted", differences };
+}
+
+/**
+ * Formats server-side schema drift as plain text
+ * 
+ * @param drifts - Drift returned by ServerEncryptionService.checkServerSchema
+ * @returns Human-readable report
+ */
+export function formatServerSchemaDrift(drifts: IServerSchemaDrift[]): string {
+    const lines: string[] = [];
+    for (const drift of drifts) {
+        lines.push(`${drift.namespace}: ${statusLabels[drift.status]}`);
+        for (const difference of drift.differences) {
+            lines.push(`  ${difference.path}: expected ${formatValue(difference.expected)}, found ${formatValue(difference.actual)}`);
+        }
+    }
+
+    const drifted = drifts.filter((drift) => drift.status !== "inSync").length;
+    lines.push("", `${drifted} of ${drifts.length} collections out of sync.`);
+
+    return lines.join("\n");
+}
+
+/**
+ * Lists the paths at which two values differ
+ * 
+ * @param expected - Local value
+ * @param actual - Server-side value
+ * @param path - Dotted path of the values
+ * @returns Differences, empty if the values are equal
+ */
+function diffValues(expected: unknown, actual: unknown, path: string): IServerSchemaDifference[] {
+    if (expected instanceof Binary || actual instanceof Binary) {
+        const equal = expected instanceof Binary && actual instanceof Binary &&
+            expected.sub_type === actual.sub_type &&
+            Buffer.from(expected.value()).equals(Buffer.from(actual.value()));
+        return equal ? [] : [toDifference(expected, actual, path)];
+    }
+
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        if (expected.length !== actual.length) {
+            return [toDifference(expected, actual, path)];
+        }
+        return expected.flatMap((item, index) => diffValues(item, actual[index], `${path}.${index}`));
+    }
+
+    if (isPlainObject(expected) && isPlainObject(actual)) {
+        const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+        return keys.flatMap((key) => diffValues(expected[key], actual[key], `${path}.${key}`));
+    }
+
+    return expected === actual ? [] : [toDifference(expected, actual, path)];
+}
+
+/**
+ * Builds a difference, leaving out the side that has no value
+ * 
+ * @param expected - Local value
+ * @param actual - Server-side value
+ * @param path - Dotted path of the values
+ * @returns The difference
+ */
+function toDifference(expected: unknown, actual: unknown, path: string): IServerSchemaDifference {
+    return {
+        path,
+        ...(expected !== undefined ? { expected } : {}),
+        ...(actual !== undefined ? { actual } : {}),
+    };
+}
+
+/**
+ * Checks whether a value is a plain object
+ * 
+ * @param value - Value to check
+ * @returns true for object literals and parsed documents
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Formats a schema value for display
+ * 
+ * @param value - Value to format
+ * @returns Short representation, "nothing" for a missing value
+ */
+function formatValue(value: unknown): string {
+    if (value === undefined) {
+        return "nothing";
+    }
+    if (value instanceof Binary) {
+        return value.sub_type === Binary.SUBTYPE_UUID ? `UUID(${value.toUUID().toHexString()})` : `Binary(${value.toString("hex")})`;
+    }
+    return JSON.stringify(value);
+}
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Binary, UUID } from 'mongodb';
+import { runCli } from '../src/cli';
+import { DekManager } from '../src/dekManager';
+import { ICliIO } from '../src/types/cli';
+import { resolveCliConfig } from '../src/utils/cliConfig.utils';
+
+describe('mirage CLI', () => {
+    let dir: string;
+    let stdout: string[];
+    let stderr: string[];
+    let io: ICliIO;
+
+    const run = (...argv: string[]) => runCli(argv, io);
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirage-cli-'));
+        stdout = [];
+        stderr = [];
+        io = {
+            stdout: (text) => stdout.push(text),
+            stderr: (text) => stderr.push(text),
+            env: {},
+            cwd: dir,
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('resolveCliConfig', () => {
+        it('should let flags win over environment variables and environment variables over the config file', () => {
+            fs.writeFileSync(path.join(dir, 'mirage.config.yaml'), [
+                'mongoUri: mongodb://file:27017',
+                'keyVault: { database: encryption, collection: __keyVault }',
+                'schema: schemas/schema.json',
+                'mode: queryable',
+            ].join('\n'));
+            io.env = { MIRAGE_MONGO_URI: 'mongodb://env:27017', MIRAGE_KEY_VAULT: 'vault.keys' };
+
+            const config = resolveCliConfig({ uri: 'mongodb://flag:27017' }, io);
+
+            expect(config).toEqual({
+                mongoUri: 'mongodb://flag:27017',
+                keyVault: { database: 'vault', collection: 'keys' },
+                schema: path.join(dir, 'schemas', 'schema.json'),
+                mode: 'queryable',
+            });
+        });
+
+        it('should reject an invalid key vault namespace or mode', () => {
+            expect(() => resolveCliConfig({ keyVault: 'keys' }, io)).toThrow('Invalid key vault namespace');
+            expect(() => resolveCliConfig({ mode: 'fle2' }, io)).toThrow('Unsupported encryption mode: fle2');
+        });
+    });
+
+    describe('keygen', () => {
+        it('should create a key file once and never print the key', async () => {
+            expect(await run('keygen', 'master.key', '--json')).toBe(0);
+            const key = fs.readFileSync(path.join(dir, 'master.key'), 'utf-8');
+            expect(JSON.parse(stdout[0])).toEqual({ file: path.join(dir, 'master.key'), created: true });
+
+            expect(await run('keygen', 'master.key')).toBe(0);
+            expect(stdout[1]).toContain('already exists');
+            expect(fs.readFileSync(path.join(dir, 'master.key'), 'utf-8')).toBe(key);
+            expect(stdout.join('\n')).not.toContain(key);
+        });
+    });
+
+    describe('schema validate', () => {
+        beforeEach(async () => {
+            await run('keygen', 'master.key');
+            stdout = [];
+            io.env.MIRAGE_LOCAL_KEY_FILE = 'master.key';
+        });
+
+        it('should accept a valid schema file without a connection', async () => {
+            fs.writeFileSync(path.join(dir, 'schema.json'), JSON.stringify([{ 'mydb.users': { ssn: 'string' } }]));
+
+            expect(await run('schema', 'validate', 'schema.json', '--json')).toBe(0);
+            expect(JSON.parse(stdout[0])).toEqual({ file: path.join(dir, 'schema.json'), mode: 'csfle', valid: true });
+        });
+
+        it('should report an invalid schema file with its location', async () => {
+            fs.writeFileSync(path.join(dir, 'schema.yaml'), '- mydb.users:\n    ssn: strin\n');
+
+            expect(await run('schema', 'validate', '--schema', 'schema.yaml')).toBe(1);
+            expect(stderr[0]).toMatch(new RegExp(`^error: ${path.join(dir, 'schema.yaml')}:2:5: `));
+        });
+    });
+
+    describe('keys delete', () => {
+        const altNameId = new UUID();
+        const key = (_id: Binary, keyAltNames: string[]) => ({ _id, keyAltNames, keyMaterial: new Binary(Buffer.alloc(16)), masterKey: { provider: 'local' } });
+        let deleteKey: jest.SpyInstance;
+
+        beforeEach(async () => {
+            await run('keygen', 'master.key');
+            stdout = [];
+            io.env = { MIRAGE_LOCAL_KEY_FILE: 'master.key', MIRAGE_MONGO_URI: 'mongodb://localhost:27017', MIRAGE_KEY_VAULT: 'encryption.__keyVault' };
+
+            const keys = [key(new UUID().toBinary(), ['mydb.users.ssn']), key(new UUID().toBinary(), [altNameId.toHexString()])];
+            const same = (a: Binary, b: Binary) => Buffer.from(a.buffer).equals(Buffer.from(b.buffer));
+            jest.spyOn(DekManager.prototype, 'getKeyById').mockImplementation(async (keyId) =>
+                (keys.find((candidate) => same(candidate._id, new UUID(keyId as string))) ?? null) as any);
+            jest.spyOn(DekManager.prototype, 'getKeyByAltName').mockImplementation(async (altName) =>
+                (keys.find((candidate) => candidate.keyAltNames.includes(altName)) ?? null) as any);
+            deleteKey = jest.spyOn(DekManager.prototype, 'deleteKey').mockImplementation(async (keyId) =>
+                (keys.find((candidate) => same(candidate._id, keyId as Binary)) ?? null) as any);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should delete a DEK whose keyAltName looks like a UUID', async () => {
+            expect(await run('keys', 'delete', altNameId.toHexString(), '--yes', '--json')).toBe(0);
+
+            expect(JSON.parse(stdout[0]).keyAltNames).toEqual([altNameId.toHexString()]);
+            expect(deleteKey).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report a target that is neither a DEK id nor a keyAltName', async () => {
+            expect(await run('keys', 'delete', new UUID().toHexString(), '--yes')).toBe(1);
+            expect(stderr[0]).toMatch(/^error: No DEK found for /);
+            expect(deleteKey).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('usage errors', () => {
+        it('should exit with 2 for unknown commands and options', async () => {
+            expect(await run('bogus')).toBe(2);
+            expect(await run('keys', 'list', '--bogus')).toBe(2);
+            expect(stderr).toContain("Run 'mirage --help' for usage.");
+        });
+
+        it('should refuse to delete a DEK without --yes', async () => {
+            expect(await run('keys', 'delete', 'mydb.users.ssn', '--json')).toBe(2);
+            expect(JSON.parse(stdout[0]).error).toContain('without --yes');
+        });
+
+        it('should print the usage for --help', async () => {
+            expect(await run('--help')).toBe(0);
+            expect(stdout[0]).toMatch(/^Usage: mirage <command>/);
+        });
+    });
+});
@@ -1,11 +1,29 @@
 import path from "path";
 import fs from "fs";
 import os from "os";
-import { validateCryptSharedLib } from "../src";
+import { findCryptSharedLib, inspectCryptSharedLib, validateCryptSharedLib } from "../src";
 
 jest.mock("fs");
 jest.mock("os");
 
+let cryptSharedVersion: bigint | null = null;
+jest.mock("module", () => ({
+    ...jest.requireActual("module"),
+    createRequire: () => (id: string) => {
+        if (id !== "mongodb-client-encryption") {
+            throw new Error(`Unexpected require of ${id}`);
+        }
+        return {
+            cryptoCallbacks: {},
+            MongoCrypt: class {
+                get cryptSharedLibVersionInfo() {
+                    return cryptSharedVersion === null ? null : { version: cryptSharedVersion, versionStr: "mongo_crypt_v1-test" };
+                }
+            },
+        };
+    },
+}));
+
 const mockedFs = fs as jest.Mocked<typeof fs>;
 const mockedOs = os as jest.Mocked<typeof os>;
 
@@ -73,6 +91,27 @@ describe("cryptSharedLib utils", () => {
         expect(() => validateCryptSharedLib(file)).toThrow(/File exists but does not appear to be a valid linux shared library/);
     });
 
+    it("should accept little-endian Mach-O libraries (macOS)", () => {
+        mockedOs.platform.mockReturnValue("darwin");
+
+        const file = fakePath("mongo_crypt_v1.dylib");
+        mockFileWithMagic(Buffer.from([0xCF, 0xFA, 0xED, 0xFE]));
+
+        expect(validateCryptSharedLib(file)).toBe(file);
+    });
+
+    it("should throw an error for a library built for another architecture", () => {
+        mockedOs.platform.mockReturnValue("linux");
+
+        const [machine, arch] = process.arch === "arm64" ? [0x3E, "x64"] : [0xB7, "arm64"];
+        const header = Buffer.alloc(20);
+        Buffer.from([0x7F, 0x45, 0x4C, 0x46, 2, 1]).copy(header);
+        header.writeUInt16LE(machine, 18);
+        mockFileWithMagic(header);
+
+        expect(() => validateCryptSharedLib(fakePath("mongo_crypt_v1.so"))).toThrow(`is built for ${arch}, but this process runs on ${process.arch}`);
+    });
+
     it("should throw an error for unsupported file type extension", () => {
         mockedOs.platform.mockReturnValue("darwin");
 
@@ -81,4 +120,85 @@ describe("cryptSharedLib utils", () => {
 
         expect(() => validateCryptSharedLib(file)).toThrow(/Invalid crypt_shared library extension/);
     });
-});
+
+    describe("findCryptSharedLib", () => {
+        const originalEnv = process.env;
+
+        beforeEach(() => {
+            process.env = { ...originalEnv };
+            delete process.env.MIRAGE_CRYPT_SHARED_LIB;
+            mockedOs.platform.mockReturnValue("linux");
+        });
+
+        afterAll(() => {
+            process.env = originalEnv;
+        });
+
+        it("should prefer MIRAGE_CRYPT_SHARED_LIB", () => {
+            process.env.MIRAGE_CRYPT_SHARED_LIB = "vendor/mongo_crypt_v1.so";
+            mockedFs.existsSync.mockReturnValue(true);
+
+            expect(findCryptSharedLib("/app")).toBe(path.resolve("/app", "vendor/mongo_crypt_v1.so"));
+        });
+
+        it("should fail if MIRAGE_CRYPT_SHARED_LIB names a missing file", () => {
+            process.env.MIRAGE_CRYPT_SHARED_LIB = "/missing/mongo_crypt_v1.so";
+            mockedFs.existsSync.mockReturnValue(false);
+
+            expect(() => findCryptSharedLib("/app")).toThrow(expect.objectContaining({ code: "FILE_NOT_FOUND" }));
+        });
+
+        it("should search ./config, ./lib and the system library directories", () => {
+            mockedFs.existsSync.mockImplementation((filePath) => filePath === "/usr/lib/mongo_crypt_v1.so");
+
+            expect(findCryptSharedLib("/app")).toBe("/usr/lib/mongo_crypt_v1.so");
+            expect(mockedFs.existsSync.mock.calls.map(([filePath]) => filePath)).toEqual([
+                path.join("/app", "config", "mongo_crypt_v1.so"),
+                path.join("/app", "lib", "mongo_crypt_v1.so"),
+                "/usr/local/lib/mongo_crypt_v1.so",
+                "/usr/lib/mongo_crypt_v1.so",
+            ]);
+        });
+
+        it("should return undefined if no library is found", () => {
+            mockedFs.existsSync.mockReturnValue(false);
+
+            expect(findCryptSharedLib("/app")).toBeUndefined();
+        });
+    });
+
+    describe("inspectCryptSharedLib", () => {
+        const version = (major: number, minor: number, patch: number) =>
+            (BigInt(major) << 48n) | (BigInt(minor) << 32n) | (BigInt(patch) << 16n);
+
+        beforeEach(() => {
+            mockedOs.platform.mockReturnValue("linux");
+            mockFileWithMagic(Buffer.from([0x7F, 0x45, 0x4C, 0x46]));
+        });
+
+        it("should load the library and report its version", () => {
+            cryptSharedVersion = version(8, 0, 4);
+
+            expect(inspectCryptSharedLib(fakePath("mongo_crypt_v1.so"), "queryable")).toEqual({
+                path: fakePath("mongo_crypt_v1.so"),
+                arch: process.arch,
+                version: "8.0.4",
+                versionStr: "mongo_crypt_v1-test",
+            });
+        });
+
+        it("should reject libraries too old for the encryption mode", () => {
+            cryptSharedVersion = version(6, 0, 2);
+
+            expect(inspectCryptSharedLib(fakePath("mongo_crypt_v1.so")).version).toBe("6.0.2");
+            expect(() => inspectCryptSharedLib(fakePath("mongo_crypt_v1.so"), "queryable"))
+                .toThrow(/is version 6\.0\.2; queryable mode requires 7\.0 or later/);
+        });
+
+        it("should reject libraries that report no version", () => {
+            cryptSharedVersion = null;
+
+            expect(() => inspectCryptSharedLib(fakePath("mongo_crypt_v1.so"))).toThrow(expect.objectContaining({ code: "CRYPT_SHARED_INVALID" }));
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,421 @@
+import { Binary, ClientEncryption, MongoClient } from 'mongodb';
+import { DekManager } from '../src/dekManager';
+import { ConfigurationError, EncryptionError, ValidationError } from '../src/errors/errors';
+import { IKMSProvider } from '../src/types/kms';
+
+jest.mock('mongodb', () => ({
+    ...jest.requireActual('mongodb'),
+    ClientEncryption: jest.fn(),
+}));
+
+const keyId = (fill: number) => new Binary(Buffer.alloc(16, fill), Binary.SUBTYPE_UUID);
+const sameId = (a: Binary, b: Binary) => Buffer.from(a.buffer).equals(Buffer.from(b.buffer));
+const duplicateKeyError = () => Object.assign(new Error('E11000 duplicate key error collection: encryption.__keyVault'), { code: 11000 });
+
+/**
+ * In-memory key vault supporting the queries DekManager issues when creating DEKs
+ */
+class FakeKeyVault {
+    public keys: Array<{ _id: Binary; keyAltNames: string[]; keyMaterial?: Binary; masterKey?: { provider: string } }> = [];
+    public indexes: Array<{ name: string; key: Record<string, number>; unique?: boolean }> = [{ name: '_id_', key: { _id: 1 } }];
+    public createIndex = jest.fn(async (key: Record<string, number>, options: { name: string; unique: boolean }) => {
+        this.indexes.push({ name: options.name, key, unique: options.unique });
+        return options.name;
+    });
+
+    listIndexes() {
+        return { toArray: async () => this.indexes };
+    }
+
+    async findOne(filter: { _id?: Binary; keyAltNames?: string; 'masterKey.provider'?: string }) {
+        if (filter._id !== undefined) {
+            return this.keys.find((key) => sameId(key._id, filter._id!)) ?? null;
+        }
+        if (filter['masterKey.provider'] !== undefined) {
+            return this.keys.find((key) => key.masterKey?.provider === filter['masterKey.provider']) ?? null;
+        }
+        return this.keys.find((key) => key.keyAltNames.includes(filter.keyAltNames!)) ?? null;
+    }
+
+    async countDocuments() {
+        return this.keys.length;
+    }
+
+    find(filter: { keyAltNames?: { $in: string[] }; _id?: { $in: Binary[] }; 'masterKey.provider'?: string }) {
+        return {
+            toArray: async () => this.keys.filter((key) =>
+                (filter.keyAltNames === undefined || key.keyAltNames.some((altName) => filter.keyAltNames!.$in.includes(altName))) &&
+                (filter._id === undefined || filter._id.$in.some((id) => sameId(id, key._id))) &&
+                (filter['masterKey.provider'] === undefined || key.masterKey?.provider === filter['masterKey.provider'])
+            ).map((key) => ({ ...key, masterKey: key.masterKey && { ...key.masterKey } })),
+        };
+    }
+}
+
+describe('DekManager', () => {
+    let keyVault: FakeKeyVault;
+    let createDataKey: jest.Mock;
+    let dekManager: DekManager;
+    let mongoClient: MongoClient;
+
+    beforeEach(() => {
+        keyVault = new FakeKeyVault();
+        createDataKey = jest.fn();
+        mongoClient = {
+            connect: jest.fn(async () => undefined),
+            close: jest.fn(async () => undefined),
+            db: () => ({ collection: () => keyVault }),
+        } as unknown as MongoClient;
+
+        dekManager = new DekManager(mongoClient, 'encryption.__keyVault', { database: 'encryption', collection: '__keyVault' }, {
+            type: 'local',
+            local: { key: Buffer.alloc(96).toString('base64') },
+        });
+        jest.spyOn(dekManager as any, 'createClientEncryption').mockResolvedValue({ createDataKey });
+    });
+
+    describe('getDEK', () => {
+        it('should create the unique partial keyAltNames index before creating a DEK', async () => {
+            createDataKey.mockResolvedValue(keyId(1));
+
+            await dekManager.getDEK('mydb.users.ssn');
+            await dekManager.getDEK('mydb.users.pin');
+
+            expect(keyVault.createIndex).toHaveBeenCalledTimes(1);
+            expect(keyVault.createIndex).toHaveBeenCalledWith(
+                { keyAltNames: 1 },
+                { name: 'keyAltNames_1', unique: true, partialFilterExpression: { keyAltNames: { $exists: true } } }
+            );
+        });
+
+        it('should not create the index for an existing DEK', async () => {
+            keyVault.keys.push({ _id: keyId(1), keyAltNames: ['mydb.users.ssn'] });
+
+            await expect(dekManager.getDEK('mydb.users.ssn')).resolves.toBe(keyVault.keys[0]._id);
+            expect(keyVault.createIndex).not.toHaveBeenCalled();
+            expect(createDataKey).not.toHaveBeenCalled();
+        });
+
+        it('should leave the client connected with keepConnected', async () => {
+            const connectedManager = new DekManager(mongoClient, 'encryption.__keyVault', { database: 'encryption', collection: '__keyVault' }, {
+                type: 'local',
+                local: { key: Buffer.alloc(96).toString('base64') },
+            }, { keepConnected: true });
+            keyVault.keys.push({ _id: keyId(1), keyAltNames: ['mydb.users.ssn'] });
+
+            await connectedManager.getDEK('mydb.users.ssn');
+            await connectedManager.inspectKeyVault();
+
+            expect(mongoClient.connect).toHaveBeenCalledTimes(2);
+            expect(mongoClient.close).not.toHaveBeenCalled();
+        });
+
+        it('should return the DEK another process created first', async () => {
+            createDataKey.mockImplementation(async () => {
+                keyVault.keys.push({ _id: keyId(2), keyAltNames: ['mydb.users.ssn'] });
+                throw duplicateKeyError();
+            });
+
+            const dekId = await dekManager.getDEK('mydb.users.ssn');
+
+            expect(dekId.toUUID().toHexString()).toBe(keyId(2).toUUID().toHexString());
+        });
+
+        it('should refuse to work with a non-unique keyAltNames index', async () => {
+            keyVault.indexes.push({ name: 'altNames', key: { keyAltNames: 1 } });
+
+            await expect(dekManager.getDEK('mydb.users.ssn')).rejects.toThrow(EncryptionError);
+            await expect(dekManager.getDEK('mydb.users.ssn')).rejects.toThrow(/index altNames on keyAltNames is not unique/);
+        });
+
+        it('should report KMS authentication failures with a code, context and cause', async () => {
+            const driverError = new Error('Error in KMS response. HTTP status=400. Response body=\n{"__type":"UnrecognizedClientException"}');
+            createDataKey.mockRejectedValue(driverError);
+
+            await expect(dekManager.getDEK('mydb.users.ssn')).rejects.toMatchObject({
+                code: 'KMS_AUTH_FAILED',
+                context: { keyAltName: 'mydb.users.ssn', provider: 'local' },
+                cause: driverError,
+            });
+        });
+    });
+
+    describe('inspectKeyVault', () => {
+        it('should report a missing index and no sample DEK for an empty key vault', async () => {
+            await expect(dekManager.inspectKeyVault()).resolves.toEqual({ dekCount: 0, keyAltNamesIndex: 'missing', sampleKeyIds: {} });
+            expect(keyVault.createIndex).not.toHaveBeenCalled();
+        });
+
+        it('should report the index and one DEK per configured provider', async () => {
+            keyVault.indexes.push({ name: 'keyAltNames_1', key: { keyAltNames: 1 }, unique: true });
+            keyVault.keys.push(
+                { _id: keyId(1), keyAltNames: ['mydb.users.ssn'], masterKey: { provider: 'local' } },
+                { _id: keyId(2), keyAltNames: ['mydb.users.pin'], masterKey: { provider: 'aws' } }
+            );
+
+            const status = await dekManager.inspectKeyVault();
+
+            expect(status.dekCount).toBe(2);
+            expect(status.keyAltNamesIndex).toBe('unique');
+            expect(Object.keys(status.sampleKeyIds)).toEqual(['local']);
+            expect(status.sampleKeyIds.local.toUUID().toHexString()).toBe(keyId(1).toUUID().toHexString());
+        });
+    });
+
+    describe('key administration', () => {
+        const ssnKeyId = keyId(1).toUUID().toHexString();
+        let driver: { addKeyAltName: jest.Mock; removeKeyAltName: jest.Mock; deleteKey: jest.Mock };
+
+        beforeEach(() => {
+            keyVault.keys.push(
+                { _id: keyId(1), keyAltNames: ['mydb.users.ssn'], masterKey: { provider: 'local' } },
+                { _id: keyId(2), keyAltNames: ['mydb.users.pin'], masterKey: { provider: 'aws' } }
+            );
+            // Emulates ClientEncryption: returns the document as it was before the change, or null
+            const update = (change: (key: FakeKeyVault['keys'][number]) => void) => async (id: Binary) => {
+                const key = keyVault.keys.find((candidate) => sameId(candidate._id, id));
+                if (!key) {
+                    return null;
+                }
+                const previous = { ...key, keyAltNames: [...key.keyAltNames] };
+                change(key);
+                return previous;
+            };
+            driver = {
+                addKeyAltName: jest.fn((id: Binary, altName: string) => update((key) => key.keyAltNames.push(altName))(id)),
+                removeKeyAltName: jest.fn((id: Binary, altName: string) =>
+                    update((key) => key.keyAltNames = key.keyAltNames.filter((name) => name !== altName))(id)),
+                deleteKey: jest.fn(async (id: Binary) => {
+                    keyVault.keys = keyVault.keys.filter((key) => !sameId(key._id, id));
+                    return { deletedCount: 1 };
+                }),
+            };
+            jest.spyOn(dekManager as any, 'createClientEncryption').mockResolvedValue(driver);
+        });
+
+        it('should list the DEKs matching a filter', async () => {
+            const keys = await dekManager.listKeys({ 'masterKey.provider': 'aws' });
+
+            expect(keys.map((key) => key.keyAltNames)).toEqual([['mydb.users.pin']]);
+            expect(mongoClient.close).toHaveBeenCalledTimes(1);
+        });
+
+        it('should get DEKs by alternate name and by id', async () => {
+            expect((await dekManager.getKeyByAltName('mydb.users.pin'))?.keyAltNames).toEqual(['mydb.users.pin']);
+            expect((await dekManager.getKeyById(ssnKeyId))?.keyAltNames).toEqual(['mydb.users.ssn']);
+            expect((await dekManager.getKeyById(keyId(2)))?.keyAltNames).toEqual(['mydb.users.pin']);
+            await expect(dekManager.getKeyByAltName('mydb.users.iban')).resolves.toBeNull();
+            await expect(dekManager.getKeyById(keyId(7))).resolves.toBeNull();
+        });
+
+        it('should reject ids that are not UUIDs', async () => {
+            await expect(dekManager.getKeyById('not-a-uuid')).rejects.toThrow(ValidationError);
+            await expect(dekManager.deleteKey('not-a-uuid')).rejects.toMatchObject({ code: 'DEK_ID_INVALID' });
+            expect(mongoClient.connect).not.toHaveBeenCalled();
+        });
+
+        it('should add and remove alternate names and return the updated DEK', async () => {
+            const added = await dekManager.addKeyAltName(ssnKeyId, 'mydb.customers.ssn');
+            expect(added?.keyAltNames).toEqual(['mydb.users.ssn', 'mydb.customers.ssn']);
+
+            const removed = await dekManager.removeKeyAltName(ssnKeyId, 'mydb.users.ssn');
+            expect(removed?.keyAltNames).toEqual(['mydb.customers.ssn']);
+
+            await expect(dekManager.addKeyAltName(keyId(7), 'mydb.users.iban')).resolves.toBeNull();
+        });
+
+        it('should report an alternate name that another DEK already has', async () => {
+            const driverError = duplicateKeyError();
+            driver.addKeyAltName.mockRejectedValue(driverError);
+
+            const error = await dekManager.addKeyAltName(ssnKeyId, 'mydb.users.pin').catch((error) => error);
+
+            expect(error).toBeInstanceOf(EncryptionError);
+            expect(error.message).toBe(`Failed to add alternate name mydb.users.pin to DEK ${ssnKeyId}: ${driverError.message}`);
+            expect(error).toMatchObject({ context: { keyId: ssnKeyId, keyAltName: 'mydb.users.pin' }, cause: driverError });
+            expect(keyVault.keys[0].keyAltNames).toEqual(['mydb.users.ssn']);
+        });
+
+        it('should delete a DEK and return it, or null if it does not exist', async () => {
+            const deleted = await dekManager.deleteKey(ssnKeyId);
+
+            expect(deleted?.keyAltNames).toEqual(['mydb.users.ssn']);
+            expect(keyVault.keys.map((key) => key.keyAltNames)).toEqual([['mydb.users.pin']]);
+
+            await expect(dekManager.deleteKey(ssnKeyId)).resolves.toBeNull();
+            expect(driver.deleteKey).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('rotateMasterKey', () => {
+        const awsProvider: IKMSProvider = {
+            type: 'aws',
+            aws: { accessKeyId: 'id', secretAccessKey: 'secret' },
+            masterKey: { region: 'eu-west-1', key: 'arn:aws:kms:eu-west-1:123456789012:key/new' },
+        };
+        let rewrapManyDataKey: jest.Mock;
+
+        beforeEach(() => {
+            keyVault.keys.push(
+                { _id: keyId(1), keyAltNames: ['mydb.users.ssn'], keyMaterial: new Binary(Buffer.alloc(8, 1)), masterKey: { provider: 'local' } },
+                { _id: keyId(2), keyAltNames: ['mydb.users.pin'], keyMaterial: new Binary(Buffer.alloc(8, 2)), masterKey: { provider: 'local' } },
+                { _id: keyId(3), keyAltNames: ['mydb.users.iban'], keyMaterial: new Binary(Buffer.alloc(8, 3)), masterKey: { provider: 'aws' } }
+            );
+            // Rewraps every matched DEK except keyId(2), as if the driver skipped it
+            rewrapManyDataKey = jest.fn(async (filter: { _id: { $in: Binary[] } }, { provider }: { provider: string }) => {
+                const rewrapped = keyVault.keys.filter((key) =>
+                    filter._id.$in.some((id) => sameId(id, key._id)) && !sameId(key._id, keyId(2)));
+                rewrapped.forEach((key) => {
+                    key.keyMaterial = new Binary(Buffer.alloc(8, 9));
+                    key.masterKey = { provider };
+                });
+                return { bulkWriteResult: { modifiedCount: rewrapped.length } };
+            });
+            (ClientEncryption as unknown as jest.Mock).mockImplementation(() => ({ rewrapManyDataKey }));
+        });
+
+        it('should rewrap only the DEKs matching the filter under the new provider', async () => {
+            const result = await dekManager.rotateMasterKey({ 'masterKey.provider': 'local' }, awsProvider);
+
+            const [filter, options] = rewrapManyDataKey.mock.calls[0];
+            expect(filter._id.$in.map((id: Binary) => id.toUUID().toHexString()))
+                .toEqual([keyId(1).toUUID().toHexString(), keyId(2).toUUID().toHexString()]);
+            expect(options).toEqual({
+                provider: 'aws',
+                masterKey: { region: 'eu-west-1', key: 'arn:aws:kms:eu-west-1:123456789012:key/new', endpoint: undefined },
+            });
+            expect(keyVault.keys[2].keyMaterial).toEqual(new Binary(Buffer.alloc(8, 3)));
+            expect(result.matchedCount).toBe(2);
+            expect(result.modifiedCount).toBe(1);
+        });
+
+        it('should report which DEKs were rewrapped and which stayed unchanged', async () => {
+            const { keys } = await dekManager.rotateMasterKey({ 'masterKey.provider': 'local' }, awsProvider);
+
+            expect(keys.map(({ keyAltNames, previousProvider, provider, rewrapped }) => ({ keyAltNames, previousProvider, provider, rewrapped }))).toEqual([
+                { keyAltNames: ['mydb.users.ssn'], previousProvider: 'local', provider: 'aws', rewrapped: true },
+                { keyAltNames: ['mydb.users.pin'], previousProvider: 'local', provider: 'local', rewrapped: false },
+            ]);
+        });
+
+        it('should refuse a new provider with the name of a configured provider but other credentials', async () => {
+            const configured: IKMSProvider = { ...awsProvider, aws: { accessKeyId: 'old-id', secretAccessKey: 'old-secret' } };
+            dekManager = new DekManager(mongoClient, 'encryption.__keyVault', { database: 'encryption', collection: '__keyVault' }, [configured]);
+
+            const error = await dekManager.rotateMasterKey({}, awsProvider).catch((error) => error);
+
+            expect(error).toBeInstanceOf(ConfigurationError);
+            expect(error.message).toMatch(/KMS provider 'aws' is already configured with other credentials.*"aws:new"/);
+            expect(rewrapManyDataKey).not.toHaveBeenCalled();
+        });
+
+        it('should supply the old and new credentials when the new provider has another name', async () => {
+            const configured: IKMSProvider = { ...awsProvider, aws: { accessKeyId: 'old-id', secretAccessKey: 'old-secret' } };
+            dekManager = new DekManager(mongoClient, 'encryption.__keyVault', { database: 'encryption', collection: '__keyVault' }, [configured]);
+
+            await dekManager.rotateMasterKey({}, { ...awsProvider, name: 'new' });
+
+            expect((ClientEncryption as unknown as jest.Mock).mock.lastCall[1].kmsProviders).toEqual({
+                'aws': { accessKeyId: 'old-id', secretAccessKey: 'old-secret' },
+                'aws:new': { accessKeyId: 'id', secretAccessKey: 'secret' },
+            });
+            expect(rewrapManyDataKey.mock.calls[0][1].provider).toBe('aws:new');
+        });
+
+        it('should not rewrap anything when no DEK matches', async () => {
+            await expect(dekManager.rotateMasterKey({ 'masterKey.provider': 'gcp' }, awsProvider))
+                .resolves.toEqual({ matchedCount: 0, modifiedCount: 0, keys: [] });
+            expect(rewrapManyDataKey).not.toHaveBeenCalled();
+        });
+
+        it('should report a failed rewrap with its KMS error code and close the client', async () => {
+            const driverError = new Error('Error in KMS response. HTTP status=403. Response body=\n{"__type":"AccessDeniedException"}');
+            rewrapManyDataKey.mockRejectedValue(driverError);
+
+            const error = await dekManager.rotateMasterKey({}, awsProvider).catch((error) => error);
+
+            expect(error).toBeInstanceOf(EncryptionError);
+            expect(error.message).toMatch(/^Failed to rotate master key: /);
+            expect(error).toMatchObject({ code: 'KMS_AUTH_FAILED', context: { provider: 'aws' }, cause: driverError });
+            expect(mongoClient.close).toHaveBeenCalled();
+        });
+    });
+
+    describe('getDEKs', () => {
+        it('should look up all alternate names in one query and create only the missing DEKs', async () => {
+            keyVault.keys.push(
+                { _id: keyId(1), keyAltNames: ['mydb.users.ssn'] },
+                { _id: keyId(2), keyAltNames: ['mydb.users.pin'] }
+            );
+            const find = jest.spyOn(keyVault, 'find');
+            createDataKey.mockResolvedValue(keyId(3));
+
+            const deks = await dekManager.getDEKs(['mydb.users.iban', 'mydb.users.ssn', 'mydb.users.pin', 'mydb.users.ssn']);
+
+            expect(find).toHaveBeenCalledTimes(1);
+            expect(find.mock.calls[0][0]).toEqual({ keyAltNames: { $in: ['mydb.users.iban', 'mydb.users.ssn', 'mydb.users.pin'] } });
+            expect(createDataKey).toHaveBeenCalledTimes(1);
+            expect(createDataKey).toHaveBeenCalledWith('local', { masterKey: undefined, keyAltNames: ['mydb.users.iban'] });
+            expect([...deks.keys()]).toEqual(['mydb.users.iban', 'mydb.users.ssn', 'mydb.users.pin']);
+            expect(deks.get('mydb.users.ssn')).toBe(keyVault.keys[0]._id);
+            expect(mongoClient.connect).toHaveBeenCalledTimes(1);
+            expect(mongoClient.close).toHaveBeenCalledTimes(1);
+        });
+
+        it('should create at most concurrency DEKs at a time', async () => {
+            let running = 0;
+            let maxRunning = 0;
+            createDataKey.mockImplementation(async () => {
+                maxRunning = Math.max(maxRunning, ++running);
+                await new Promise((resolve) => setImmediate(resolve));
+                running--;
+                return keyId(4);
+            });
+            const altNames = Array.from({ length: 7 }, (_value, index) => `mydb.users.field${index}`);
+
+            const deks = await dekManager.getDEKs(altNames, { concurrency: 3 });
+
+            expect(deks.size).toBe(7);
+            expect(createDataKey).toHaveBeenCalledTimes(7);
+            expect(maxRunning).toBe(3);
+        });
+
+        it('should reject an invalid concurrency', async () => {
+            await expect(dekManager.getDEKs(['mydb.users.ssn'], { concurrency: 0 })).rejects.toThrow(ValidationError);
+            expect(mongoClient.connect).not.toHaveBeenCalled();
+        });
+
+        it('should resolve duplicate-key races per alternate name', async () => {
+            keyVault.indexes.push({ name: 'keyAltNames_1', key: { keyAltNames: 1 }, unique: true });
+            createDataKey.mockImplementation(async (_provider: string, { keyAltNames }: { keyAltNames: string[] }) => {
+                if (keyAltNames[0] === 'mydb.users.pin') {
+                    keyVault.keys.push({ _id: keyId(3), keyAltNames });
+                    throw duplicateKeyError();
+                }
+                return keyId(4);
+            });
+
+            const deks = await dekManager.getDEKs(['mydb.users.ssn', 'mydb.users.pin']);
+
+            expect(keyVault.createIndex).not.toHaveBeenCalled();
+            expect(deks.get('mydb.users.ssn')?.toUUID().toHexString()).toBe(keyId(4).toUUID().toHexString());
+            expect(deks.get('mydb.users.pin')?.toUUID().toHexString()).toBe(keyId(3).toUUID().toHexString());
+        });
+
+        it('should keep the alternate name of the DEK that failed', async () => {
+            createDataKey.mockImplementation(async (_provider: string, { keyAltNames }: { keyAltNames: string[] }) => {
+                if (keyAltNames[0] === 'mydb.users.pin') {
+                    throw new Error('KMS request failed');
+                }
+                return keyId(4);
+            });
+
+            const error = await dekManager.getDEKs(['mydb.users.ssn', 'mydb.users.pin']).catch((error) => error);
+
+            expect(error).toBeInstanceOf(EncryptionError);
+            expect(error.code).toBe('KMS_UNAVAILABLE');
+            expect(error.context).toEqual({ keyAltName: 'mydb.users.pin', provider: 'local' });
+            expect(error.cause.cause.message).toBe('KMS request failed');
+        });
+    });
+});
@@ -0,0 +1,327 @@
+import { Binary } from 'mongodb';
+import { ServerEncryptionService } from '../src/encryption';
+import { EEncryptionAlgorithm } from '../src/enums/enums';
+import { ConfigurationError, EncryptionError, ValidationError } from '../src/errors/errors';
+import { IDiagnosticCheck } from '../src/types/encryption';
+import { IKMSProvider } from '../src/types/kms';
+import { IKeyVault } from '../src/types/schema';
+import { findCryptSharedLib } from '../src/utils/cryptShared.utils';
+
+jest.mock('../src/utils/cryptShared.utils', () => ({
+    ...jest.requireActual('../src/utils/cryptShared.utils'),
+    validateCryptSharedLib: (libPath: string) => libPath,
+    inspectCryptSharedLib: (libPath: string) => ({ path: libPath, arch: 'x64', version: '8.0.4', versionStr: 'mongo_crypt_v1-8.0.4' }),
+    findCryptSharedLib: jest.fn(() => undefined),
+}));
+
+const ciphertext = (value: unknown) => new Binary(Buffer.from(JSON.stringify(value)), Binary.SUBTYPE_ENCRYPTED);
+const keyId = (fill: number) => new Binary(Buffer.alloc(16, fill), Binary.SUBTYPE_UUID);
+const kmsProvider: IKMSProvider = { type: 'local', local: { key: Buffer.alloc(96).toString('base64') } };
+const keyVault: IKeyVault = { database: 'encryption', collection: '__keyVault' };
+const cryptSharedFilePath = '/opt/mongodb/lib/mongo_crypt_v1.so';
+const schema = {
+    'mydb.users': {
+        bsonType: 'object',
+        properties: { ssn: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.DETERMINISTIC, keyId: [keyId(2)] } } },
+    },
+    'mydb.tenants': {
+        bsonType: 'object',
+        properties: { notes: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: '/tenantId' } } },
+    },
+};
+
+describe('ServerEncryptionService', () => {
+    let service: ServerEncryptionService;
+    let dekManager: {
+        inspectKeyVault: jest.Mock;
+        findMissingKeys: jest.Mock;
+        getDEK: jest.Mock;
+        deleteKey: jest.Mock;
+    };
+    let clientEncryption: { encrypt: jest.Mock; decrypt: jest.Mock };
+
+    const find = (checks: IDiagnosticCheck[], name: string, target?: string) =>
+        checks.find((check) => check.name === name && check.target === target);
+
+    beforeEach(() => {
+        service = new ServerEncryptionService('mongodb://localhost:27017', kmsProvider, keyVault, cryptSharedFilePath);
+
+        dekManager = {
+            inspectKeyVault: jest.fn(async () => ({ dekCount: 1, keyAltNamesIndex: 'unique', sampleKeyIds: { local: keyId(1) } })),
+            findMissingKeys: jest.fn(async () => []),
+            getDEK: jest.fn(async () => keyId(9)),
+            deleteKey: jest.fn(async () => null),
+        };
+        clientEncryption = {
+            encrypt: jest.fn(async (value: string) => value),
+            decrypt: jest.fn(async (value: string) => value),
+        };
+        jest.spyOn(service as any, 'createDekManager').mockReturnValue(dekManager);
+        jest.spyOn(service as any, 'createClientEncryption').mockReturnValue(clientEncryption);
+    });
+
+    describe('explicit encryption', () => {
+        it('should encrypt with the given DEK and algorithm', async () => {
+            clientEncryption.encrypt.mockImplementation(async (value: unknown) => ciphertext(value));
+
+            await expect(service.encryptValue('123-45-6789', { keyAltName: 'mydb.users.ssn', algorithm: EEncryptionAlgorithm.DETERMINISTIC }))
+                .resolves.toEqual(ciphertext('123-45-6789'));
+            await service.encryptValue(42, { keyId: keyId(2), algorithm: EEncryptionAlgorithm.RANDOM });
+
+            expect(clientEncryption.encrypt.mock.calls).toEqual([
+                ['123-45-6789', { keyAltName: 'mydb.users.ssn', algorithm: EEncryptionAlgorithm.DETERMINISTIC }],
+                [42, { keyId: keyId(2), algorithm: EEncryptionAlgorithm.RANDOM }],
+            ]);
+        });
+
+        it('should require an algorithm and exactly one of keyId or keyAltName', async () => {
+            await expect(service.encryptValue('x', { keyAltName: 'mydb.users.ssn' } as any)).rejects.toThrow(ValidationError);
+            await expect(service.encryptValue('x', { keyId: keyId(2), keyAltName: 'mydb.users.ssn', algorithm: EEncryptionAlgorithm.RANDOM }))
+                .rejects.toThrow('Exactly one of keyId or keyAltName is required');
+            await expect(service.encryptValue('x', { algorithm: EEncryptionAlgorithm.RANDOM })).rejects.toThrow(ValidationError);
+            expect(clientEncryption.encrypt).not.toHaveBeenCalled();
+        });
+
+        it('should report a missing DEK with its alternate name', async () => {
+            const driverError = new Error('not all keys requested were satisfied. Verify that key vault DB/collection name was correctly specified.');
+            clientEncryption.encrypt.mockRejectedValue(driverError);
+
+            const error = await service.encryptValue('x', { keyAltName: 'mydb.users.missing', algorithm: EEncryptionAlgorithm.RANDOM })
+                .catch((error) => error);
+
+            expect(error).toBeInstanceOf(EncryptionError);
+            expect(error.message).toBe(`Failed to encrypt value: ${driverError.message}`);
+            expect(error).toMatchObject({ context: { keyAltName: 'mydb.users.missing' }, cause: driverError });
+        });
+
+        it('should decrypt encrypted values in nested objects and arrays', async () => {
+            clientEncryption.decrypt.mockImplementation(async (value: Binary) => JSON.parse(Buffer.from(value.buffer).toString()));
+            const createdAt = new Date(0);
+
+            const document = await service.decryptDocument({
+                _id: 1,
+                ssn: ciphertext('123-45-6789'),
+                address: { city: ciphertext('Berlin'), zip: '10115' },
+                phones: [ciphertext('555-0100'), { number: ciphertext('555-0101') }, 'unlisted'],
+                photo: new Binary(Buffer.from('jpeg')),
+                createdAt,
+            });
+
+            expect(document).toEqual({
+                _id: 1,
+                ssn: '123-45-6789',
+                address: { city: 'Berlin', zip: '10115' },
+                phones: ['555-0100', { number: '555-0101' }, 'unlisted'],
+                photo: new Binary(Buffer.from('jpeg')),
+                createdAt,
+            });
+            expect(clientEncryption.decrypt).toHaveBeenCalledTimes(4);
+        });
+
+        it('should only decrypt encrypted Binary values', async () => {
+            await expect(service.decryptValue(new Binary(Buffer.from('plain')))).rejects.toThrow(ValidationError);
+
+            clientEncryption.decrypt.mockRejectedValue(new Error('HMAC validation failure'));
+            await expect(service.decryptValue(ciphertext('x'))).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+        });
+    });
+
+    describe('connect and close', () => {
+        const fakeClient = () => ({
+            connect: jest.fn(async () => undefined),
+            close: jest.fn(async () => undefined),
+            db: () => ({ listCollections: () => ({ toArray: async () => [] }) }),
+        });
+        let mongoClient: ReturnType<typeof fakeClient>;
+        let encryptedMongoClient: ReturnType<typeof fakeClient>;
+
+        beforeEach(() => {
+            mongoClient = fakeClient();
+            encryptedMongoClient = fakeClient();
+            Object.assign(service as any, { mongoClient, encryptedMongoClient, schema, clientEncryption });
+        });
+
+        it('should keep the internal client connected between operations after connect()', async () => {
+            await service.checkServerSchema();
+            expect(mongoClient.close).toHaveBeenCalledTimes(1);
+
+            await service.connect();
+            await service.checkServerSchema();
+
+            expect(encryptedMongoClient.connect).toHaveBeenCalled();
+            expect(mongoClient.close).toHaveBeenCalledTimes(1);
+        });
+
+        it('should close both clients once for concurrent calls and drop the ClientEncryption', async () => {
+            await service.connect();
+
+            await Promise.all([service.close(), service.close()]);
+
+            expect(mongoClient.close).toHaveBeenCalledTimes(1);
+            expect(encryptedMongoClient.close).toHaveBeenCalledTimes(1);
+            expect((service as any).clientEncryption).toBeUndefined();
+
+            await service.checkServerSchema();
+            expect(mongoClient.close).toHaveBeenCalledTimes(2);
+        });
+
+        it('should close on async dispose and report close failures', async () => {
+            await service[Symbol.asyncDispose]();
+            expect(encryptedMongoClient.close).toHaveBeenCalledTimes(1);
+
+            const closeError = new Error('socket hang up');
+            mongoClient.close.mockRejectedValueOnce(closeError);
+            await expect(service.close()).rejects.toMatchObject({ message: 'Failed to close MongoDB clients: socket hang up', cause: closeError });
+            expect(encryptedMongoClient.close).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('crypt_shared library', () => {
+        const extraOptions = (encryptionService: ServerEncryptionService) => {
+            (encryptionService as any).schema = schema;
+            return (encryptionService as any).buildEncryptionConfig().autoEncryption.extraOptions;
+        };
+
+        it('should require the library found by discovery', () => {
+            (findCryptSharedLib as jest.Mock).mockReturnValueOnce('/usr/lib/mongo_crypt_v1.so');
+
+            const discovered = new ServerEncryptionService('mongodb://localhost:27017', kmsProvider, keyVault);
+
+            expect(extraOptions(discovered)).toEqual({ cryptSharedLibPath: '/usr/lib/mongo_crypt_v1.so', cryptSharedLibRequired: true });
+        });
+
+        it('should fail if no library is found and there is no fallback', () => {
+            expect(() => new ServerEncryptionService('mongodb://localhost:27017', kmsProvider, keyVault))
+                .toThrow(ConfigurationError);
+            expect(() => new ServerEncryptionService('mongodb://localhost:27017', kmsProvider, keyVault))
+                .toThrow(/No crypt_shared library found\. .*set cryptSharedFallback to "mongocryptd"/);
+        });
+
+        it('should configure mongocryptd as the fallback', async () => {
+            const fallback = new ServerEncryptionService('mongodb://localhost:27017', kmsProvider, keyVault, undefined, undefined, {
+                cryptSharedFallback: 'mongocryptd',
+                mongocryptd: { spawnPath: '/opt/mongodb/bin/mongocryptd', spawnArgs: ['--port', '27021'], uri: 'mongodb://localhost:27021' },
+            });
+
+            expect(extraOptions(fallback)).toEqual({
+                cryptSharedLibRequired: false,
+                mongocryptdURI: 'mongodb://localhost:27021',
+                mongocryptdBypassSpawn: undefined,
+                mongocryptdSpawnPath: '/opt/mongodb/bin/mongocryptd',
+                mongocryptdSpawnArgs: ['--port', '27021'],
+            });
+            jest.spyOn(fallback as any, 'createDekManager').mockReturnValue(dekManager);
+            expect((await fallback.diagnose()).checks[0]).toMatchObject({ name: 'cryptShared', status: 'warning' });
+        });
+    });
+
+    describe('diagnose', () => {
+        let mongoClient: { connect: jest.Mock; close: jest.Mock };
+        let diagnoseClient: { close: jest.Mock };
+
+        const initialize = () => {
+            Object.assign(service as any, { encryptedMongoClient: { connect: jest.fn(async () => undefined) }, schema });
+        };
+
+        beforeEach(() => {
+            mongoClient = { connect: jest.fn(async () => undefined), close: jest.fn(async () => undefined) };
+            Object.assign(service as any, { mongoClient });
+            diagnoseClient = { close: jest.fn(async () => undefined) };
+            jest.spyOn(service as any, 'createDiagnoseClient').mockReturnValue(diagnoseClient);
+        });
+
+        it('should report every check of a healthy service', async () => {
+            initialize();
+
+            const report = await service.diagnose();
+
+            expect(report.ok).toBe(true);
+            expect(report.mode).toBe('csfle');
+            expect(report.checks.map((check) => [check.name, check.target, check.status])).toEqual([
+                ['cryptShared', undefined, 'ok'],
+                ['keyVault', undefined, 'ok'],
+                ['kms', 'local', 'ok'],
+                ['schemaKeys', undefined, 'ok'],
+                ['probe', 'mydb.users', 'ok'],
+                ['probe', 'mydb.tenants', 'skipped'],
+            ]);
+            expect(find(report.checks, 'cryptShared')?.details).toEqual({
+                version: '8.0.4',
+                versionStr: 'mongo_crypt_v1-8.0.4',
+                path: cryptSharedFilePath,
+                arch: 'x64',
+            });
+            expect(clientEncryption.encrypt).toHaveBeenCalledWith('mirage-diagnose', { keyId: keyId(2), algorithm: EEncryptionAlgorithm.RANDOM });
+        });
+
+        it('should run the checks with a client of its own and close it, leaving the internal client alone', async () => {
+            initialize();
+            await service.connect();
+
+            await service.diagnose({ timeoutMS: 3000 });
+
+            expect((service as any).createDiagnoseClient).toHaveBeenCalledWith(3000);
+            expect((service as any).createDekManager).toHaveBeenCalledWith(diagnoseClient, { keepConnected: true });
+            expect((service as any).createClientEncryption).toHaveBeenCalledWith(expect.anything(), diagnoseClient);
+            expect(diagnoseClient.close).toHaveBeenCalledTimes(1);
+            expect(mongoClient.close).not.toHaveBeenCalled();
+        });
+
+        it('should limit server selection and operations of the diagnose client to the check timeout', () => {
+            (service as any).createDiagnoseClient.mockRestore();
+
+            const { options } = (service as any).createDiagnoseClient(3000);
+
+            expect(options).toMatchObject({ serverSelectionTimeoutMS: 3000, timeoutMS: 3000 });
+        });
+
+        it('should check the crypt_shared library without initialization and skip what needs a DEK or schema', async () => {
+            dekManager.inspectKeyVault.mockResolvedValue({ dekCount: 0, keyAltNamesIndex: 'missing', sampleKeyIds: {} });
+
+            const report = await service.diagnose();
+
+            expect(report.ok).toBe(true);
+            expect(find(report.checks, 'cryptShared')).toMatchObject({
+                status: 'ok',
+                message: 'mongo_crypt_v1-8.0.4 can be loaded; the service loads it on initialization',
+                details: { versionStr: 'mongo_crypt_v1-8.0.4', path: cryptSharedFilePath },
+            });
+            expect(find(report.checks, 'keyVault')).toMatchObject({ status: 'warning', details: { dekCount: 0, keyAltNamesIndex: 'missing' } });
+            expect(find(report.checks, 'kms', 'local')?.status).toBe('skipped');
+            expect(find(report.checks, 'schemaKeys')?.status).toBe('skipped');
+            expect(dekManager.getDEK).not.toHaveBeenCalled();
+        });
+
+        it('should create, probe and delete a throwaway DEK with createProbeKey', async () => {
+            dekManager.inspectKeyVault.mockResolvedValue({ dekCount: 0, keyAltNamesIndex: 'unique', sampleKeyIds: {} });
+
+            const report = await service.diagnose({ createProbeKey: true });
+
+            expect(find(report.checks, 'kms', 'local')?.status).toBe('ok');
+            expect(dekManager.getDEK).toHaveBeenCalledWith(expect.stringMatching(/^__mirage_diagnose\./), 'local');
+            expect(dekManager.deleteKey).toHaveBeenCalledWith(keyId(9));
+        });
+
+        it('should report missing DEKs and KMS failures with their codes', async () => {
+            initialize();
+            dekManager.findMissingKeys.mockResolvedValue([keyId(2)]);
+            clientEncryption.decrypt.mockRejectedValue(new Error('Error in KMS response. HTTP status=403'));
+
+            const report = await service.diagnose();
+
+            expect(report.ok).toBe(false);
+            expect(find(report.checks, 'kms', 'local')).toMatchObject({ status: 'failed', code: 'KMS_AUTH_FAILED' });
+            expect(find(report.checks, 'schemaKeys')).toMatchObject({ status: 'failed', code: 'DEK_NOT_FOUND' });
+        });
+
+        it('should fail checks that exceed the timeout', async () => {
+            dekManager.inspectKeyVault.mockReturnValue(new Promise(() => undefined));
+
+            const report = await service.diagnose({ timeoutMS: 10 });
+
+            expect(find(report.checks, 'keyVault')).toMatchObject({ status: 'failed', message: 'keyVault check timed out after 10ms' });
+            expect(find(report.checks, 'kms', 'local')?.status).toBe('skipped');
+            expect(diagnoseClient.close).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Binary, UUID } from 'mongodb';
+import { EncryptionSchemaService } from '../src/encryptionSchemaService';
+import { DekManager } from '../src/dekManager';
+import { EEncryptionAlgorithm } from '../src/enums/enums';
+import { IKeyVaultDocument } from '../src/types/schema';
+
+describe('EncryptionSchemaService', () => {
+    let dir: string;
+
+    const key = (keyAltNames: string[], provider = 'local'): IKeyVaultDocument => ({
+        _id: new UUID().toBinary(),
+        keyMaterial: new Binary(Buffer.alloc(16)),
+        keyAltNames,
+        masterKey: { provider } as any,
+    });
+
+    const createService = (keys: IKeyVaultDocument[]) => {
+        const dekManager = {
+            getKmsProviderNames: () => ['aws:eu', 'aws:us'],
+            listKeys: jest.fn(async () => keys),
+            getDEKs: jest.fn(),
+        };
+        return { dekManager, service: new EncryptionSchemaService(dekManager as unknown as DekManager) };
+    };
+
+    const writeSchema = (schema: unknown): string => {
+        const filePath = path.join(dir, 'schema.json');
+        fs.writeFileSync(filePath, JSON.stringify(schema, null, 2));
+        return filePath;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirage-plan-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('validate', () => {
+        it('should reject a nested object whose subfield named type makes it look like a field definition', async () => {
+            const { service } = createService([]);
+            const schemaFilePath = writeSchema([{ 'mydb.orders': { payment: { type: 'string', cardNumber: 'string', cvv: 'string' } } }]);
+
+            await expect(service.validate(schemaFilePath)).rejects.toThrow(/schema.json:4:7: .*unknown field definition option 'cardNumber'/);
+        });
+
+        it('should accept the subfield named type written as a definition', async () => {
+            const { service } = createService([]);
+            const schemaFilePath = writeSchema([{ 'mydb.orders': { payment: { type: { type: 'string' }, cardNumber: 'string' } } }]);
+
+            await expect(service.validate(schemaFilePath)).resolves.toBeUndefined();
+        });
+    });
+
+    describe('plan', () => {
+        it('should report existing, new and orphaned DEKs without creating any', async () => {
+            const ssnKey = key(['mydb.users.ssn'], 'aws:eu');
+            const oldKey = key(['mydb.users.legacyId'], 'aws:eu');
+            const { dekManager, service } = createService([ssnKey, oldKey]);
+            const schemaFilePath = writeSchema([
+                { 'mydb.users': { ssn: 'string', salary: { type: 'double', kmsProvider: 'aws:us' } } },
+            ]);
+
+            const plan = await service.plan(schemaFilePath);
+
+            expect(dekManager.getDEKs).not.toHaveBeenCalled();
+            expect(plan.fields).toEqual([
+                {
+                    collection: 'mydb.users',
+                    path: 'ssn',
+                    keyAltName: 'mydb.users.ssn',
+                    bsonType: 'string',
+                    algorithm: EEncryptionAlgorithm.DETERMINISTIC,
+                    kmsProvider: 'aws:eu',
+                    action: 'existing',
+                    keyId: ssnKey._id,
+                },
+                {
+                    collection: 'mydb.users',
+                    path: 'salary',
+                    keyAltName: 'mydb.users.salary',
+                    bsonType: 'double',
+                    algorithm: EEncryptionAlgorithm.RANDOM,
+                    kmsProvider: 'aws:us',
+                    action: 'create',
+                },
+            ]);
+            expect(plan.orphanedKeys).toEqual([{ keyId: oldKey._id, keyAltNames: ['mydb.users.legacyId'], kmsProvider: 'aws:eu' }]);
+            expect(plan.summary).toEqual({ existing: 1, create: 1, perTenant: 0, orphaned: 1 });
+        });
+
+        it('should only look for orphans under the databases in the schema', async () => {
+            const { dekManager, service } = createService([]);
+
+            await service.plan(writeSchema([{ 'mydb.users': { ssn: 'string' } }]));
+
+            expect(dekManager.listKeys).toHaveBeenCalledWith({
+                $or: [
+                    { keyAltNames: { $in: ['mydb.users.ssn'] } },
+                    { keyAltNames: /^mydb\./ },
+                ],
+            });
+        });
+
+        it('should report per-tenant fields without looking up their DEKs', async () => {
+            const { service } = createService([]);
+
+            const plan = await service.plan(writeSchema([{ 'mydb.notes': { keyAltNameField: '/tenantId', body: 'string' } }]));
+
+            expect(plan.fields).toEqual([{
+                collection: 'mydb.notes',
+                path: 'body',
+                keyAltName: '/tenantId',
+                bsonType: 'string',
+                algorithm: EEncryptionAlgorithm.RANDOM,
+                action: 'perTenant',
+            }]);
+        });
+
+        it('should report query types in queryable mode', async () => {
+            const { service } = createService([]);
+
+            const plan = await service.plan(
+                writeSchema([{ 'mydb.users': { ssn: { type: 'string', queryable: true }, notes: 'string' } }]),
+                { mode: 'queryable' }
+            );
+
+            expect(plan.fields.map(({ path, queryType, algorithm }) => ({ path, queryType, algorithm }))).toEqual([
+                { path: 'ssn', queryType: 'equality', algorithm: undefined },
+                { path: 'notes', queryType: undefined, algorithm: undefined },
+            ]);
+        });
+
+        it('should reject invalid fields before reading the key vault', async () => {
+            const { dekManager, service } = createService([]);
+
+            await expect(service.plan(writeSchema([{ 'mydb.users': { ssn: { type: 'string', kmsProvider: 'gcp' } } }])))
+                .rejects.toThrow(/schema.json:6:9: Invalid kmsProvider 'gcp'/);
+            expect(dekManager.listKeys).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import { ConfigurationError, EncryptionError, KMSError, MirageEncryptionError, SchemaError } from '../src/errors/errors';
+import { inspect } from 'util';
+import { registerSecret } from '../src/utils/redaction.utils';
+
+describe('errors', () => {
+    it('should default the code to the error class', () => {
+        expect(new MirageEncryptionError('failed').code).toBe('MIRAGE_ERROR');
+        expect(new ConfigurationError('failed').code).toBe('CONFIGURATION_INVALID');
+        expect(new SchemaError('failed').code).toBe('SCHEMA_INVALID');
+        expect(new KMSError('failed', { code: 'KMS_AUTH_FAILED' }).code).toBe('KMS_AUTH_FAILED');
+        expect(new EncryptionError('failed').context).toEqual({});
+    });
+
+    it('should chain the cause natively', () => {
+        const driverError = new Error('connection refused');
+        const error = new EncryptionError('Failed to list DEKs: connection refused', { cause: driverError });
+
+        expect(error.cause).toBe(driverError);
+        expect(new EncryptionError('failed')).not.toHaveProperty('cause');
+    });
+
+    it('should keep the code and context of a wrapped mirage error', () => {
+        const cause = new KMSError('Bad credentials', { code: 'KMS_AUTH_FAILED', context: { provider: 'aws:eu' } });
+        const error = new ConfigurationError('Failed to initialize', { cause, context: { filePath: 'schema.yaml' } });
+
+        expect(error).toBeInstanceOf(ConfigurationError);
+        expect(error.code).toBe('KMS_AUTH_FAILED');
+        expect(error.context).toEqual({ provider: 'aws:eu', filePath: 'schema.yaml' });
+        expect(new ConfigurationError('Failed', { cause, code: 'NOT_INITIALIZED' }).code).toBe('NOT_INITIALIZED');
+    });
+
+    it('should still redact registered secrets from the message', () => {
+        registerSecret('error-test-secret');
+
+        expect(new KMSError('rejected error-test-secret', { code: 'KMS_AUTH_FAILED' }).message).toBe('rejected [REDACTED]');
+    });
+
+    it('should redact registered secrets from the causes it wraps', () => {
+        registerSecret('cause-test-secret');
+        const awsError = new Error('The security token cause-test-secret is invalid');
+        const driverError = new Error('KMS request failed for cause-test-secret', { cause: awsError });
+
+        const error = new KMSError('Failed to create DEK', { cause: driverError });
+
+        expect(error.cause).toBe(driverError);
+        expect(driverError.message).toBe('KMS request failed for [REDACTED]');
+        expect(awsError.stack).toContain('The security token [REDACTED] is invalid');
+        expect(inspect(error)).not.toContain('cause-test-secret');
+    });
+});
@@ -0,0 +1,104 @@
+import {
+    isFieldDefinition,
+    resolveBsonType,
+    resolveFieldAlgorithm,
+    resolveQueryType
+} from '../src/utils/fieldDefinition.utils';
+import { EEncryptionAlgorithm } from '../src/enums/enums';
+import { ValidationError } from '../src/errors/errors';
+
+describe('fieldDefinition.utils', () => {
+    describe('isFieldDefinition', () => {
+        it('should detect objects with a string type', () => {
+            expect(isFieldDefinition({ type: 'string', algorithm: 'random' })).toBe(true);
+        });
+
+        it('should treat nested field maps and type names as non-definitions', () => {
+            expect(isFieldDefinition({ street: 'string', city: 'string' })).toBe(false);
+            expect(isFieldDefinition('string')).toBe(false);
+        });
+    });
+
+    describe('resolveBsonType', () => {
+        it('should resolve types case-insensitively', () => {
+            expect(resolveBsonType('objectid', 'test.user.ref')).toBe('objectId');
+            expect(resolveBsonType('STRING', 'test.user.name')).toBe('string');
+        });
+
+        it('should reject unknown types', () => {
+            expect(() => resolveBsonType('text', 'test.user.name')).toThrow(ValidationError);
+        });
+    });
+
+    describe('resolveFieldAlgorithm', () => {
+        it('should default to deterministic for supported types and random otherwise', () => {
+            expect(resolveFieldAlgorithm({ type: 'string' }, 'test.user.ssn')).toBe(EEncryptionAlgorithm.DETERMINISTIC);
+            expect(resolveFieldAlgorithm({ type: 'bool' }, 'test.user.active')).toBe(EEncryptionAlgorithm.RANDOM);
+            expect(resolveFieldAlgorithm({ type: 'binData' }, 'test.user.photo')).toBe(EEncryptionAlgorithm.RANDOM);
+        });
+
+        it('should respect an explicit algorithm', () => {
+            expect(resolveFieldAlgorithm({ type: 'string', algorithm: 'random' }, 'test.user.ssn')).toBe(EEncryptionAlgorithm.RANDOM);
+        });
+
+        it('should map queryable to the algorithm', () => {
+            expect(resolveFieldAlgorithm({ type: 'string', queryable: true }, 'test.user.email')).toBe(EEncryptionAlgorithm.DETERMINISTIC);
+            expect(resolveFieldAlgorithm({ type: 'string', queryable: false }, 'test.user.notes')).toBe(EEncryptionAlgorithm.RANDOM);
+        });
+
+        it('should reject deterministic encryption for unsupported types', () => {
+            expect(() => resolveFieldAlgorithm({ type: 'array', queryable: true }, 'test.user.tags'))
+                .toThrow(/not supported with deterministic encryption/);
+        });
+
+        it('should reject contradicting options', () => {
+            expect(() => resolveFieldAlgorithm({ type: 'string', algorithm: 'random', queryable: true }, 'test.user.email'))
+                .toThrow(/queryable fields require deterministic encryption/);
+        });
+
+        it('should reject unknown algorithms', () => {
+            expect(() => resolveFieldAlgorithm({ type: 'string', algorithm: 'aes' as any }, 'test.user.email'))
+                .toThrow(/Invalid algorithm 'aes'/);
+        });
+
+        it('should default to random encryption for fields keyed by a keyAltName pointer', () => {
+            expect(resolveFieldAlgorithm({ type: 'string' }, 'test.user.ssn', '/tenantId')).toBe(EEncryptionAlgorithm.RANDOM);
+        });
+
+        it('should reject deterministic encryption for fields keyed by a keyAltName pointer', () => {
+            expect(() => resolveFieldAlgorithm({ type: 'string', queryable: true }, 'test.user.ssn', '/tenantId'))
+                .toThrow(/require random encryption/);
+        });
+
+        it('should reject a nested object with a subfield named type as an ambiguous definition', () => {
+            const payment = { type: 'string', cardNumber: 'string', cvv: 'string' } as any;
+
+            expect(() => resolveFieldAlgorithm(payment, 'mydb.orders.payment')).toThrow(ValidationError);
+            expect(() => resolveFieldAlgorithm(payment, 'mydb.orders.payment'))
+                .toThrow(/Invalid field 'mydb.orders.payment': unknown field definition option 'cardNumber'/);
+            expect(() => resolveQueryType(payment, 'mydb.orders.payment')).toThrow(/unknown field definition option 'cardNumber'/);
+        });
+
+        it('should reject queryType outside queryable encryption mode', () => {
+            expect(() => resolveFieldAlgorithm({ type: 'string', queryType: 'equality' }, 'test.user.email'))
+                .toThrow(/only supported in queryable encryption mode/);
+        });
+    });
+
+    describe('resolveQueryType', () => {
+        it('should treat queryable as an equality query', () => {
+            expect(resolveQueryType({ type: 'string', queryable: true }, 'test.user.email')).toBe('equality');
+            expect(resolveQueryType({ type: 'string' }, 'test.user.notes')).toBeUndefined();
+        });
+
+        it('should reject range options without a range query', () => {
+            expect(() => resolveQueryType({ type: 'int', queryType: 'equality', min: 0 }, 'test.user.age'))
+                .toThrow(/min requires queryType 'range'/);
+        });
+
+        it('should reject algorithm in queryable encryption mode', () => {
+            expect(() => resolveQueryType({ type: 'string', algorithm: 'random' }, 'test.user.email'))
+                .toThrow(/use queryType instead/);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateLocalKey, loadLocalKey } from '../src/utils/file.utils';
+import { ConfigurationError, ValidationError } from '../src/errors/errors';
+
+describe('file.utils', () => {
+    let dir: string;
+    let keyFile: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirage-key-'));
+        keyFile = path.join(dir, 'master.key');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('generateLocalKey', () => {
+        it('should write a 96-byte key readable only by its owner and return it on later calls', () => {
+            const key = generateLocalKey(keyFile);
+
+            expect(Buffer.from(key, 'base64')).toHaveLength(96);
+            expect(fs.readFileSync(keyFile, 'utf-8')).toBe(key);
+            expect(generateLocalKey(keyFile)).toBe(key);
+            expect(fs.readdirSync(dir)).toEqual(['master.key']);
+            if (process.platform !== 'win32') {
+                expect(fs.statSync(keyFile).mode & 0o777).toBe(0o600);
+            }
+        });
+
+        it('should encrypt the key file with a passphrase', () => {
+            const key = generateLocalKey(keyFile, { passphrase: 'correct horse' });
+
+            const contents = fs.readFileSync(keyFile, 'utf-8');
+            expect(contents).not.toContain(key);
+            expect(JSON.parse(contents)).toMatchObject({ format: 'mirage-local-key', version: 1, kdf: 'scrypt' });
+            expect(generateLocalKey(keyFile, { passphrase: 'correct horse' })).toBe(key);
+            expect(loadLocalKey(keyFile, { passphrase: 'correct horse' })).toBe(key);
+        });
+
+        it('should refuse a passphrase for an existing key file that is not passphrase-protected', () => {
+            const key = generateLocalKey(keyFile);
+
+            expect(() => generateLocalKey(keyFile, { passphrase: 'correct horse' })).toThrow(ConfigurationError);
+            expect(() => generateLocalKey(keyFile, { passphrase: 'correct horse' })).toThrow(/already exists and is not passphrase-protected/);
+            expect(fs.readFileSync(keyFile, 'utf-8')).toBe(key);
+        });
+
+        it('should return the key another process created meanwhile instead of replacing it', () => {
+            const otherKey = Buffer.alloc(96, 7).toString('base64');
+            const linkSync = fs.linkSync;
+            const link = jest.spyOn(fs, 'linkSync').mockImplementationOnce((existingPath, newPath) => {
+                fs.writeFileSync(newPath, otherKey);
+                linkSync(existingPath, newPath);
+            });
+
+            try {
+                expect(generateLocalKey(keyFile)).toBe(otherKey);
+            } finally {
+                link.mockRestore();
+            }
+            expect(fs.readFileSync(keyFile, 'utf-8')).toBe(otherKey);
+            expect(fs.readdirSync(dir)).toEqual(['master.key']);
+        });
+
+        it('should reject an empty passphrase', () => {
+            expect(() => generateLocalKey(keyFile, { passphrase: '' })).toThrow('passphrase must be a non-empty string');
+            expect(fs.existsSync(keyFile)).toBe(false);
+        });
+    });
+
+    describe('loadLocalKey', () => {
+        it('should reject a protected key file without the right passphrase', () => {
+            generateLocalKey(keyFile, { passphrase: 'correct horse' });
+
+            expect(() => loadLocalKey(keyFile)).toThrow('is passphrase-protected');
+            expect(() => loadLocalKey(keyFile, { passphrase: 'battery staple' })).toThrow('wrong passphrase or corrupted file');
+        });
+
+        it('should reject keys that are not 96 bytes', () => {
+            fs.writeFileSync(keyFile, Buffer.alloc(32).toString('base64'));
+
+            expect(() => loadLocalKey(keyFile)).toThrow('must be 96 bytes of base64, got 32 bytes');
+        });
+
+        it('should reject a missing file', () => {
+            expect(() => loadLocalKey(keyFile)).toThrow(ValidationError);
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { MongoClient } from "mongodb";
+import { DekManager, ServerEncryptionService } from "../../src";
+import { IKMSProvider } from "../../src/types/kms";
+import { IKeyVault } from "../../src/types/schema";
+import { EEncryptionAlgorithm } from "../../src/enums/enums";
+import { randomUUID } from "node:crypto";
+import os from "node:os";
+import path from "path";
+
+/**
+ * Runs against a local KMIP test server, such as the PyKMIP server from the MongoDB drivers
+ * test tooling. Set KMIP_ENDPOINT (e.g. "localhost:5698"), KMIP_TLS_CA_FILE and
+ * KMIP_TLS_CERTIFICATE_KEY_FILE to enable it.
+ */
+const kmipEndpoint = process.env.KMIP_ENDPOINT;
+const describeKmip = kmipEndpoint ? describe : describe.skip;
+
+describeKmip("Integration (KMIP)", () => {
+    const mongoURI = process.env.MONGODB_URI ?? "mongodb://localhost:27017";
+    const keyVault: IKeyVault = {
+        database: randomUUID().substring(12),
+        collection: "_keys_"
+    };
+
+    const kmsProvider: IKMSProvider = {
+        type: "kmip",
+        kmip: {
+            endpoint: kmipEndpoint ?? ""
+        },
+        tlsOptions: {
+            tlsCAFile: process.env.KMIP_TLS_CA_FILE,
+            tlsCertificateKeyFile: process.env.KMIP_TLS_CERTIFICATE_KEY_FILE
+        }
+    };
+
+    const cryptSharedFilePath = path.resolve(
+        "config",
+        { win32: "mongo_crypt_v1.dll", darwin: "mongo_crypt_v1.dylib" }[os.platform() as string] ?? "mongo_crypt_v1.so"
+    );
+
+    const client = new MongoClient(mongoURI);
+
+    afterAll(async () => {
+        await client.connect();
+        await client.db(keyVault.database).dropDatabase();
+        await client.close();
+    });
+
+    it("should create a DEK wrapped by the KMIP server", async () => {
+        const dekManager = new DekManager(
+            client,
+            `${keyVault.database}.${keyVault.collection}`,
+            keyVault,
+            kmsProvider
+        );
+
+        const dekId = await dekManager.getDEK("kmip.test.field");
+        const key = await dekManager.getKeyById(dekId);
+
+        expect(key?.masterKey?.provider).toBe("kmip");
+    });
+
+    it("should encrypt and decrypt a value with a KMIP-wrapped DEK", async () => {
+        const service = new ServerEncryptionService(
+            mongoURI,
+            kmsProvider,
+            keyVault,
+            cryptSharedFilePath
+        );
+
+        const encrypted = await service.encryptValue("secret", {
+            keyAltName: "kmip.test.field",
+            algorithm: EEncryptionAlgorithm.RANDOM
+        });
+
+        expect(await service.decryptValue(encrypted)).toBe("secret");
+    });
+});
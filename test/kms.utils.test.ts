@@ -0,0 +1,277 @@
+import {
+    buildAutoEncryptionKmsProviders,
+    buildKmsTlsOptions,
+    getKmsErrorCode,
+    getKmsProviderName,
+    kmsProvidersEqual,
+    resolveKmsProviders,
+    resolveKmsProviderSecrets,
+    toKmsProviderList
+} from '../src/utils/kms.utils';
+import { ConfigurationError, KMSError } from '../src/errors/errors';
+import { IKMSProvider } from '../src/types/kms';
+
+describe('kms.utils', () => {
+    const awsProvider = (name?: string): IKMSProvider => ({
+        type: 'aws',
+        name,
+        aws: { accessKeyId: 'id', secretAccessKey: 'secret' },
+        masterKey: { region: 'eu-west-1', key: 'arn:aws:kms:eu-west-1:123456789012:key/abc' },
+    });
+
+    describe('getKmsProviderName', () => {
+        it('should use the type for unnamed providers', () => {
+            expect(getKmsProviderName(awsProvider())).toBe('aws');
+        });
+
+        it('should prefix named providers with the type', () => {
+            expect(getKmsProviderName(awsProvider('eu'))).toBe('aws:eu');
+        });
+    });
+
+    describe('toKmsProviderList', () => {
+        it('should wrap a single provider in a list', () => {
+            const provider = awsProvider();
+            expect(toKmsProviderList(provider)).toEqual([provider]);
+        });
+
+        it('should accept several named providers of the same type', () => {
+            const providers = [awsProvider('eu'), awsProvider('us'), { type: 'local', local: { key: 'key' } } as IKMSProvider];
+            expect(toKmsProviderList(providers)).toBe(providers);
+        });
+
+        it('should reject an empty list', () => {
+            expect(() => toKmsProviderList([])).toThrow(KMSError);
+        });
+
+        it('should reject duplicate provider names', () => {
+            expect(() => toKmsProviderList([awsProvider('eu'), awsProvider('eu')])).toThrow(/Duplicate KMS provider 'aws:eu'/);
+            expect(() => toKmsProviderList([awsProvider(), awsProvider()])).toThrow(/Duplicate KMS provider 'aws'/);
+        });
+
+        it('should reject invalid provider names', () => {
+            expect(() => toKmsProviderList([awsProvider('eu-west')])).toThrow(/Invalid KMS provider name 'eu-west'/);
+        });
+
+        it('should reject unsupported provider types', () => {
+            expect(() => toKmsProviderList([{ type: 'vault' } as any])).toThrow(/Unsupported KMS provider: vault/);
+        });
+
+        it('should require a KMIP endpoint', () => {
+            expect(() => toKmsProviderList({ type: 'kmip', kmip: { endpoint: '' } })).toThrow(/requires kmip.endpoint/);
+        });
+
+        it('should reject TLS files that do not exist', () => {
+            const provider: IKMSProvider = {
+                type: 'kmip',
+                kmip: { endpoint: 'localhost:5698' },
+                tlsOptions: { tlsCAFile: __filename, tlsCertificateKeyFile: '/nonexistent/client.pem' },
+            };
+            expect(() => toKmsProviderList(provider)).toThrow(/tlsCertificateKeyFile \/nonexistent\/client.pem/);
+        });
+
+        it('should require exactly one of static credentials or a credential provider', () => {
+            const provider = { ...awsProvider(), credentials: 'onDemand' } as IKMSProvider;
+            expect(() => toKmsProviderList(provider)).toThrow(/requires exactly one of aws or credentials/);
+        });
+
+        it('should validate secret sources', () => {
+            expect(() => toKmsProviderList({ type: 'local', local: { key: { fromEnv: 'KEY', fromFile: 'key.txt' } as any } }))
+                .toThrow("local.key of KMS provider 'local' must have exactly one of fromEnv, fromFile, fromSecret");
+        });
+
+        it('should reject on-demand credentials for named providers', () => {
+            const provider: IKMSProvider = { ...awsProvider('eu'), aws: undefined, credentials: 'onDemand' };
+            expect(() => toKmsProviderList(provider)).toThrow(/only supported for unnamed providers/);
+        });
+    });
+
+    describe('resolveKmsProviders', () => {
+        const credentialProvider = (expiresInMs?: number) => {
+            let calls = 0;
+            const provider = jest.fn(async () => {
+                calls++;
+                return {
+                    accessKeyId: `id-${calls}`,
+                    secretAccessKey: 'secret',
+                    ...(expiresInMs === undefined ? {} : { expiration: new Date(Date.now() + expiresInMs) }),
+                };
+            });
+            return provider;
+        };
+
+        it('should resolve static, on-demand and callback credentials by provider name', async () => {
+            const credentials = credentialProvider();
+            const kmsProviders = await resolveKmsProviders([
+                { type: 'local', local: { key: 'key' } },
+                { type: 'gcp', credentials: 'onDemand', masterKey: { projectId: 'p', location: 'l', keyRing: 'r', keyName: 'k' } },
+                { ...awsProvider('eu'), aws: undefined, credentials },
+            ]);
+
+            expect(kmsProviders).toEqual({
+                local: { key: 'key' },
+                gcp: {},
+                'aws:eu': { accessKeyId: 'id-1', secretAccessKey: 'secret' },
+            });
+        });
+
+        it('should cache credentials until shortly before they expire', async () => {
+            const credentials = credentialProvider(60 * 60 * 1000);
+            const provider: IKMSProvider = { ...awsProvider(), aws: undefined, credentials };
+
+            const first = await resolveKmsProviders([provider]);
+            const second = await resolveKmsProviders([provider]);
+
+            expect(credentials).toHaveBeenCalledTimes(1);
+            expect(second).toEqual(first);
+        });
+
+        it('should refresh credentials that are about to expire', async () => {
+            const credentials = credentialProvider(60 * 1000);
+            const provider: IKMSProvider = { ...awsProvider(), aws: undefined, credentials };
+
+            const first = await resolveKmsProviders([provider]);
+            const second = await resolveKmsProviders([provider]);
+
+            expect(credentials).toHaveBeenCalledTimes(2);
+            expect(kmsProvidersEqual(first, second)).toBe(false);
+        });
+
+        it('should wrap credential provider failures in a KMSError', async () => {
+            const provider: IKMSProvider = {
+                ...awsProvider(),
+                aws: undefined,
+                credentials: async () => { throw new Error('instance metadata unavailable'); },
+            };
+
+            await expect(resolveKmsProviders([provider]))
+                .rejects.toThrow(/Failed to fetch credentials for KMS provider 'aws': instance metadata unavailable/);
+            await expect(resolveKmsProviders([provider])).rejects.toMatchObject({
+                code: 'KMS_CREDENTIALS_UNAVAILABLE',
+                context: { provider: 'aws' },
+            });
+        });
+    });
+
+    describe('resolveKmsProviderSecrets', () => {
+        const originalEnv = process.env;
+
+        afterEach(() => {
+            process.env = originalEnv;
+        });
+
+        it('should resolve credentials, master keys and TLS passwords from their sources', async () => {
+            process.env = { ...originalEnv, MIRAGE_TEST_LOCAL_KEY: 'local-master-key' };
+            const [local, aws] = await resolveKmsProviderSecrets([
+                { type: 'local', local: { key: { fromEnv: 'MIRAGE_TEST_LOCAL_KEY' } } },
+                {
+                    ...awsProvider(),
+                    aws: { accessKeyId: 'id', secretAccessKey: async () => 'aws-secret-access-key' },
+                    tlsOptions: { tlsCertificateKeyFilePassword: () => 'tls-key-password' },
+                },
+            ]);
+
+            expect(local).toEqual({ type: 'local', local: { key: 'local-master-key' } });
+            expect(aws).toMatchObject({
+                aws: { accessKeyId: 'id', secretAccessKey: 'aws-secret-access-key' },
+                tlsOptions: { tlsCertificateKeyFilePassword: 'tls-key-password' },
+            });
+        });
+
+        it('should return providers without secret sources as they are', async () => {
+            const provider = awsProvider();
+            const [resolved] = await resolveKmsProviderSecrets([provider]);
+            expect(resolved).toBe(provider);
+        });
+
+        it('should name the provider and field that failed', async () => {
+            await expect(resolveKmsProviderSecrets([{ ...awsProvider('eu'), aws: { accessKeyId: 'id', secretAccessKey: { fromEnv: 'MIRAGE_TEST_UNSET' } } }]))
+                .rejects.toThrow("Failed to resolve aws.secretAccessKey of KMS provider 'aws:eu': environment variable MIRAGE_TEST_UNSET is not set");
+        });
+    });
+
+    describe('buildAutoEncryptionKmsProviders', () => {
+        it('should hand an unnamed AWS credential provider to the driver', async () => {
+            const credentials = jest.fn(async () => ({ accessKeyId: 'id', secretAccessKey: 'secret' }));
+            const { kmsProviders, credentialProviders } = buildAutoEncryptionKmsProviders([{ ...awsProvider(), aws: undefined, credentials }]);
+
+            expect(kmsProviders).toEqual({ aws: {} });
+            await expect(credentialProviders?.aws?.()).resolves.toEqual({ accessKeyId: 'id', secretAccessKey: 'secret' });
+        });
+
+        it('should call synchronous credential providers of other providers', () => {
+            const credentials = () => ({ clientId: 'client', clientSecret: 'secret', tenantId: 'tenant' });
+            const { kmsProviders, credentialProviders } = buildAutoEncryptionKmsProviders([{
+                type: 'azure',
+                name: 'eu',
+                credentials,
+                masterKey: { keyVaultEndpoint: 'https://vault.azure.net', keyName: 'key' },
+            }]);
+
+            expect(kmsProviders).toEqual({ 'azure:eu': { clientId: 'client', clientSecret: 'secret', tenantId: 'tenant' } });
+            expect(credentialProviders).toBeUndefined();
+        });
+
+        it('should reject asynchronous credential providers the driver cannot refresh', () => {
+            const build = () => buildAutoEncryptionKmsProviders([{ ...awsProvider('eu'), aws: undefined, credentials: async () => ({ accessKeyId: 'id', secretAccessKey: 'secret' }) }]);
+
+            expect(build).toThrow(ConfigurationError);
+            expect(build).toThrow(/'aws:eu' has an asynchronous credential provider/);
+        });
+
+        it('should reject expiring credentials the driver cannot refresh', () => {
+            const credentials = () => ({ accessToken: 'token', expiration: new Date(Date.now() + 3600 * 1000) });
+            const build = () => buildAutoEncryptionKmsProviders([{
+                type: 'gcp',
+                credentials,
+                masterKey: { projectId: 'project', location: 'global', keyRing: 'ring', keyName: 'key' },
+            }]);
+
+            expect(build).toThrow(ConfigurationError);
+            expect(build).toThrow(/'gcp' has a credential provider that returned expiring credentials.*or "onDemand" instead/);
+        });
+
+        it('should reject asynchronous secret resolvers that were not resolved beforehand', () => {
+            expect(() => buildAutoEncryptionKmsProviders([{ type: 'local', local: { key: async () => 'local-master-key' } }]))
+                .toThrow(/local.key of KMS provider 'local' has an asynchronous resolver/);
+        });
+    });
+
+    describe('buildKmsTlsOptions', () => {
+        it('should key TLS options by provider name', () => {
+            const tlsOptions = { tlsCAFile: 'ca.pem', tlsCertificateKeyFile: 'client.pem' };
+            const providers: IKMSProvider[] = [
+                awsProvider('eu'),
+                { type: 'kmip', name: 'primary', kmip: { endpoint: 'localhost:5698' }, tlsOptions },
+            ];
+            expect(buildKmsTlsOptions(providers)).toEqual({ 'kmip:primary': tlsOptions });
+        });
+
+        it('should return undefined when no provider has TLS options', () => {
+            expect(buildKmsTlsOptions([awsProvider()])).toBeUndefined();
+        });
+    });
+
+    describe('getKmsErrorCode', () => {
+        it('should recognize rejected credentials from each KMS', () => {
+            expect(getKmsErrorCode(new Error('Error in KMS response. HTTP status=400. Response body=\n{"__type":"UnrecognizedClientException"}')))
+                .toBe('KMS_AUTH_FAILED');
+            expect(getKmsErrorCode(new Error('Error in KMS response. HTTP status=401. Response body=\n{"error":"invalid_client"}')))
+                .toBe('KMS_AUTH_FAILED');
+            expect(getKmsErrorCode(new Error('HTTP status=403. Response body=\n{"error":{"status":"PERMISSION_DENIED"}}')))
+                .toBe('KMS_AUTH_FAILED');
+        });
+
+        it('should recognize unreachable KMS endpoints through the cause chain', () => {
+            const networkError = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5698'), { code: 'ECONNREFUSED' });
+
+            expect(getKmsErrorCode(new Error('KMS request failed', { cause: networkError }))).toBe('KMS_UNAVAILABLE');
+            expect(getKmsErrorCode(new Error('wrapped', { cause: networkError }))).toBe('KMS_UNAVAILABLE');
+        });
+
+        it('should leave other errors unclassified', () => {
+            expect(getKmsErrorCode(new Error('E11000 duplicate key error'))).toBeUndefined();
+            expect(getKmsErrorCode(undefined)).toBeUndefined();
+        });
+    });
+});
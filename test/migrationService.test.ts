@@ -0,0 +1,378 @@
+import { Binary, Document, MongoClient } from 'mongodb';
+import { MigrationService } from '../src/migrationService';
+import { ServerEncryptionService } from '../src/encryption';
+import { EEncryptionAlgorithm } from '../src/enums/enums';
+import { ConfigurationError } from '../src/errors/errors';
+import { IEncryptionSchema } from '../src/types/schema';
+
+const ciphertext = (value: unknown) => new Binary(Buffer.from(JSON.stringify(value)), Binary.SUBTYPE_ENCRYPTED);
+const plaintext = (value: Binary) => JSON.parse(Buffer.from(value.buffer).toString());
+const clone = (value: any): any => {
+    if (Array.isArray(value)) {
+        return value.map(clone);
+    }
+    if (value !== null && typeof value === 'object' && !(value instanceof Binary) && !(value instanceof Date)) {
+        return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, clone(nested)]));
+    }
+    return value;
+};
+
+// Sorts numbers before strings, as MongoDB sorts by type bracket first
+const compareIds = (a: any, b: any): number => {
+    if (typeof a !== typeof b) {
+        return typeof a === 'number' ? -1 : 1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Minimal in-memory collection supporting the queries the migrations issue
+ */
+class FakeCollection {
+    constructor(
+        public readonly dbName: string,
+        public readonly collectionName: string,
+        public readonly documents: Document[],
+        private readonly transform: { read?: (document: Document) => Document; write?: (document: Document) => Document } = {},
+        public failOn = new Set<unknown>(),
+    ) { }
+
+    find(filter: Document = {}) {
+        let limit = Infinity;
+        let direction = 1;
+        const cursor = {
+            sort: (sort: Document) => {
+                direction = sort._id;
+                return cursor;
+            },
+            limit: (count: number) => {
+                limit = count;
+                return cursor;
+            },
+            toArray: async () => this.documents
+                .filter((document) => this.matches(document, filter))
+                .sort((a, b) => compareIds(a._id, b._id) * direction)
+                .slice(0, limit)
+                .map((document) => (this.transform.read ?? clone)(document)),
+        };
+        return cursor;
+    }
+
+    async findOne(filter: Document) {
+        return this.documents.find((document) => this.matches(document, filter)) ?? null;
+    }
+
+    async replaceOne(filter: Document, replacement: Document, options: { upsert?: boolean } = {}) {
+        if (this.failOn.has(filter._id)) {
+            throw new Error('write rejected');
+        }
+        const index = this.documents.findIndex((document) => this.matches(document, filter));
+        const document = (this.transform.write ?? clone)(replacement);
+        if (index >= 0) {
+            this.documents[index] = document;
+        } else if (options.upsert) {
+            this.documents.push(document);
+        }
+    }
+
+    private matches(document: Document, filter: Document): boolean {
+        const condition = filter._id;
+        if (condition === undefined) {
+            return true;
+        }
+        if (condition.$gt !== undefined) {
+            return document._id > condition.$gt;
+        }
+        if (condition.$in !== undefined) {
+            return condition.$in.includes(document._id);
+        }
+        return document._id === condition;
+    }
+}
+
+describe('MigrationService', () => {
+    const schema: IEncryptionSchema = {
+        'mydb.users': {
+            bsonType: 'object',
+            properties: {
+                ssn: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.DETERMINISTIC, keyId: [] } },
+                address: {
+                    bsonType: 'object',
+                    properties: {
+                        city: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [] } },
+                    },
+                },
+            },
+        },
+    };
+
+    let users: Document[];
+    let checkpoints: Document[];
+    let encryptedUsers: FakeCollection;
+    let collectionInfos: Document[];
+    let plainClient: MongoClient;
+    let service: MigrationService;
+
+    beforeEach(() => {
+        users = [
+            { _id: 1, name: 'a', ssn: '111', address: { city: 'Berlin' } },
+            { _id: 2, name: 'b', ssn: ciphertext('222'), address: { city: ciphertext('Paris') } },
+            { _id: 3, name: 'c' },
+            { _id: 4, name: 'd', ssn: ciphertext('444'), address: { city: 'Rome' } },
+            { _id: 5, name: 'e', ssn: '555' },
+        ];
+        checkpoints = [];
+
+        const decrypt = (value: unknown): unknown => {
+            if (value instanceof Binary) {
+                return plaintext(value);
+            }
+            if (value !== null && typeof value === 'object') {
+                return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, decrypt(nested)]));
+            }
+            return value;
+        };
+        const encrypt = (document: Document): Document => {
+            const result = clone(document);
+            if (result.ssn !== undefined) {
+                result.ssn = ciphertext(result.ssn);
+            }
+            if (result.address?.city !== undefined) {
+                result.address.city = ciphertext(result.address.city);
+            }
+            return result;
+        };
+
+        encryptedUsers = new FakeCollection('mydb', 'users', users, { read: (document) => decrypt(document) as Document, write: encrypt });
+        const plainCollections: Record<string, FakeCollection> = {
+            users: new FakeCollection('mydb', 'users', users),
+            mirage_migrations: new FakeCollection('mydb', 'mirage_migrations', checkpoints),
+        };
+
+        collectionInfos = [{ name: 'users', type: 'collection', options: {} }];
+        plainClient = {
+            connect: jest.fn(async () => undefined),
+            db: () => ({
+                collection: (name: string) => plainCollections[name],
+                listCollections: (filter: { name: string }) => ({
+                    toArray: async () => collectionInfos.filter((info) => info.name === filter.name),
+                }),
+            }),
+        } as unknown as MongoClient;
+        const encryptionService = {
+            getMode: () => 'csfle',
+            getSchema: () => schema,
+            getMongoClient: () => ({ db: () => ({ collection: () => encryptedUsers }) }),
+        };
+
+        service = new MigrationService(encryptionService as unknown as ServerEncryptionService, plainClient);
+    });
+
+    describe('backfill', () => {
+        it('should encrypt plaintext fields and skip documents that need no change', async () => {
+            const result = await service.backfill('mydb.users', { batchSize: 2 });
+
+            expect(result).toMatchObject({ converted: 3, skipped: 2, failed: 0, lastId: 5, resumed: false });
+            expect(users.every((user) => user.ssn === undefined || user.ssn.sub_type === Binary.SUBTYPE_ENCRYPTED)).toBe(true);
+            expect(plaintext(users.find((user) => user._id === 4)!.address.city)).toBe('Rome');
+            expect(users.find((user) => user._id === 3)).toEqual({ _id: 3, name: 'c' });
+        });
+
+        it('should save a checkpoint after every batch and resume from it', async () => {
+            const progress: unknown[] = [];
+            encryptedUsers.failOn.add(5);
+            await expect(service.backfill('mydb.users', {
+                batchSize: 2,
+                onProgress: (update) => {
+                    progress.push(update.lastId);
+                    if (update.lastId === 2) {
+                        throw new Error('crash');
+                    }
+                },
+            })).rejects.toThrow('Failed to migrate mydb.users: crash');
+
+            expect(checkpoints).toEqual([expect.objectContaining({ _id: 'backfill:mydb.users', lastId: 2, converted: 1, skipped: 1 })]);
+
+            const result = await service.backfill('mydb.users', { batchSize: 2 });
+
+            expect(progress).toEqual([2]);
+            expect(result).toMatchObject({ converted: 2, skipped: 2, failed: 1, resumed: true });
+            expect(result.failures).toEqual([{ _id: 5, error: 'write rejected' }]);
+            expect(checkpoints[0].completedAt).toBeInstanceOf(Date);
+        });
+
+        it('should start over when restart is set', async () => {
+            await service.backfill('mydb.users');
+            const result = await service.backfill('mydb.users', { restart: true });
+
+            expect(result).toMatchObject({ converted: 0, skipped: 5, resumed: false });
+        });
+
+        it('should throttle to the configured rate', async () => {
+            const startedAt = Date.now();
+            await service.backfill('mydb.users', { batchSize: 1, maxDocumentsPerSecond: 50 });
+
+            expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+        });
+
+        it('should refuse collections whose _id types would make paging skip documents', async () => {
+            users.push({ _id: 'legacy-1', name: 'f', ssn: '666' });
+
+            await expect(service.backfill('mydb.users')).rejects.toThrow(
+                'Collection mydb.users has _id values of different types (number and string)'
+            );
+            expect(users[0].ssn).toBe('111');
+        });
+
+        it('should keep the cause of a failed migration', async () => {
+            const crash = new Error('crash');
+
+            const error = await service.backfill('mydb.users', { onProgress: () => { throw crash; } }).catch((error) => error);
+
+            expect(error.cause).toBe(crash);
+        });
+
+        describe('in queryable mode', () => {
+            let queryable: MigrationService;
+
+            beforeEach(() => {
+                queryable = new MigrationService({
+                    getMode: () => 'queryable',
+                    getEncryptedFieldsMap: () => ({ 'mydb.users': { fields: [{ path: 'ssn', bsonType: 'string' }] } }),
+                    getMongoClient: () => ({ db: () => ({ collection: () => encryptedUsers }) }),
+                } as unknown as ServerEncryptionService, plainClient);
+            });
+
+            it('should refuse collections created without encryptedFields', async () => {
+                const error = await queryable.backfill('mydb.users').catch((error) => error);
+
+                expect(error).toBeInstanceOf(ConfigurationError);
+                expect(error.message).toMatch(/^Collection mydb.users was created without encryptedFields/);
+                expect(error.context).toEqual({ namespace: 'mydb.users' });
+                expect(users[0].ssn).toBe('111');
+            });
+
+            it('should encrypt collections created with encryptedFields', async () => {
+                collectionInfos[0].options = { encryptedFields: { fields: [{ path: 'ssn', bsonType: 'string' }] } };
+
+                const result = await queryable.backfill('mydb.users');
+
+                expect(result).toMatchObject({ converted: 2, skipped: 3, failed: 0 });
+            });
+        });
+
+        it('should reject namespaces without encrypted fields', async () => {
+            await expect(service.backfill('mydb.orders')).rejects.toThrow('No encrypted fields are configured for namespace mydb.orders');
+        });
+    });
+
+    describe('rekey', () => {
+        const oldKey = new Binary(Buffer.alloc(16, 1), Binary.SUBTYPE_UUID);
+        const newKey = new Binary(Buffer.alloc(16, 2), Binary.SUBTYPE_UUID);
+        const bsonTypeCodes: Record<string, number> = { string: 0x02, int: 0x10 };
+
+        // CSFLE ciphertext header followed by the JSON plaintext in place of the encrypted payload
+        const fle = (algorithm: string, keyId: Binary, bsonType: string, value: unknown) => new Binary(Buffer.concat([
+            Buffer.from([algorithm === EEncryptionAlgorithm.DETERMINISTIC ? 1 : 2]),
+            Buffer.from(keyId.value()),
+            Buffer.from([bsonTypeCodes[bsonType]]),
+            Buffer.from(JSON.stringify(value)),
+        ]), Binary.SUBTYPE_ENCRYPTED);
+        const flePlaintext = (value: Binary) => JSON.parse(Buffer.from(value.value()).subarray(18).toString());
+
+        let rekeySchema: IEncryptionSchema;
+        let accounts: Document[];
+        let rekeyService: MigrationService;
+        let encryptedAccounts: FakeCollection;
+
+        beforeEach(() => {
+            rekeySchema = {
+                'mydb.accounts': {
+                    bsonType: 'object',
+                    properties: {
+                        ssn: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.DETERMINISTIC, keyId: [newKey] } },
+                        pin: { encrypt: { bsonType: 'int', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [newKey] } },
+                    },
+                },
+            };
+            accounts = [
+                { _id: 1, ssn: fle(EEncryptionAlgorithm.DETERMINISTIC, oldKey, 'string', '111'), pin: fle(EEncryptionAlgorithm.RANDOM, newKey, 'int', 1) },
+                { _id: 2, ssn: fle(EEncryptionAlgorithm.DETERMINISTIC, newKey, 'string', '222'), pin: fle(EEncryptionAlgorithm.RANDOM, newKey, 'int', 2) },
+                { _id: 3, ssn: fle(EEncryptionAlgorithm.RANDOM, newKey, 'string', '333') },
+                { _id: 4, ssn: '444' },
+                { _id: 5, pin: fle(EEncryptionAlgorithm.RANDOM, newKey, 'string', '5') },
+            ];
+
+            const properties = () => rekeySchema['mydb.accounts'].properties as Record<string, any>;
+            const read = (document: Document) => Object.fromEntries(Object.entries(document)
+                .map(([key, value]) => [key, value instanceof Binary ? flePlaintext(value) : value]));
+            const write = (document: Document) => Object.fromEntries(Object.entries(document).map(([key, value]) => {
+                const encrypt = properties()[key]?.encrypt;
+                return [key, encrypt ? fle(encrypt.algorithm, Array.isArray(encrypt.keyId) ? encrypt.keyId[0] : newKey, encrypt.bsonType, value) : value];
+            }));
+
+            encryptedAccounts = new FakeCollection('mydb', 'accounts', accounts, { read, write });
+            const plainCollections: Record<string, FakeCollection> = {
+                accounts: new FakeCollection('mydb', 'accounts', accounts),
+                mirage_migrations: new FakeCollection('mydb', 'mirage_migrations', checkpoints),
+            };
+            const plainClient = {
+                connect: jest.fn(async () => undefined),
+                db: () => ({ collection: (name: string) => plainCollections[name] }),
+            };
+            const encryptionService = {
+                getMode: () => 'csfle',
+                getSchema: () => rekeySchema,
+                getMongoClient: () => ({ db: () => ({ collection: () => encryptedAccounts }) }),
+            };
+
+            rekeyService = new MigrationService(encryptionService as unknown as ServerEncryptionService, plainClient as unknown as MongoClient);
+        });
+
+        it('should re-encrypt fields whose key, algorithm or type changed and leave plaintext alone', async () => {
+            const [result] = await rekeyService.rekey(undefined, { batchSize: 2 });
+
+            expect(result).toMatchObject({ migrationId: 'rekey:mydb.accounts', converted: 3, skipped: 2, failed: 0 });
+            expect(result.verification).toEqual({ checked: 5, mismatched: 0, mismatchedIds: [] });
+            expect(Buffer.from(accounts[0].ssn.value()).subarray(1, 17)).toEqual(Buffer.alloc(16, 2));
+            expect(Buffer.from(accounts[2].ssn.value())[0]).toBe(1);
+            expect(Buffer.from(accounts[4].pin.value())[17]).toBe(0x10);
+            expect(flePlaintext(accounts[4].pin)).toBe('5');
+            expect(accounts[3]).toEqual({ _id: 4, ssn: '444' });
+        });
+
+        it('should report documents that still mismatch in the verification pass', async () => {
+            encryptedAccounts.failOn.add(3);
+
+            const [result] = await rekeyService.rekey('mydb.accounts');
+
+            expect(result.failures).toEqual([{ _id: 3, error: 'write rejected' }]);
+            expect(result.verification).toEqual({ checked: 5, mismatched: 1, mismatchedIds: [3] });
+        });
+
+        it('should skip the verification pass when disabled', async () => {
+            const [result] = await rekeyService.rekey(['mydb.accounts'], { verify: false, migrationId: 'keyRotation' });
+
+            expect(result.migrationId).toBe('keyRotation:mydb.accounts');
+            expect(result.verification).toBeUndefined();
+        });
+
+        it('should compare only algorithm and type for pointer keyIds', async () => {
+            (rekeySchema['mydb.accounts'].properties.ssn as any).encrypt.keyId = '/tenantId';
+            (rekeySchema['mydb.accounts'].properties.pin as any).encrypt.keyId = '/tenantId';
+
+            const [result] = await rekeyService.rekey('mydb.accounts', { verify: false });
+
+            expect(result).toMatchObject({ converted: 2, skipped: 3 });
+        });
+
+        it('should reject queryable mode', async () => {
+            const queryable = new MigrationService(
+                { getMode: () => 'queryable' } as unknown as ServerEncryptionService,
+                {} as MongoClient
+            );
+
+            await expect(queryable.rekey()).rejects.toThrow(ConfigurationError);
+        });
+    });
+});
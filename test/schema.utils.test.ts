@@ -1,6 +1,7 @@
-import { validateCSFLESchema } from '../src/utils/schema.utils';
+import { Binary } from 'mongodb';
+import { validateCSFLESchema, validateEncryptedFieldsMap, validateSchemaDetailed } from '../src/utils/schema.utils';
 import { EEncryptionAlgorithm } from '../src/enums/enums';
-import { IEncryptionSchema, TBsonType } from '../src/types/schema';
+import { IEncryptedFieldsMap, IEncryptionSchema, TBsonType } from '../src/types/schema';
 
 describe('schema.utils', () => {
     describe('validateCSFLESchema', () => {
@@ -201,6 +202,25 @@ describe('schema.utils', () => {
                 expect(validateCSFLESchema(schema)).toBe(true);
             });
 
+            it('should validate a schema with a keyId pointer and random encryption', () => {
+                const schema: IEncryptionSchema = {
+                    "test.user": {
+                        bsonType: 'object',
+                        properties: {
+                            ssn: {
+                                encrypt: {
+                                    bsonType: 'string' as TBsonType,
+                                    algorithm: EEncryptionAlgorithm.RANDOM,
+                                    keyId: "/tenantId"
+                                }
+                            }
+                        }
+                    }
+                };
+
+                expect(validateCSFLESchema(schema)).toBe(true);
+            });
+
             it('should validate a schema with multiple collections', () => {
                 const schema: IEncryptionSchema = {
                     "test.users": {
@@ -251,6 +271,7 @@ describe('schema.utils', () => {
                 };
 
                 expect(() => validateCSFLESchema(schema, "user")).toThrow(/not supported with Deterministic algorithm/);
+                expect(() => validateCSFLESchema(schema)).toThrow(expect.objectContaining({ code: 'SCHEMA_INVALID_TYPE' }));
             });
 
             it("should reject deterministic encryption with binData type", () => {
@@ -280,7 +301,7 @@ describe('schema.utils', () => {
                     }
                 };
 
-                expect(() => validateCSFLESchema(schema, "user")).toThrow("Invalid schema at 'user': 'properties' must not be empty.");
+                expect(() => validateCSFLESchema(schema, "user")).toThrow("Invalid schema at 'test.user': 'properties' must not be empty.");
             });
 
             it("should reject null schema object", () => {
@@ -336,6 +357,44 @@ describe('schema.utils', () => {
 
                 expect(() => validateCSFLESchema(schema)).toThrow(/Missing algorithm for encrypted field/);
             });
+
+            it("should reject a keyId pointer with deterministic encryption", () => {
+                const schema: IEncryptionSchema = {
+                    "test.user": {
+                        bsonType: 'object',
+                        properties: {
+                            ssn: {
+                                encrypt: {
+                                    bsonType: 'string' as TBsonType,
+                                    algorithm: EEncryptionAlgorithm.DETERMINISTIC,
+                                    keyId: "/tenantId"
+                                }
+                            }
+                        }
+                    }
+                };
+
+                expect(() => validateCSFLESchema(schema)).toThrow(/keyId pointers require the Random algorithm/);
+            });
+
+            it("should reject a keyId string that is not a JSON pointer", () => {
+                const schema: IEncryptionSchema = {
+                    "test.user": {
+                        bsonType: 'object',
+                        properties: {
+                            ssn: {
+                                encrypt: {
+                                    bsonType: 'string' as TBsonType,
+                                    algorithm: EEncryptionAlgorithm.RANDOM,
+                                    keyId: "tenantId"
+                                }
+                            }
+                        }
+                    }
+                };
+
+                expect(() => validateCSFLESchema(schema)).toThrow(/must be a JSON pointer/);
+            });
         });
 
         describe("Edge cases", () => {
@@ -364,7 +423,7 @@ describe('schema.utils', () => {
                     }
                 };
 
-                expect(() => validateCSFLESchema(schema)).toThrow(/Invalid schema at 'root.profile': must be an object definition/);
+                expect(() => validateCSFLESchema(schema)).toThrow(/Invalid schema at 'test.user.profile': must be an object definition/);
             });
 
             it("should reject properties in non-object bsonType", () => {
@@ -461,7 +520,7 @@ describe('schema.utils', () => {
                                     keyId: []
                                 },
                                 encryptMetadata: {
-                                    keyId: "someKeyIdentifier"
+                                    keyId: "/tenantId"
                                 }
                             }
                         }
@@ -555,4 +614,197 @@ describe('schema.utils', () => {
             });
         });
     });
+
+    describe('validateSchemaDetailed', () => {
+        const keyId = () => new Binary(Buffer.alloc(16), Binary.SUBTYPE_UUID);
+
+        it('should report every error with its JSON path', () => {
+            const schema: any = {
+                "test.user": {
+                    bsonType: 'object',
+                    properties: {
+                        _id: { encrypt: { bsonType: 'objectId', algorithm: EEncryptionAlgorithm.DETERMINISTIC, keyId: [keyId()] } },
+                        ssn: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.DETERMINISTIC } },
+                        card: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [keyId(), 'not-a-uuid'] } },
+                    },
+                    patternProperties: {
+                        '^note(': { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [keyId()] } },
+                    },
+                },
+            };
+
+            const report = validateSchemaDetailed(schema);
+
+            expect(report.valid).toBe(false);
+            expect(report.errors.map(({ path }) => path)).toEqual([
+                '$["test.user"].properties._id.encrypt',
+                '$["test.user"].properties.ssn.encrypt',
+                '$["test.user"].properties.card.encrypt.keyId[1]',
+                '$["test.user"].patternProperties["^note("]',
+            ]);
+            expect(report.errors[0].message).toBe("Invalid schema at 'test.user._id': _id and its subfields cannot be encrypted.");
+            expect(report.errors[1].message).toMatch(/Missing keyId for encrypted field 'test.user.ssn'/);
+            expect(report.errors.map(({ code }) => code)).toEqual([
+                'SCHEMA_ENCRYPTED_ID',
+                'SCHEMA_INVALID_KEY_ID',
+                'SCHEMA_INVALID_KEY_ID',
+                'SCHEMA_INVALID_PATTERN',
+            ]);
+            expect(report.errors.every(({ severity }) => severity === 'error')).toBe(true);
+        });
+
+        it('should let fields inherit keyId and algorithm from encryptMetadata', () => {
+            const schema: any = {
+                "test.user": {
+                    bsonType: 'object',
+                    encryptMetadata: { keyId: [keyId()], algorithm: EEncryptionAlgorithm.RANDOM },
+                    properties: {
+                        notes: { encrypt: { bsonType: 'string' } },
+                        profile: {
+                            bsonType: 'object',
+                            encryptMetadata: { algorithm: EEncryptionAlgorithm.DETERMINISTIC },
+                            properties: { email: { encrypt: { bsonType: 'string' } } },
+                        },
+                    },
+                },
+            };
+
+            expect(validateSchemaDetailed(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+        });
+
+        it('should reject deterministic fields inheriting a keyId pointer', () => {
+            const schema: any = {
+                "test.tenants": {
+                    bsonType: 'object',
+                    encryptMetadata: { keyId: '/tenantId' },
+                    properties: {
+                        ssn: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.DETERMINISTIC } },
+                    },
+                },
+            };
+
+            const report = validateSchemaDetailed(schema);
+
+            expect(report.errors).toEqual([{
+                path: '$["test.tenants"].properties.ssn.encrypt',
+                severity: 'error',
+                code: 'SCHEMA_INVALID_KEY_ID',
+                message: "Invalid schema for 'test.tenants.ssn': keyId pointers require the Random algorithm.",
+            }]);
+        });
+
+        it('should report empty keyIds and misplaced encryptMetadata as warnings', () => {
+            const schema: any = {
+                "test.user": {
+                    bsonType: 'object',
+                    properties: {
+                        ssn: {
+                            encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [] },
+                            encryptMetadata: { algorithm: 'AES' },
+                        },
+                    },
+                },
+            };
+
+            const report = validateSchemaDetailed(schema);
+
+            expect(report.errors.map(({ path }) => path)).toEqual(['$["test.user"].properties.ssn.encryptMetadata.algorithm']);
+            expect(report.warnings.map(({ path }) => path)).toEqual([
+                '$["test.user"].properties.ssn.encryptMetadata',
+                '$["test.user"].properties.ssn.encrypt.keyId',
+            ]);
+        });
+
+        it('should list all errors when validateCSFLESchema throws', () => {
+            const schema: any = {
+                "test.user": {
+                    bsonType: 'object',
+                    properties: {
+                        ssn: { encrypt: { bsonType: 'string' } },
+                    },
+                },
+            };
+
+            expect(() => validateCSFLESchema(schema)).toThrow(
+                "Schema has 2 errors:\n" +
+                "- Missing algorithm for encrypted field 'test.user.ssn'. Set it here or in the encryptMetadata of an enclosing object.\n" +
+                "- Missing keyId for encrypted field 'test.user.ssn'. Set it here or in the encryptMetadata of an enclosing object."
+            );
+        });
+    });
+
+    describe('validateEncryptedFieldsMap', () => {
+        const keyId = () => new Binary(Buffer.alloc(16), Binary.SUBTYPE_UUID);
+
+        it('should validate equality and range fields', () => {
+            const encryptedFieldsMap: IEncryptedFieldsMap = {
+                "test.user": {
+                    fields: [
+                        { path: 'ssn', bsonType: 'string', keyId: keyId(), queries: { queryType: 'equality', contention: 8 } },
+                        { path: 'age', bsonType: 'int', keyId: keyId(), queries: { queryType: 'range', min: 0, max: 150 } },
+                        { path: 'address.street', bsonType: 'string', keyId: keyId() }
+                    ]
+                }
+            };
+
+            expect(validateEncryptedFieldsMap(encryptedFieldsMap)).toBe(true);
+        });
+
+        it('should reject an empty encryptedFieldsMap', () => {
+            expect(() => validateEncryptedFieldsMap({})).toThrow(/encryptedFieldsMap cannot be empty/);
+        });
+
+        it('should reject duplicate field paths', () => {
+            const encryptedFieldsMap: IEncryptedFieldsMap = {
+                "test.user": {
+                    fields: [
+                        { path: 'ssn', bsonType: 'string', keyId: keyId() },
+                        { path: 'ssn', bsonType: 'string', keyId: keyId() }
+                    ]
+                }
+            };
+
+            expect(() => validateEncryptedFieldsMap(encryptedFieldsMap)).toThrow(/Duplicate encrypted field 'test.user.ssn'/);
+            expect(() => validateEncryptedFieldsMap(encryptedFieldsMap)).toThrow(expect.objectContaining({
+                code: 'SCHEMA_DUPLICATE_FIELD',
+                context: { namespace: 'test.user', fieldPath: 'ssn' },
+            }));
+        });
+
+        it('should reject range queries on unsupported types', () => {
+            const encryptedFieldsMap: IEncryptedFieldsMap = {
+                "test.user": {
+                    fields: [
+                        { path: 'name', bsonType: 'string', keyId: keyId(), queries: { queryType: 'range' } }
+                    ]
+                }
+            };
+
+            expect(() => validateEncryptedFieldsMap(encryptedFieldsMap)).toThrow(/does not support range queries/);
+        });
+
+        it('should reject equality queries on double fields', () => {
+            const encryptedFieldsMap: IEncryptedFieldsMap = {
+                "test.user": {
+                    fields: [
+                        { path: 'balance', bsonType: 'double', keyId: keyId(), queries: { queryType: 'equality' } }
+                    ]
+                }
+            };
+
+            expect(() => validateEncryptedFieldsMap(encryptedFieldsMap)).toThrow(/does not support equality queries/);
+        });
+
+        it('should reject a negative contention factor', () => {
+            const encryptedFieldsMap: IEncryptedFieldsMap = {
+                "test.user": {
+                    fields: [
+                        { path: 'ssn', bsonType: 'string', keyId: keyId(), queries: { queryType: 'equality', contention: -1 } }
+                    ]
+                }
+            };
+
+            expect(() => validateEncryptedFieldsMap(encryptedFieldsMap)).toThrow(/non-negative integer/);
+        });
+    });
 });
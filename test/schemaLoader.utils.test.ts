@@ -0,0 +1,155 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { formatSchemaError, loadSchemaSource } from '../src/utils/schemaLoader.utils';
+import { ValidationError } from '../src/errors/errors';
+
+describe('schemaLoader.utils', () => {
+    let dir: string;
+
+    const writeSchema = (fileName: string, contents: string): string => {
+        const filePath = path.join(dir, fileName);
+        fs.writeFileSync(filePath, contents);
+        return filePath;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirage-schema-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('JSON', () => {
+        it('should load a schema array and locate its entries', async () => {
+            const filePath = writeSchema('schema.json', [
+                '[',
+                '  {',
+                '    "mydb.users": {',
+                '      "ssn": "string",',
+                '      "address": { "city": "string" }',
+                '    }',
+                '  }',
+                ']',
+            ].join('\n'));
+
+            const source = await loadSchemaSource(filePath);
+
+            expect(source.collections).toEqual([{ 'mydb.users': { ssn: 'string', address: { city: 'string' } } }]);
+            expect(source.locate([0, 'mydb.users', 'ssn'])).toEqual({ line: 4, column: 7 });
+            expect(source.locate([0, 'mydb.users', 'address', 'city'])).toEqual({ line: 5, column: 20 });
+            expect(formatSchemaError(source, [0, 'mydb.users', 'ssn'], 'bad field')).toBe(`${filePath}:4:7: bad field`);
+        });
+
+        it('should report the line and column of a syntax error', async () => {
+            const filePath = writeSchema('schema.json', '[\n  { "mydb.users": { "ssn": "string", } }\n]');
+
+            await expect(loadSchemaSource(filePath)).rejects.toThrow(new RegExp(`^${filePath}:2:38: Invalid JSON in schema file`));
+        });
+
+        it('should reject a schema that is not an array', async () => {
+            const filePath = writeSchema('schema.json', '{ "mydb.users": { "ssn": "string" } }');
+
+            await expect(loadSchemaSource(filePath)).rejects.toThrow(`${filePath}:1:1: Schema file must contain an array of collections`);
+        });
+    });
+
+    describe('YAML', () => {
+        it('should load a schema sequence and locate its entries', async () => {
+            const filePath = writeSchema('schema.yaml', [
+                '- mydb.users:',
+                '    ssn: string',
+                '    salary:',
+                '      type: double',
+                '      algorithm: random',
+            ].join('\n'));
+
+            const source = await loadSchemaSource(filePath);
+
+            expect(source.collections).toEqual([{ 'mydb.users': { ssn: 'string', salary: { type: 'double', algorithm: 'random' } } }]);
+            expect(source.locate([0, 'mydb.users', 'salary', 'algorithm'])).toEqual({ line: 5, column: 7 });
+        });
+
+        it('should fall back to the closest parent for missing entries', async () => {
+            const source = await loadSchemaSource(writeSchema('schema.yml', '- mydb.users:\n    ssn: string\n'));
+
+            expect(source.locate([0, 'mydb.users', 'kmsProvider'])).toEqual({ line: 1, column: 3 });
+        });
+
+        it('should report the line and column of a syntax error', async () => {
+            const filePath = writeSchema('schema.yaml', '- mydb.users:\n    ssn: string\n   bad: [\n');
+
+            await expect(loadSchemaSource(filePath)).rejects.toThrow(new RegExp(`^${filePath}:\\d+:\\d+: Invalid YAML in schema file`));
+        });
+    });
+
+    describe('modules', () => {
+        it('should load a CommonJS module exporting an async function', async () => {
+            const filePath = writeSchema('schema.js', 'module.exports = async () => [{ "mydb.users": { ssn: "string" } }];');
+
+            const source = await loadSchemaSource(filePath);
+
+            expect(source.collections).toEqual([{ 'mydb.users': { ssn: 'string' } }]);
+            expect(source.locate([0, 'mydb.users', 'ssn'])).toBeUndefined();
+        });
+
+        it('should load an ES module with a default export', async () => {
+            const filePath = writeSchema('schema.mjs', 'export default async () => [{ "mydb.users": { ssn: "string" } }];');
+
+            const source = await loadSchemaSource(filePath);
+
+            expect(source.collections).toEqual([{ 'mydb.users': { ssn: 'string' } }]);
+        });
+
+        it('should load a TypeScript module with a default export', async () => {
+            const filePath = writeSchema('schema.ts', [
+                'const fields: Record<string, string> = { ssn: "string" };',
+                'export default [{ "mydb.users": fields }];',
+            ].join('\n'));
+
+            const source = await loadSchemaSource(filePath);
+
+            expect(source.collections).toEqual([{ 'mydb.users': { ssn: 'string' } }]);
+        });
+
+        it('should resolve imports of a TypeScript module relative to the schema file', async () => {
+            writeSchema('fields.js', 'module.exports = { ssn: "string" };');
+            const filePath = writeSchema('schema.ts', [
+                'import fields from "./fields";',
+                'export default [{ "mydb.users": { ...fields, source: __filename.endsWith("schema.ts") ? "string" : "int" } }];',
+            ].join('\n'));
+
+            const source = await loadSchemaSource(filePath);
+
+            expect(source.collections).toEqual([{ 'mydb.users': { ssn: 'string', source: 'string' } }]);
+        });
+
+        it('should report the line and column of a TypeScript syntax error', async () => {
+            const filePath = writeSchema('schema.ts', 'export default [\n  { "mydb.users": { ssn: "string" }\n;');
+
+            await expect(loadSchemaSource(filePath)).rejects.toThrow(new RegExp(`^${filePath}:3:1: `));
+        });
+
+        it('should wrap errors thrown while loading a module', async () => {
+            const filePath = writeSchema('schema.js', 'throw new Error("secrets unavailable");');
+
+            await expect(loadSchemaSource(filePath)).rejects.toThrow(`${filePath}: Failed to load schema: secrets unavailable`);
+        });
+    });
+
+    describe('custom loaders', () => {
+        it('should use the loader instead of the built-in parsers', async () => {
+            const loader = jest.fn(async () => [{ 'mydb.users': { ssn: 'string' } }]);
+
+            const source = await loadSchemaSource('schema.toml', loader);
+
+            expect(loader).toHaveBeenCalledWith('schema.toml');
+            expect(source.collections).toEqual([{ 'mydb.users': { ssn: 'string' } }]);
+        });
+
+        it('should reject loader output that is not an array', async () => {
+            await expect(loadSchemaSource('schema.toml', async () => ({}) as any)).rejects.toThrow(ValidationError);
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Binary, Int32, Long } from 'mongodb';
+import { EEncryptionAlgorithm } from '../src/enums/enums';
+import { ConfigurationError, ValidationError } from '../src/errors/errors';
+import { ISchemaLock } from '../src/types/encryptionSchemaService';
+import {
+    checkSchemaLock,
+    collectSchemaLockKeyIds,
+    hashSchemaFile,
+    readSchemaLock,
+    writeSchemaLock
+} from '../src/utils/schemaLock.utils';
+
+describe('schemaLock.utils', () => {
+    let dir: string;
+    let schemaFile: string;
+    let lockFile: string;
+
+    const keyId = (fill: number) => new Binary(Buffer.alloc(16, fill), Binary.SUBTYPE_UUID);
+    const csfleLock = (sourceHash = '0'.repeat(64)): ISchemaLock => ({
+        format: 'mirage-schema-lock',
+        version: 1,
+        mode: 'csfle',
+        sourceHash,
+        schema: {
+            'mydb.users': {
+                bsonType: 'object',
+                properties: {
+                    ssn: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.DETERMINISTIC, keyId: [keyId(1)] } },
+                    card: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [keyId(2)] } },
+                    pin: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [keyId(1)] } },
+                },
+            },
+            'mydb.tenants': {
+                bsonType: 'object',
+                properties: {
+                    notes: { encrypt: { bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, keyId: '/tenantId' } },
+                },
+            },
+        },
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirage-lock-'));
+        schemaFile = path.join(dir, 'schema.yaml');
+        lockFile = path.join(dir, 'schema.lock.json');
+        fs.writeFileSync(schemaFile, '- mydb.users:\n    ssn: string\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('writeSchemaLock / readSchemaLock', () => {
+        it('should round-trip DEK ids and BSON number types through canonical Extended JSON', () => {
+            const lock: ISchemaLock = {
+                ...csfleLock(),
+                mode: 'queryable',
+                schema: {
+                    'mydb.orders': {
+                        fields: [{
+                            path: 'total',
+                            bsonType: 'long',
+                            keyId: keyId(3),
+                            queries: { queryType: 'range', min: Long.fromNumber(0), max: Long.fromNumber(1000), contention: new Int32(4) },
+                        }],
+                    },
+                },
+            };
+
+            writeSchemaLock(lockFile, lock);
+            const contents = fs.readFileSync(lockFile, 'utf-8');
+            const read = readSchemaLock(lockFile);
+
+            expect(contents).toContain('"$binary"');
+            expect(contents).toContain('"$numberLong": "1000"');
+            expect(read.version).toBe(1);
+            const field = (read.schema as any)['mydb.orders'].fields[0];
+            expect(field.keyId).toBeInstanceOf(Binary);
+            expect(field.keyId.sub_type).toBe(Binary.SUBTYPE_UUID);
+            expect(field.queries.max).toBeInstanceOf(Long);
+        });
+
+        it('should replace an existing lock without leaving a temporary file', () => {
+            fs.writeFileSync(lockFile, '{ "format": "old" }');
+
+            writeSchemaLock(lockFile, csfleLock());
+
+            expect(readSchemaLock(lockFile).mode).toBe('csfle');
+            expect(fs.readdirSync(dir).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+        });
+
+        it('should keep the existing lock and remove the temporary file when the rename fails', () => {
+            fs.mkdirSync(lockFile);
+
+            let error: any;
+            try {
+                writeSchemaLock(lockFile, csfleLock());
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error.message).toMatch(/Failed to write schema lock file/);
+            expect(error.cause).toBeDefined();
+            expect(fs.statSync(lockFile).isDirectory()).toBe(true);
+            expect(fs.readdirSync(dir).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+        });
+
+        it('should reject files that are not schema locks', () => {
+            fs.writeFileSync(lockFile, JSON.stringify({ format: 'other' }));
+            expect(() => readSchemaLock(lockFile)).toThrow(ValidationError);
+
+            fs.writeFileSync(lockFile, '{');
+            expect(() => readSchemaLock(lockFile)).toThrow(/Invalid schema lock file/);
+        });
+    });
+
+    describe('checkSchemaLock', () => {
+        it('should accept a lock generated from the current schema file', async () => {
+            const lock = csfleLock(await hashSchemaFile(schemaFile));
+
+            await expect(checkSchemaLock(lock, lockFile, schemaFile, 'csfle')).resolves.toBeUndefined();
+        });
+
+        it('should fail when the schema file changed', async () => {
+            const lock = csfleLock(await hashSchemaFile(schemaFile));
+            fs.appendFileSync(schemaFile, '    pin: string\n');
+
+            await expect(checkSchemaLock(lock, lockFile, schemaFile, 'csfle')).rejects.toThrow(ConfigurationError);
+            await expect(checkSchemaLock(lock, lockFile, schemaFile, 'csfle')).rejects.toThrow(/changed since .*schema\.lock\.json was generated/);
+        });
+
+        it('should ignore changes that leave the loaded schema the same', async () => {
+            const lock = csfleLock(await hashSchemaFile(schemaFile));
+            fs.writeFileSync(schemaFile, '# Users\n- mydb.users: { ssn: string }\n');
+
+            await expect(checkSchemaLock(lock, lockFile, schemaFile, 'csfle')).resolves.toBeUndefined();
+        });
+
+        it('should fail when a file the schema module reads changed', async () => {
+            const moduleFile = path.join(dir, 'schema.js');
+            fs.writeFileSync(path.join(dir, 'fields.json'), '{ "ssn": "string" }');
+            fs.writeFileSync(moduleFile, [
+                'const fs = require("fs");',
+                'module.exports = () => [{ "mydb.users": JSON.parse(fs.readFileSync(`${__dirname}/fields.json`, "utf-8")) }];',
+            ].join('\n'));
+            const lock = csfleLock(await hashSchemaFile(moduleFile));
+
+            fs.writeFileSync(path.join(dir, 'fields.json'), '{ "ssn": "string", "pin": "string" }');
+
+            await expect(checkSchemaLock(lock, lockFile, moduleFile, 'csfle')).rejects.toThrow(/changed since/);
+        });
+
+        it('should fail when a custom loader returns another schema for the same file', async () => {
+            const lock = csfleLock(await hashSchemaFile(schemaFile, () => [{ 'mydb.users': { ssn: 'string' } }]));
+
+            await expect(checkSchemaLock(lock, lockFile, schemaFile, 'csfle', () => [{ 'mydb.users': { ssn: 'string', pin: 'string' } }]))
+                .rejects.toThrow(/changed since/);
+        });
+
+        it('should fail when the lock is for another mode', async () => {
+            await expect(checkSchemaLock(csfleLock(), lockFile, schemaFile, 'queryable')).rejects.toThrow(/generated for csfle mode, not queryable/);
+        });
+    });
+
+    describe('collectSchemaLockKeyIds', () => {
+        it('should return each DEK id once and skip JSON pointer keyIds', () => {
+            const keyIds = collectSchemaLockKeyIds(csfleLock());
+
+            expect(keyIds.map((id) => id.toUUID().toHexString())).toEqual([
+                keyId(1).toUUID().toHexString(),
+                keyId(2).toUUID().toHexString(),
+            ]);
+        });
+    });
+});
@@ -0,0 +1,39 @@
+import { UUID } from 'mongodb';
+import { formatSchemaPlan } from '../src/utils/schemaPlan.utils';
+import { EEncryptionAlgorithm } from '../src/enums/enums';
+import { ISchemaPlan } from '../src/types/encryptionSchemaService';
+
+describe('schemaPlan.utils', () => {
+    describe('formatSchemaPlan', () => {
+        it('should list fields by collection with their DEK actions and orphaned keys', () => {
+            const existingId = new UUID('0b4d8a3c-59e2-4f5e-9d4e-8f1a2b3c4d5e');
+            const orphanId = new UUID('1c5e9b4d-6af3-4a6f-8e5f-9a2b3c4d5e6f');
+            const plan: ISchemaPlan = {
+                mode: 'csfle',
+                fields: [
+                    { collection: 'mydb.users', path: 'ssn', keyAltName: 'mydb.users.ssn', bsonType: 'string', algorithm: EEncryptionAlgorithm.DETERMINISTIC, kmsProvider: 'local', action: 'existing', keyId: existingId.toBinary() },
+                    { collection: 'mydb.users', path: 'salary', keyAltName: 'mydb.users.salary', bsonType: 'double', algorithm: EEncryptionAlgorithm.RANDOM, kmsProvider: 'local', action: 'create' },
+                    { collection: 'mydb.notes', path: 'body', keyAltName: '/tenantId', bsonType: 'string', algorithm: EEncryptionAlgorithm.RANDOM, action: 'perTenant' },
+                ],
+                orphanedKeys: [{ keyId: orphanId.toBinary(), keyAltNames: ['mydb.users.legacyId'], kmsProvider: 'local' }],
+                summary: { existing: 1, create: 1, perTenant: 1, orphaned: 1 },
+            };
+
+            expect(formatSchemaPlan(plan)).toBe([
+                'Schema plan (csfle)',
+                '',
+                'mydb.users',
+                '  = ssn  string  deterministic  DEK mydb.users.ssn exists (0b4d8a3c-59e2-4f5e-9d4e-8f1a2b3c4d5e)',
+                '  + salary  double  random  DEK mydb.users.salary will be created with local',
+                '',
+                'mydb.notes',
+                '  ~ body  string  random  per-tenant DEKs selected by /tenantId',
+                '',
+                'Key vault entries matching no field',
+                '  - mydb.users.legacyId  1c5e9b4d-6af3-4a6f-8e5f-9a2b3c4d5e6f  local',
+                '',
+                'Plan: 1 to create, 1 existing, 1 per-tenant, 1 orphaned.',
+            ].join('\n'));
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isSecretSource, resolveSecret, resolveSecretSync, validateSecretSource } from '../src/utils/secrets.utils';
+import { redactSecrets, registerSecret } from '../src/utils/redaction.utils';
+import { KMSError } from '../src/errors/errors';
+
+describe('secrets.utils', () => {
+    const originalEnv = process.env;
+    let tempDir: string;
+
+    beforeEach(() => {
+        process.env = { ...originalEnv };
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirage-secrets-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+        process.env = originalEnv;
+    });
+
+    describe('isSecretSource', () => {
+        it('should recognize source objects and resolvers but not plain secrets', () => {
+            expect(isSecretSource({ fromEnv: 'KEY' })).toBe(true);
+            expect(isSecretSource({ fromSecret: 'key', mountPath: '/etc/secrets' })).toBe(true);
+            expect(isSecretSource(async () => 'value')).toBe(true);
+            expect(isSecretSource('plain')).toBe(false);
+            expect(isSecretSource(Buffer.from('plain'))).toBe(false);
+        });
+    });
+
+    describe('validateSecretSource', () => {
+        it('should reject sources naming several locations', () => {
+            expect(() => validateSecretSource({ fromEnv: 'KEY', fromFile: 'key.txt' }, 'local.key'))
+                .toThrow('local.key must have exactly one of fromEnv, fromFile, fromSecret');
+        });
+
+        it('should reject empty locations and secret names that are paths', () => {
+            expect(() => validateSecretSource({ fromEnv: ' ' }, 'local.key')).toThrow(KMSError);
+            expect(() => validateSecretSource({ fromSecret: '../key' }, 'local.key')).toThrow(/Use fromFile for paths/);
+        });
+    });
+
+    describe('resolveSecretSync', () => {
+        it('should return plain secrets as they are', () => {
+            expect(resolveSecretSync('plain-secret', 'local.key')).toBe('plain-secret');
+        });
+
+        it('should read environment variables', () => {
+            process.env.MIRAGE_TEST_SECRET = 'from-the-environment';
+            expect(resolveSecretSync({ fromEnv: 'MIRAGE_TEST_SECRET' }, 'local.key')).toBe('from-the-environment');
+        });
+
+        it('should fail for unset environment variables', () => {
+            expect(() => resolveSecretSync({ fromEnv: 'MIRAGE_TEST_UNSET' }, 'local.key'))
+                .toThrow('Failed to resolve local.key: environment variable MIRAGE_TEST_UNSET is not set');
+        });
+
+        it('should read files and secret mounts without the trailing line break', () => {
+            fs.writeFileSync(path.join(tempDir, 'kms_password'), 'mounted-password\n');
+
+            expect(resolveSecretSync({ fromFile: path.join(tempDir, 'kms_password') }, 'password')).toBe('mounted-password');
+            expect(resolveSecretSync({ fromSecret: 'kms_password', mountPath: tempDir }, 'password')).toBe('mounted-password');
+        });
+
+        it('should read secret mounts from /run/secrets by default', () => {
+            expect(() => resolveSecretSync({ fromSecret: 'mirage_missing_secret' }, 'password'))
+                .toThrow(`cannot read ${path.join('/run/secrets', 'mirage_missing_secret')}`);
+        });
+
+        it('should reject asynchronous resolvers', () => {
+            expect(() => resolveSecretSync(async () => 'resolved-secret', 'aws.secretAccessKey')).toThrow(/asynchronous resolver/);
+        });
+    });
+
+    describe('resolveSecret', () => {
+        it('should await resolvers', async () => {
+            await expect(resolveSecret(async () => 'resolved-secret', 'aws.secretAccessKey')).resolves.toBe('resolved-secret');
+        });
+
+        it('should reject empty values and wrap resolver failures', async () => {
+            await expect(resolveSecret(async () => '', 'aws.secretAccessKey')).rejects.toThrow(/returned an empty string/);
+            await expect(resolveSecret(async () => { throw new Error('vault sealed'); }, 'aws.secretAccessKey'))
+                .rejects.toThrow('Failed to resolve aws.secretAccessKey: vault sealed');
+        });
+    });
+
+    describe('redaction', () => {
+        it('should redact resolved secrets from error messages', async () => {
+            const secret = await resolveSecret(async () => 'resolved-and-redacted', 'aws.secretAccessKey');
+
+            expect(new KMSError(`Driver rejected ${secret}`).message).toBe('Driver rejected [REDACTED]');
+            expect(redactSecrets(`key=${secret};`)).toBe('key=[REDACTED];');
+        });
+
+        it('should not redact short values', () => {
+            registerSecret('short');
+            expect(redactSecrets('short text')).toBe('short text');
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import { Binary } from 'mongodb';
+import { EEncryptionAlgorithm } from '../src/enums/enums';
+import { ICollectionEncryptionSchema } from '../src/types/schema';
+import { buildServerValidator, compareServerSchema, formatServerSchemaDrift } from '../src/utils/serverSchema.utils';
+
+describe('serverSchema.utils', () => {
+    const keyId = () => new Binary(Buffer.alloc(16, 1), Binary.SUBTYPE_UUID);
+    const schema = (algorithm = EEncryptionAlgorithm.DETERMINISTIC): ICollectionEncryptionSchema => ({
+        bsonType: 'object',
+        properties: {
+            ssn: { encrypt: { bsonType: 'string', algorithm, keyId: [keyId()] } },
+        },
+    });
+
+    describe('compareServerSchema', () => {
+        it('should report a missing collection', () => {
+            expect(compareServerSchema('mydb.users', schema(), undefined)).toEqual({
+                namespace: 'mydb.users',
+                status: 'missingCollection',
+                differences: [],
+            });
+        });
+
+        it('should report a collection without a $jsonSchema validator', () => {
+            const drift = compareServerSchema('mydb.users', schema(), { name: 'users', options: { validator: { age: { $gte: 0 } } } });
+
+            expect(drift.status).toBe('missingValidator');
+        });
+
+        it('should treat an equal validator with a different key order as in sync', () => {
+            const remote = {
+                name: 'users',
+                options: {
+                    validator: {
+                        $jsonSchema: {
+                            properties: { ssn: { encrypt: { keyId: [keyId()], algorithm: EEncryptionAlgorithm.DETERMINISTIC, bsonType: 'string' } } },
+                            bsonType: 'object',
+                        },
+                    },
+                    validationLevel: 'strict',
+                },
+            };
+
+            expect(compareServerSchema('mydb.users', schema(), remote)).toEqual({ namespace: 'mydb.users', status: 'inSync', differences: [] });
+        });
+
+        it('should list the paths that differ', () => {
+            const remoteSchema = schema(EEncryptionAlgorithm.RANDOM) as any;
+            remoteSchema.properties.ssn.encrypt.keyId = [new Binary(Buffer.alloc(16, 2), Binary.SUBTYPE_UUID)];
+            remoteSchema.properties.pin = { encrypt: { bsonType: 'int', algorithm: EEncryptionAlgorithm.RANDOM, keyId: [keyId()] } };
+
+            const drift = compareServerSchema(
+                'mydb.users',
+                schema(),
+                { name: 'users', options: { validator: buildServerValidator(remoteSchema), validationAction: 'warn' } }
+            );
+
+            expect(drift.status).toBe('drifted');
+            expect(drift.differences.map((difference) => difference.path)).toEqual([
+                'validator.$jsonSchema.properties.ssn.encrypt.algorithm',
+                'validator.$jsonSchema.properties.ssn.encrypt.keyId.0',
+                'validator.$jsonSchema.properties.pin',
+                'validationAction',
+            ]);
+            expect(drift.differences[2]).not.toHaveProperty('expected');
+        });
+
+        it('should compare against the requested validation level and action', () => {
+            const remote = { name: 'users', options: { validator: buildServerValidator(schema()), validationLevel: 'moderate', validationAction: 'warn' } };
+
+            expect(compareServerSchema('mydb.users', schema(), remote, { validationLevel: 'moderate', validationAction: 'warn' }).status).toBe('inSync');
+        });
+    });
+
+    describe('formatServerSchemaDrift', () => {
+        it('should list each namespace with its differences', () => {
+            const text = formatServerSchemaDrift([
+                { namespace: 'mydb.users', status: 'drifted', differences: [{ path: 'validationAction', expected: 'error', actual: 'warn' }] },
+                { namespace: 'mydb.orders', status: 'inSync', differences: [] },
+                { namespace: 'mydb.logs', status: 'missingCollection', differences: [] },
+            ]);
+
+            expect(text).toBe([
+                'mydb.users: validator differs from the local schema',
+                '  validationAction: expected "error", found "warn"',
+                'mydb.orders: in sync',
+                'mydb.logs: collection does not exist',
+                '',
+                '2 of 3 collections out of sync.',
+            ].join('\n'));
+        });
+    });
+});
@@ -3,7 +3,10 @@ import { defineConfig } from 'tsup'
 export default defineConfig(
     {
         format: ['cjs', 'esm'],
-        entry: ['./src/index.ts'],
+        entry: {
+            index: './src/index.ts',
+            mirage: './src/bin/mirage.ts',
+        },
         dts: true,
         shims: true,
         skipNodeModulesBundle: true,